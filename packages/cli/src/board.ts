@@ -0,0 +1,225 @@
+import chalk from 'chalk';
+import { Task, StatusDefinition, comparePriority } from '@sabin/core';
+
+export interface BoardColumn {
+  status: StatusDefinition;
+  tasks: Task[];
+}
+
+export interface BoardState {
+  columns: BoardColumn[];
+  /** Index of the focused column */
+  column: number;
+  /** Index of the selected card in the focused column */
+  row: number;
+  showCompleted: boolean;
+  /** Number of completed tasks, shown in the footer while their column is hidden */
+  completedCount: number;
+  /** IDs of tasks with dependencies that are not completed */
+  blocked: Set<string>;
+  /** Result of the last action, shown in the footer */
+  message?: string;
+}
+
+export type BoardAction =
+  | 'left'
+  | 'right'
+  | 'up'
+  | 'down'
+  | 'moveLeft'
+  | 'moveRight'
+  | 'open'
+  | 'toggleCompleted'
+  | 'refresh'
+  | 'quit';
+
+export interface BoardKey {
+  name?: string;
+  ctrl?: boolean;
+  shift?: boolean;
+}
+
+const MIN_COLUMN_WIDTH = 20;
+const COLUMN_GAP = 2;
+/** Lines per card: ID, title and a spacer */
+const CARD_HEIGHT = 3;
+/** Lines above and below the cards: title, blank, header, rule and two footer lines */
+const CHROME_HEIGHT = 6;
+
+const HELP = '←→ column  ↑↓ card  </> move  enter edit  c completed  r refresh  q quit';
+
+/**
+ * Lay tasks out in one column per status, in workflow order, like the
+ * VS Code board. Completed statuses only get a column when shown.
+ */
+export function buildColumns(tasks: Task[], statuses: StatusDefinition[], showCompleted: boolean): BoardColumn[] {
+  return statuses
+    .filter(status => showCompleted || status.folder !== 'completed')
+    .map(status => ({
+      status,
+      tasks: tasks.filter(task => task.status === status.id).sort(comparePriority)
+    }));
+}
+
+/**
+ * Point the selection at a task, keeping the current position when it is not on the board
+ */
+export function selectTask(state: BoardState, taskId: string | undefined): BoardState {
+  for (let column = 0; column < state.columns.length; column++) {
+    const row = state.columns[column].tasks.findIndex(task => task.id === taskId);
+    if (row !== -1) {
+      return { ...state, column, row };
+    }
+  }
+  return clampSelection(state);
+}
+
+/**
+ * Get the card under the selection, if the focused column has any
+ */
+export function getSelectedTask(state: BoardState): Task | undefined {
+  return state.columns[state.column]?.tasks[state.row];
+}
+
+/**
+ * Move the selection between columns and cards
+ */
+export function navigate(state: BoardState, action: 'left' | 'right' | 'up' | 'down'): BoardState {
+  switch (action) {
+    case 'left':
+      return clampSelection({ ...state, column: state.column - 1 });
+    case 'right':
+      return clampSelection({ ...state, column: state.column + 1 });
+    case 'up':
+      return clampSelection({ ...state, row: state.row - 1 });
+    case 'down':
+      return clampSelection({ ...state, row: state.row + 1 });
+  }
+}
+
+/**
+ * Map a keypress to a board action
+ */
+export function getBoardAction(input: string | undefined, key: BoardKey = {}): BoardAction | undefined {
+  if (key.ctrl && key.name === 'c') {
+    return 'quit';
+  }
+  if (input === '<' || input === 'H' || (key.shift && key.name === 'left')) {
+    return 'moveLeft';
+  }
+  if (input === '>' || input === 'L' || (key.shift && key.name === 'right')) {
+    return 'moveRight';
+  }
+
+  switch (key.name) {
+    case 'left':
+    case 'h':
+      return 'left';
+    case 'right':
+    case 'l':
+      return 'right';
+    case 'up':
+    case 'k':
+      return 'up';
+    case 'down':
+    case 'j':
+      return 'down';
+    case 'return':
+    case 'e':
+      return 'open';
+    case 'c':
+      return 'toggleCompleted';
+    case 'r':
+      return 'refresh';
+    case 'q':
+    case 'escape':
+      return 'quit';
+  }
+  return undefined;
+}
+
+/**
+ * Draw the board as one string per terminal line, fitted to the given size.
+ * Columns that do not fit scroll into view as the selection moves.
+ */
+export function renderBoard(state: BoardState, width: number, height: number): string[] {
+  const fitting = Math.max(1, Math.floor((width + COLUMN_GAP) / (MIN_COLUMN_WIDTH + COLUMN_GAP)));
+  const count = Math.min(fitting, state.columns.length) || 1;
+  const columnWidth = Math.floor((width - COLUMN_GAP * (count - 1)) / count);
+  const first = Math.min(Math.max(0, state.column - count + 1), Math.max(0, state.columns.length - count));
+  const visible = state.columns.slice(first, first + count);
+  const cardsPerColumn = Math.max(1, Math.floor((height - CHROME_HEIGHT) / CARD_HEIGHT));
+  const gap = ' '.repeat(COLUMN_GAP);
+
+  const total = state.columns.reduce((sum, column) => sum + column.tasks.length, 0);
+  const lines = [`${chalk.bold('Sabin board')}  ${chalk.gray(`${total} task(s)`)}`, ''];
+
+  lines.push(visible.map((column, i) => {
+    const header = fit(`${column.status.name} (${column.tasks.length})`, columnWidth);
+    return first + i === state.column ? chalk.bold(chalk.cyan(header)) : chalk.gray(header);
+  }).join(gap));
+  lines.push(visible.map(() => chalk.gray('─'.repeat(columnWidth))).join(gap));
+
+  // Scroll each column so its selected card stays visible
+  const offsets = visible.map((column, i) => {
+    const row = first + i === state.column ? state.row : 0;
+    return Math.max(0, Math.min(row - cardsPerColumn + 1, column.tasks.length - cardsPerColumn));
+  });
+
+  for (let slot = 0; slot < cardsPerColumn; slot++) {
+    const cardLines = ['', '', ''].map(() => [] as string[]);
+
+    visible.forEach((column, i) => {
+      const index = offsets[i] + slot;
+      const task = column.tasks[index];
+      const card = task ? renderCard(task, state.blocked.has(task.id), columnWidth) : ['', ''];
+      const selected = task && first + i === state.column && index === state.row;
+
+      cardLines[0].push(selected ? chalk.inverse(card[0]) : card[0] || ' '.repeat(columnWidth));
+      cardLines[1].push(selected ? chalk.inverse(card[1]) : card[1] || ' '.repeat(columnWidth));
+      cardLines[2].push(' '.repeat(columnWidth));
+    });
+
+    lines.push(...cardLines.map(parts => parts.join(gap).trimEnd()));
+  }
+
+  while (lines.length < height - 2) {
+    lines.push('');
+  }
+
+  let footer = state.message || '';
+  if (!state.showCompleted && state.completedCount > 0) {
+    footer = [footer, chalk.gray(`${state.completedCount} completed (c to show)`)].filter(Boolean).join('  ');
+  }
+  lines.push(footer, chalk.gray(fit(HELP, width).trimEnd()));
+
+  return lines.slice(0, height);
+}
+
+function renderCard(task: Task, blocked: boolean, width: number): [string, string] {
+  const markers: string[] = [];
+  if (blocked) {
+    markers.push('blocked');
+  }
+  if (task.extra?.priority !== undefined) {
+    markers.push(`!${task.extra.priority}`);
+  }
+
+  const label = fit(` ${[task.id, ...markers].join(' ')}`, width);
+  const first = blocked ? chalk.red(label) : chalk.bold(label);
+  return [first, fit(` ${task.title}`, width)];
+}
+
+function clampSelection(state: BoardState): BoardState {
+  const column = Math.min(Math.max(0, state.column), Math.max(0, state.columns.length - 1));
+  const length = state.columns[column]?.tasks.length || 0;
+  const row = Math.min(Math.max(0, state.row), Math.max(0, length - 1));
+  return { ...state, column, row };
+}
+
+/**
+ * Cut text to a width, marking the cut with an ellipsis, and pad it to exactly that width
+ */
+function fit(text: string, width: number): string {
+  return text.length > width ? `${text.slice(0, Math.max(0, width - 1))}…` : text.padEnd(width);
+}
@@ -0,0 +1,25 @@
+import chalk from 'chalk';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function archiveTask(taskId: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const { bin, task, metadata } = await repository.archive(taskId);
+
+    if (isJsonOutput()) {
+      printJson({ bin, task: taskToJson(task), metadata });
+      return;
+    }
+
+    console.log(chalk.green(`Archived ${task.id}`));
+    console.log(chalk.gray(`Path: ${task.path}`));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to archive task'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
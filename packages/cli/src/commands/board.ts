@@ -0,0 +1,236 @@
+import { watch, FSWatcher } from 'fs';
+import readline from 'readline';
+import chalk from 'chalk';
+import {
+  TaskRepository,
+  SabinError,
+  getBlockingDependencies,
+  isCompletedStatus
+} from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import {
+  BoardState,
+  BoardAction,
+  BoardKey,
+  buildColumns,
+  renderBoard,
+  getBoardAction,
+  getSelectedTask,
+  navigate,
+  selectTask
+} from '../board';
+import { editInEditor } from './edit-task';
+
+// Switch to the alternate screen and hide the cursor, and back
+const ENTER_SCREEN = '\x1b[?1049h\x1b[?25l';
+const LEAVE_SCREEN = '\x1b[?25h\x1b[?1049l';
+
+/** Wait for a burst of file events to settle before reloading */
+const REFRESH_DELAY = 200;
+
+export async function runBoard(): Promise<void> {
+  try {
+    if (!process.stdin.isTTY || !process.stdout.isTTY) {
+      throw new SabinError('sabin board needs an interactive terminal', 'NOT_A_TERMINAL');
+    }
+
+    const repository = await openTaskRepository();
+    await showBoard(repository);
+  } catch (error: any) {
+    console.error(chalk.red('Failed to show board'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+/**
+ * Run the board until the user quits, redrawing after every key,
+ * terminal resize and change under tasks/
+ */
+async function showBoard(repository: TaskRepository): Promise<void> {
+  let state = await loadBoard(repository, {
+    columns: [],
+    column: 0,
+    row: 0,
+    showCompleted: false,
+    completedCount: 0,
+    blocked: new Set()
+  });
+  // Set while an action or the editor runs, so keys and file events wait
+  let busy = false;
+  let refreshTimer: NodeJS.Timeout | undefined;
+  let watcher: FSWatcher | undefined;
+
+  const draw = () => {
+    const lines = renderBoard(state, process.stdout.columns || 80, process.stdout.rows || 24);
+    process.stdout.write(`\x1b[H${lines.map(line => `${line}\x1b[K`).join('\n')}\x1b[J`);
+  };
+
+  const enterScreen = () => {
+    process.stdin.setRawMode(true);
+    process.stdin.resume();
+    process.stdout.write(ENTER_SCREEN);
+    draw();
+  };
+
+  const leaveScreen = () => {
+    process.stdout.write(LEAVE_SCREEN);
+    process.stdin.setRawMode(false);
+    process.stdin.pause();
+  };
+
+  const reload = async (selectId?: string) => {
+    state = await loadBoard(repository, state, selectId);
+    draw();
+  };
+
+  const scheduleReload = () => {
+    clearTimeout(refreshTimer);
+    refreshTimer = setTimeout(() => {
+      if (busy) {
+        scheduleReload();
+        return;
+      }
+      reload().catch(error => {
+        state = { ...state, message: chalk.red(error.message) };
+        draw();
+      });
+    }, REFRESH_DELAY);
+  };
+
+  return new Promise<void>(resolve => {
+    const quit = () => {
+      clearTimeout(refreshTimer);
+      watcher?.close();
+      process.stdin.off('keypress', onKeypress);
+      process.stdout.off('resize', draw);
+      leaveScreen();
+      resolve();
+    };
+
+    const run = async (action: BoardAction) => {
+      switch (action) {
+        case 'left':
+        case 'right':
+        case 'up':
+        case 'down':
+          state = { ...navigate(state, action), message: undefined };
+          draw();
+          break;
+        case 'moveLeft':
+        case 'moveRight': {
+          const { message, taskId } = await moveSelected(repository, state, action === 'moveLeft' ? -1 : 1);
+          await reload(taskId);
+          state = { ...state, message };
+          draw();
+          break;
+        }
+        case 'open': {
+          const task = getSelectedTask(state);
+          if (!task) {
+            break;
+          }
+          leaveScreen();
+          let message: string;
+          try {
+            message = await editInEditor(repository, task) ? chalk.green(`Saved ${task.id}`) : `No changes to ${task.id}`;
+          } catch (error: any) {
+            message = chalk.red(error.message);
+          }
+          enterScreen();
+          await reload(task.id);
+          state = { ...state, message };
+          draw();
+          break;
+        }
+        case 'toggleCompleted':
+          state = { ...state, showCompleted: !state.showCompleted };
+          await reload(getSelectedTask(state)?.id);
+          break;
+        case 'refresh':
+          await reload(getSelectedTask(state)?.id);
+          break;
+        case 'quit':
+          quit();
+          break;
+      }
+    };
+
+    function onKeypress(input: string | undefined, key: BoardKey) {
+      const action = getBoardAction(input, key);
+      if (!action || (busy && action !== 'quit')) {
+        return;
+      }
+
+      busy = true;
+      run(action)
+        .catch(error => {
+          state = { ...state, message: chalk.red(error.message) };
+          draw();
+        })
+        .finally(() => {
+          busy = false;
+        });
+    }
+
+    readline.emitKeypressEvents(process.stdin);
+    process.stdin.on('keypress', onKeypress);
+    process.stdout.on('resize', draw);
+
+    try {
+      watcher = watch(repository.tasksDir, { recursive: true }, scheduleReload);
+    } catch {
+      state = { ...state, message: chalk.yellow('Live refresh is unavailable; press r to refresh') };
+    }
+
+    enterScreen();
+  });
+}
+
+/**
+ * Read tasks and statuses into a fresh board, keeping the selection on the
+ * given task, or on the previously selected one
+ */
+async function loadBoard(repository: TaskRepository, previous: BoardState, selectId?: string): Promise<BoardState> {
+  const [tasks, statuses, config] = await Promise.all([
+    repository.list(),
+    repository.getStatuses(),
+    repository.getConfig()
+  ]);
+  const selected = selectId || getSelectedTask(previous)?.id;
+
+  return selectTask({
+    ...previous,
+    columns: buildColumns(tasks, statuses, previous.showCompleted),
+    completedCount: tasks.filter(task => isCompletedStatus(task.status, config)).length,
+    blocked: new Set(tasks.filter(task => getBlockingDependencies(task, tasks, config).length > 0).map(task => task.id))
+  }, selected);
+}
+
+/**
+ * Move the selected card to the previous or next status in workflow order,
+ * going through the same transition checks as `sabin task update`
+ */
+async function moveSelected(
+  repository: TaskRepository,
+  state: BoardState,
+  step: -1 | 1
+): Promise<{ message: string; taskId?: string }> {
+  const task = getSelectedTask(state);
+  if (!task) {
+    return { message: 'No card selected' };
+  }
+
+  const statuses = await repository.getStatuses();
+  const target = statuses[statuses.findIndex(status => status.id === task.status) + step];
+  if (!target) {
+    return { message: `${task.id} is already in the ${step < 0 ? 'first' : 'last'} status`, taskId: task.id };
+  }
+
+  try {
+    await repository.move(task.id, target.id);
+    return { message: chalk.green(`Moved ${task.id} to ${target.name}`), taskId: task.id };
+  } catch (error: any) {
+    return { message: chalk.red(error.message), taskId: task.id };
+  }
+}
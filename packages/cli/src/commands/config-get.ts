@@ -0,0 +1,27 @@
+import chalk from 'chalk';
+import { SabinError, resolveSabinDir, readConfigFile, getDefaultConfig, getConfigValue } from '@sabin/core';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+
+export async function showConfigValue(key: string): Promise<void> {
+  try {
+    const { sabinDir } = await resolveSabinDir();
+    const config = { ...getDefaultConfig(), ...await readConfigFile(sabinDir) };
+    const value = getConfigValue(config, key);
+    if (value === undefined) {
+      throw new SabinError(`Config key is not set: ${key}`, 'CONFIG_KEY_NOT_SET');
+    }
+
+    if (isJsonOutput()) {
+      printJson({ key, value });
+      return;
+    }
+    console.log(typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red(`Failed to get ${key}`));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
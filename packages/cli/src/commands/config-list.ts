@@ -0,0 +1,44 @@
+import chalk from 'chalk';
+import { resolveSabinDir, readConfigFile, getDefaultConfig, validateConfig } from '@sabin/core';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+
+export async function listConfigValues(): Promise<void> {
+  try {
+    const { sabinDir } = await resolveSabinDir();
+    // Read as written, so a config with problems can still be inspected
+    const written = await readConfigFile(sabinDir) || {};
+    const config: Record<string, unknown> = { ...getDefaultConfig(), ...written };
+    const problems = validateConfig(written);
+
+    if (isJsonOutput()) {
+      printJson({ config, problems });
+      return;
+    }
+
+    for (const [key, value] of Object.entries(config)) {
+      const source = key in written ? '' : chalk.gray(' (default)');
+      console.log(`${chalk.bold(key)} = ${formatConfigValue(value)}${source}`);
+    }
+
+    if (problems.length > 0) {
+      console.log(chalk.yellow(`\nconfig.json has ${problems.length} problem(s):`));
+      for (const problem of problems) {
+        console.log(chalk.yellow(`  ${problem}`));
+      }
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to list config'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+/**
+ * Strings as is, anything else as JSON
+ */
+export function formatConfigValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,110 @@
+import path from 'path';
+import chalk from 'chalk';
+import {
+  SabinError,
+  SabinConfig,
+  InvalidConfigError,
+  resolveSabinDir,
+  readConfigFile,
+  writeConfig,
+  getDefaultConfig,
+  validateConfig,
+  getConfigKeySchema,
+  setConfigValue,
+  unsetConfigValue
+} from '@sabin/core';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+import { formatConfigValue } from './config-list';
+
+export async function setConfigOption(key: string, value: string): Promise<void> {
+  try {
+    const parsed = parseConfigValue(key, value);
+    const problems = await updateConfigFile(config => setConfigValue(config, key, parsed));
+
+    if (isJsonOutput()) {
+      printJson({ key, value: parsed, problems });
+      return;
+    }
+    console.log(chalk.green(`✓ Set ${key} = ${formatConfigValue(parsed)}`));
+    printRemainingProblems(problems);
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red(`Failed to set ${key}`));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+export async function unsetConfigOption(key: string): Promise<void> {
+  try {
+    const problems = await updateConfigFile(config => {
+      if (!unsetConfigValue(config, key)) {
+        throw new SabinError(`Config key is not set: ${key}`, 'CONFIG_KEY_NOT_SET');
+      }
+    });
+
+    if (isJsonOutput()) {
+      printJson({ key, problems });
+      return;
+    }
+    console.log(chalk.green(`✓ Unset ${key}`));
+    printRemainingProblems(problems);
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red(`Failed to unset ${key}`));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+/**
+ * Parse a value given on the command line as JSON, so numbers, arrays and
+ * objects can be set, falling back to the text itself. Settings the schema
+ * declares as strings are always kept as text, e.g. a projectPrefix of 123.
+ */
+function parseConfigValue(key: string, value: string): unknown {
+  if (getConfigKeySchema(key)?.type === 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Apply a change to config.json as written and save it, refusing changes
+ * that add schema problems. Problems the file already had don't block
+ * the change, so a broken config can be fixed one setting at a time.
+ * Returns the problems that remain.
+ */
+async function updateConfigFile(update: (config: Record<string, unknown>) => void): Promise<string[]> {
+  const { sabinDir } = await resolveSabinDir();
+  const config = await readConfigFile(sabinDir) || { ...getDefaultConfig() };
+  const before = validateConfig(config);
+
+  update(config);
+
+  const problems = validateConfig(config);
+  const added = problems.filter(problem => !before.includes(problem));
+  if (added.length > 0) {
+    throw new InvalidConfigError(path.join(sabinDir, 'config.json'), added);
+  }
+
+  await writeConfig(config as unknown as SabinConfig, sabinDir);
+  return problems;
+}
+
+function printRemainingProblems(problems: string[]): void {
+  if (problems.length > 0) {
+    console.log(chalk.yellow(`config.json still has ${problems.length} problem(s):`));
+    for (const problem of problems) {
+      console.log(chalk.yellow(`  ${problem}`));
+    }
+  }
+}
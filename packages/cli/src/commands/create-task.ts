@@ -1,21 +1,17 @@
-import fs from 'fs/promises';
 import path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
 import { input } from '@inquirer/prompts';
-import {
-  getNextTaskNumber,
-  writeTask,
-  readConfig,
-  resolveSabinDir,
-  getWorkingDirName,
-  Task
-} from '@sabin/core';
+import { SabinError } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { getOutputFormat, isJsonOutput, printJson, printTaskLine, taskToJson, exitWithJsonError } from '../output';
 
 interface CreateTaskOptions {
   title?: string;
   content?: string;
   number?: string;
+  dependsOn?: string;
+  parent?: string;
 }
 
 export async function createTask(options: CreateTaskOptions): Promise<void> {
@@ -23,15 +19,13 @@ export async function createTask(options: CreateTaskOptions): Promise<void> {
 
   try {
     // Resolve .sabin directory (file or directory)
-    const { sabinDir, isLinked, projectRoot } = await resolveSabinDir();
-    const tasksDir = path.join(sabinDir, 'tasks');
-    const openDir = path.join(tasksDir, 'open');
+    const repository = await openTaskRepository();
 
-    // Ensure directory exists
-    await fs.mkdir(openDir, { recursive: true });
-
-    // Read config from resolved .sabin directory
-    const config = await readConfig(sabinDir);
+    // Prompts would mix with machine-readable output
+    const interactive = getOutputFormat() === 'text';
+    if (!interactive && !options.title) {
+      throw new SabinError('A title is required (-t) with --json or --format', 'MISSING_TITLE');
+    }
 
     // Prompt for missing required fields
     if (!options.title) {
@@ -41,83 +35,55 @@ export async function createTask(options: CreateTaskOptions): Promise<void> {
       });
     }
 
-    if (!options.content) {
+    if (!options.content && interactive) {
       options.content = await input({
         message: 'Task content (optional):',
         default: ''
       });
     }
 
-    spinner = ora('Creating task...').start();
-
-    // Get task ID - use provided ID or generate next one
-    let taskId: string;
-    let filename: string;
+    spinner = ora({ text: 'Creating task...', isSilent: !interactive }).start();
 
-    if (options.number) {
-      // Accept any non-empty string as task ID
-      const customId = options.number.trim();
-      if (!customId) {
-        spinner.fail(chalk.red('Task ID cannot be empty.'));
-        process.exit(1);
-      }
+    // Accept numbers and unique prefixes for referenced tasks
+    const dependsOn = options.dependsOn?.split(',').map(id => id.trim()).filter(Boolean);
+    const parent = options.parent ? await repository.resolveId(options.parent) : undefined;
 
-      // Use the ID as-is for the filename
-      taskId = customId;
-      filename = `${taskId}.md`;
+    // Use provided ID or generate the next one from the configured prefix
+    const task = await repository.create({
+      title: options.title,
+      content: options.content,
+      taskId: options.number,
+      dependsOn: dependsOn && await Promise.all(dependsOn.map(id => repository.resolveId(id))),
+      parent
+    });
 
-      // Check if task already exists
-      const testPath = path.join(openDir, filename);
-      const resolvedPath = path.join(tasksDir, 'resolved', filename);
-      try {
-        await fs.access(testPath);
-        spinner.fail(chalk.red(`Task ${taskId} already exists in open/`));
-        process.exit(1);
-      } catch {
-        // File doesn't exist in open, check resolved
-        try {
-          await fs.access(resolvedPath);
-          spinner.fail(chalk.red(`Task ${taskId} already exists in resolved/`));
-          process.exit(1);
-        } catch {
-          // File doesn't exist anywhere, we can use this ID
-        }
-      }
-    } else {
-      // Generate next task number using configured prefix
-      const nextNumber = await getNextTaskNumber(tasksDir, config);
-      taskId = `${config.projectPrefix}-${nextNumber}`;
-      filename = `${taskId}.md`;
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task) });
+      return;
     }
-
-    const filePath = path.join(openDir, filename);
-
-    // Create task object
-    const task: Task = {
-      status: 'open',
-      title: options.title || `Task ${taskId}`,
-      content: options.content || '',
-      path: filePath
-    };
-
-    // Add working directory if using linked setup
-    if (isLinked) {
-      task.workingDir = getWorkingDirName(sabinDir, projectRoot);
+    if (printTaskLine(task)) {
+      return;
     }
 
-    // Write task file
-    await writeTask(task);
-
-    spinner.succeed(chalk.green(`Created task: ${filename}`));
-    console.log(chalk.gray(`Path: ${filePath}`));
+    spinner.succeed(chalk.green(`Created task: ${path.basename(task.path)}`));
+    console.log(chalk.gray(`Path: ${task.path}`));
     if (task.workingDir) {
       console.log(chalk.gray(`Working directory: ${task.workingDir}`));
     }
+    if (task.parent) {
+      console.log(chalk.gray(`Parent: ${task.parent}`));
+    }
+    if (task.dependsOn) {
+      console.log(chalk.gray(`Depends on: ${task.dependsOn.join(', ')}`));
+    }
   } catch (error) {
     // Re-throw process exit errors (for testing)
     if (error instanceof Error && error.message === 'Process exit') {
       throw error;
     }
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
     if (spinner) {
       spinner.fail(chalk.red('Failed to create task'));
     } else {
@@ -126,4 +92,4 @@ export async function createTask(options: CreateTaskOptions): Promise<void> {
     console.error(error);
     process.exit(1);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,25 @@
+import chalk from 'chalk';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function deleteTask(taskId: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const { bin, task, metadata } = await repository.delete(taskId);
+
+    if (isJsonOutput()) {
+      printJson({ bin, task: taskToJson(task), metadata });
+      return;
+    }
+
+    console.log(chalk.green(`Moved ${task.id} to the trash`));
+    console.log(chalk.gray(`Restore it with: sabin task restore ${task.id}`));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to delete task'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
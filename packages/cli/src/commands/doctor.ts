@@ -0,0 +1,62 @@
+import path from 'path';
+import chalk from 'chalk';
+import {
+  resolveSabinDir,
+  validateSabinDir,
+  fixSabinDir,
+  SabinProblem
+} from '@sabin/core';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+
+export async function runDoctor(options: { fix?: boolean }): Promise<void> {
+  try {
+    const { sabinDir, isLinked, projectRoot } = await resolveSabinDir();
+    const validateOptions = { linkPath: isLinked ? path.join(projectRoot, '.sabin') : undefined };
+
+    const fixed = options.fix ? await fixSabinDir(sabinDir, validateOptions) : [];
+    if (!isJsonOutput()) {
+      for (const problem of fixed) {
+        console.log(`${chalk.green('✓ Fixed')} ${formatProblem(problem)}`);
+      }
+    }
+
+    const problems = await validateSabinDir(sabinDir, validateOptions);
+    if (isJsonOutput()) {
+      printJson({ sabinDir, fixed, problems });
+      if (problems.length > 0) {
+        process.exit(1);
+      }
+      return;
+    }
+    if (problems.length === 0) {
+      console.log(chalk.green(`✓ No problems found in ${sabinDir}`));
+      return;
+    }
+
+    for (const problem of problems) {
+      console.log(`${chalk.red('✗')} ${formatProblem(problem)}`);
+    }
+
+    const fixable = problems.filter(p => p.fixable).length;
+    console.log(chalk.yellow(`\n${problems.length} problem(s) found`));
+    if (fixable > 0 && !options.fix) {
+      console.log(chalk.gray(`Run "sabin doctor --fix" to repair ${fixable} of them`));
+    }
+    process.exit(1);
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to check .sabin directory'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function formatProblem(problem: SabinProblem): string {
+  let line = `${chalk.bold(`[${problem.code}]`)} ${problem.message}`;
+  if (problem.path) {
+    line += chalk.gray(`\n    ${problem.path}`);
+  }
+  return line;
+}
@@ -0,0 +1,135 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import chalk from 'chalk';
+import { confirm } from '@inquirer/prompts';
+import {
+  Task,
+  TaskRepository,
+  SabinError,
+  InvalidTaskFieldError,
+  parseTask,
+  setTaskField,
+  unsetTaskField,
+  validateTaskFields
+} from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+interface EditTaskOptions {
+  set?: string[];
+  unset?: string[];
+}
+
+export async function editTask(taskId: string, options: EditTaskOptions): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const task = await repository.get(taskId);
+    const set = options.set || [];
+    const unset = options.unset || [];
+
+    if (set.length === 0 && unset.length === 0) {
+      if (isJsonOutput()) {
+        // The editor takes over the terminal, so nothing could be parsed
+        throw new SabinError('Editing in an editor has no JSON output. Use --set or --unset.', 'INVALID_FORMAT');
+      }
+      if (await editInEditor(repository, task)) {
+        console.log(chalk.green(`Updated ${task.id}`));
+      }
+      return;
+    }
+
+    for (const assignment of set) {
+      const separator = assignment.indexOf('=');
+      if (separator <= 0) {
+        throw new SabinError(`Invalid assignment "${assignment}". Use --set field=value`, 'INVALID_ASSIGNMENT');
+      }
+      const field = assignment.slice(0, separator).trim();
+      let value = assignment.slice(separator + 1);
+
+      // Accept numbers and unique prefixes for referenced tasks
+      if (field === 'parent') {
+        value = await repository.resolveId(value.trim());
+      } else if (field === 'dependsOn') {
+        const ids = value.split(',').map(id => id.trim()).filter(Boolean);
+        value = (await Promise.all(ids.map(id => repository.resolveId(id)))).join(',');
+      }
+      setTaskField(task, field, value);
+    }
+    for (const field of unset) {
+      unsetTaskField(task, field);
+    }
+
+    await repository.update(task);
+
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task), set, unset });
+      return;
+    }
+    console.log(chalk.green(`Updated ${task.id}`));
+    for (const assignment of set) {
+      console.log(chalk.gray(`  set ${assignment}`));
+    }
+    for (const field of unset) {
+      console.log(chalk.gray(`  unset ${field}`));
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to edit task'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+/**
+ * Open a copy of the task file in $VISUAL/$EDITOR and write it back once the
+ * frontmatter validates, offering to re-open the editor when it does not.
+ * Returns false when nothing was changed.
+ */
+export async function editInEditor(repository: TaskRepository, task: Task): Promise<boolean> {
+  const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+  const original = await fs.readFile(task.path, 'utf8');
+  const config = await repository.getConfig();
+
+  // Edit a copy so the task file is never left half-valid
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-edit-'));
+  const tempPath = path.join(tempDir, path.basename(task.path));
+
+  try {
+    await fs.writeFile(tempPath, original);
+
+    for (;;) {
+      const result = spawnSync(`${editor} "${tempPath}"`, { stdio: 'inherit', shell: true });
+      if (result.status !== 0) {
+        throw new SabinError(`Editor exited with status ${result.status}. Task left unchanged.`, 'EDITOR_FAILED');
+      }
+
+      if (await fs.readFile(tempPath, 'utf8') === original) {
+        console.log(chalk.yellow('No changes made'));
+        return false;
+      }
+
+      try {
+        const edited = await parseTask(tempPath);
+        validateTaskFields(edited, config);
+        if (edited.status !== task.status) {
+          throw new InvalidTaskFieldError('status', 'use "sabin task update" to change the status');
+        }
+
+        edited.path = task.path;
+        await repository.update(edited);
+        return true;
+      } catch (error: any) {
+        console.error(chalk.red(error.message));
+        if (!await confirm({ message: 'Re-open the editor to fix it?', default: true })) {
+          throw new SabinError('Changes discarded. Task left unchanged.', 'EDIT_DISCARDED');
+        }
+      }
+    }
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
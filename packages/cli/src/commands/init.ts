@@ -2,23 +2,28 @@ import fs from 'fs/promises';
 import path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
-import { writeConfig, getDefaultConfig, checkSabinType } from '@sabin/core';
+import { SabinError, writeConfig, getDefaultConfig, checkSabinType, SCHEMA_VERSION } from '@sabin/core';
+import { getOutputFormat, isJsonOutput, printJson, exitWithJsonError } from '../output';
 
 interface InitOptions {
   prefix: string;
 }
 
 export async function initProject(options: InitOptions): Promise<void> {
-  const spinner = ora('Initializing Sabin project structure...').start();
+  const spinner = ora({
+    text: 'Initializing Sabin project structure...',
+    isSilent: getOutputFormat() !== 'text'
+  }).start();
 
   try {
     const projectRoot = process.cwd();
     const sabinType = await checkSabinType(projectRoot);
 
     if (sabinType !== 'none') {
-      throw new Error(
+      throw new SabinError(
         `.sabin already exists in this directory.\n` +
-        `To link to a shared .sabin, remove the existing one and run: sabin link <path>`
+        `To link to a shared .sabin, remove the existing one and run: sabin link <path>`,
+        'SABIN_DIR_EXISTS'
       );
     }
 
@@ -39,8 +44,18 @@ export async function initProject(options: InitOptions): Promise<void> {
     // Create config file with required prefix
     const config = getDefaultConfig();
     config.projectPrefix = options.prefix;
+    config.schemaVersion = SCHEMA_VERSION;
     await writeConfig(config, sabinDir);
 
+    if (isJsonOutput()) {
+      printJson({ sabinDir, config });
+      return;
+    }
+    if (getOutputFormat() !== 'text') {
+      console.log(sabinDir);
+      return;
+    }
+
     spinner.succeed(chalk.green('Sabin project initialized successfully!'));
     console.log(chalk.gray('\nCreated structure:'));
     console.log(chalk.gray('  .sabin/'));
@@ -53,6 +68,9 @@ export async function initProject(options: InitOptions): Promise<void> {
     console.log(chalk.cyan(`\nProject prefix set to: ${options.prefix}`));
     console.log(chalk.gray(`Location: ${sabinDir}`));
   } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
     spinner.fail(chalk.red('Failed to initialize Sabin project'));
     console.error(chalk.red(error.message));
     process.exit(1);
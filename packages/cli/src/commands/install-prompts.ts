@@ -3,6 +3,7 @@ import path from 'path';
 import os from 'os';
 import chalk from 'chalk';
 import ora from 'ora';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
 
 interface InstallPromptsOptions {
   agent?: string;
@@ -43,7 +44,7 @@ function getPromptsSourceDirectory(): string {
 
 export async function installPrompts(options: InstallPromptsOptions): Promise<void> {
   const agent = options.agent || 'claude';
-  const spinner = ora(`Installing Sabin prompts for ${agent}...`).start();
+  const spinner = ora({ text: `Installing Sabin prompts for ${agent}...`, isSilent: isJsonOutput() }).start();
 
   try {
     // Get directories
@@ -55,6 +56,7 @@ export async function installPrompts(options: InstallPromptsOptions): Promise<vo
 
     let installedCount = 0;
     let failedCount = 0;
+    const installed: string[] = [];
     const errors: string[] = [];
 
     // Install each prompt
@@ -68,6 +70,7 @@ export async function installPrompts(options: InstallPromptsOptions): Promise<vo
 
         // Copy file
         await fs.copyFile(sourcePath, destPath);
+        installed.push(commandName);
         installedCount++;
       } catch (error) {
         failedCount++;
@@ -76,6 +79,14 @@ export async function installPrompts(options: InstallPromptsOptions): Promise<vo
       }
     }
 
+    if (isJsonOutput()) {
+      printJson({ agent, commandsDir, installed, errors });
+      if (failedCount > 0) {
+        process.exit(1);
+      }
+      return;
+    }
+
     if (failedCount === 0) {
       spinner.succeed(chalk.green(`Successfully installed ${installedCount} prompts for ${agent}`));
 
@@ -103,6 +114,9 @@ export async function installPrompts(options: InstallPromptsOptions): Promise<vo
       process.exit(1);
     }
   } catch (error) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
     spinner.fail(chalk.red('Failed to install prompts'));
 
     if (error instanceof Error) {
@@ -3,10 +3,11 @@ import path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
 import { confirm } from '@inquirer/prompts';
-import { writeSabinLink, checkSabinType } from '@sabin/core';
+import { SabinError, writeSabinLink, checkSabinType } from '@sabin/core';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
 
 export async function linkToSharedSabin(targetPath: string): Promise<void> {
-  const spinner = ora('Linking to shared .sabin...').start();
+  const spinner = ora({ text: 'Linking to shared .sabin...', isSilent: isJsonOutput() }).start();
 
   try {
     const projectRoot = process.cwd();
@@ -36,6 +37,12 @@ export async function linkToSharedSabin(targetPath: string): Promise<void> {
     const currentType = await checkSabinType(projectRoot);
 
     if (currentType === 'directory') {
+      if (isJsonOutput()) {
+        throw new SabinError(
+          '.sabin directory already exists. Remove it first, or link without --json to be asked.',
+          'SABIN_DIR_EXISTS'
+        );
+      }
       spinner.warn(chalk.yellow('.sabin directory already exists'));
       const shouldReplace = await confirm({
         message: 'Replace local .sabin directory with link to shared directory? This will DELETE the local directory.',
@@ -60,10 +67,17 @@ export async function linkToSharedSabin(targetPath: string): Promise<void> {
     // Create .sabin link file
     await writeSabinLink(projectRoot, resolvedTarget);
 
+    if (isJsonOutput()) {
+      printJson({ target: resolvedTarget, linkFile: path.join(projectRoot, '.sabin') });
+      return;
+    }
     spinner.succeed(chalk.green('Successfully linked to shared .sabin'));
     console.log(chalk.gray(`Target: ${resolvedTarget}`));
     console.log(chalk.gray(`Link file: ${path.join(projectRoot, '.sabin')}`));
   } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
     spinner.fail(chalk.red('Failed to link to shared .sabin'));
     console.error(chalk.red(error.message));
     process.exit(1);
@@ -1,74 +1,74 @@
-import fs from 'fs/promises';
 import path from 'path';
 import chalk from 'chalk';
 import {
-  parseTask,
-  readConfig,
-  resolveSabinDir,
-  Task
+  Task,
+  SabinConfig,
+  StatusDefinition,
+  StatusColor,
+  STATUS_COLORS,
+  InvalidTaskStatusError,
+  SabinError,
+  isValidStatus,
+  getBlockingDependencies,
+  filterTasks
 } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import {
+  getOutputFormat,
+  isJsonOutput,
+  printJson,
+  taskToJson,
+  formatCompactLine,
+  formatTable,
+  exitWithJsonError
+} from '../output';
 
 interface ListTasksOptions {
   status?: string;
+  filter?: string;
 }
 
-const VALID_STATUSES = ['open', 'ready', 'in_progress', 'review', 'completed'] as const;
-
 export async function listTasks(options: ListTasksOptions): Promise<void> {
   try {
-    // Validate status if provided
-    if (options.status && !VALID_STATUSES.includes(options.status as any)) {
-      console.error(chalk.red(`Invalid status: ${options.status}`));
-      console.error(chalk.yellow(`Valid statuses: ${VALID_STATUSES.join(', ')}`));
-      process.exit(1);
-    }
-
     // Resolve .sabin directory
-    const { sabinDir } = await resolveSabinDir();
-    const tasksDir = path.join(sabinDir, 'tasks');
-    const config = await readConfig(sabinDir);
-    const tasks: Task[] = [];
-
-    // Read tasks from open directory
-    const openDir = path.join(tasksDir, 'open');
-    try {
-      const openFiles = await fs.readdir(openDir);
-      for (const file of openFiles.filter(f => f.endsWith('.md'))) {
-        const task = await parseTask(path.join(openDir, file));
-        tasks.push(task);
-      }
-    } catch {
-      // Directory might not exist
-    }
+    const repository = await openTaskRepository();
+    const config = await repository.getConfig();
+    const statuses = await repository.getStatuses();
 
-    // Read tasks from completed directory
-    const completedDir = path.join(tasksDir, 'completed');
-    try {
-      const completedFiles = await fs.readdir(completedDir);
-      for (const file of completedFiles.filter(f => f.endsWith('.md'))) {
-        const task = await parseTask(path.join(completedDir, file));
-        tasks.push(task);
+    // Validate status if provided
+    if (options.status && !isValidStatus(options.status, statuses)) {
+      if (isJsonOutput()) {
+        throw new InvalidTaskStatusError(options.status, statuses);
       }
-    } catch {
-      // Directory might not exist
+      console.error(chalk.red(`Invalid status: ${options.status}`));
+      console.error(chalk.yellow(`Valid statuses: ${statuses.map(s => s.id).join(', ')}`));
+      process.exit(1);
     }
 
-    // Filter by status if specified
-    let filteredTasks = tasks;
-    if (options.status) {
-      filteredTasks = tasks.filter(t => t.status === options.status);
+    // Load every task so dependencies outside the filter can be checked
+    const allTasks = await repository.list();
+    let tasks = options.status ? allTasks.filter(t => t.status === options.status) : allTasks;
+    if (options.filter) {
+      tasks = filterTasks(tasks, options.filter, config);
     }
 
     // Sort by task number
-    filteredTasks.sort((a, b) => {
+    tasks.sort((a, b) => {
       const aNum = extractTaskNumber(a.path, config.projectPrefix);
       const bNum = extractTaskNumber(b.path, config.projectPrefix);
       return aNum - bNum;
     });
 
+    if (getOutputFormat() !== 'text') {
+      printTasks(tasks, allTasks, config);
+      return;
+    }
+
     // Display results
-    if (filteredTasks.length === 0) {
-      if (options.status) {
+    if (tasks.length === 0) {
+      if (options.filter) {
+        console.log(chalk.yellow(`No tasks match filter: ${options.filter}`));
+      } else if (options.status) {
         console.log(chalk.yellow(`No tasks found with status: ${options.status}`));
       } else {
         console.log(chalk.yellow('No tasks found'));
@@ -79,13 +79,18 @@ export async function listTasks(options: ListTasksOptions): Promise<void> {
     console.log(chalk.bold('\nTasks:'));
     console.log(chalk.gray('─'.repeat(60)));
 
-    for (const task of filteredTasks) {
+    for (const task of tasks) {
       const filename = path.basename(task.path);
-      const statusColor = getStatusColor(task.status);
+      const statusColor = getStatusColor(task.status, statuses);
+      const blocking = getBlockingDependencies(task, allTasks, config);
 
       console.log(`${chalk.bold(filename)}`);
       console.log(`  ${chalk.gray('Title:')} ${task.title}`);
-      console.log(`  ${chalk.gray('Status:')} ${statusColor(task.status)}`);
+      console.log(`  ${chalk.gray('Status:')} ${statusColor(task.status)}${blocking.length > 0 ? chalk.red(' (blocked)') : ''}`);
+
+      if (blocking.length > 0) {
+        console.log(`  ${chalk.gray('Blocked by:')} ${chalk.red(blocking.join(', '))}`);
+      }
 
       if (task.plan) {
         console.log(`  ${chalk.gray('Plan:')} ${chalk.cyan(task.plan)}`);
@@ -98,33 +103,64 @@ export async function listTasks(options: ListTasksOptions): Promise<void> {
       console.log(chalk.gray('─'.repeat(60)));
     }
 
-    console.log(`\nTotal: ${chalk.bold(filteredTasks.length)} task(s)`);
+    console.log(`\nTotal: ${chalk.bold(tasks.length)} task(s)`);
   } catch (error) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
     console.error(chalk.red('Failed to list tasks'));
-    console.error(error);
+    console.error(error instanceof SabinError ? chalk.red(error.message) : error);
     process.exit(1);
   }
 }
 
+/**
+ * Print tasks in one of the machine-readable formats
+ */
+function printTasks(tasks: Task[], allTasks: Task[], config: SabinConfig): void {
+  const blockedBy = (task: Task) => getBlockingDependencies(task, allTasks, config);
+
+  switch (getOutputFormat()) {
+    case 'json':
+      printJson({
+        tasks: tasks.map(task => ({ ...taskToJson(task), blockedBy: blockedBy(task) })),
+        total: tasks.length
+      });
+      break;
+    case 'ids':
+      tasks.forEach(task => console.log(task.id));
+      break;
+    case 'compact':
+      tasks.forEach(task => console.log(formatCompactLine(task)));
+      break;
+    case 'table':
+      formatTable(
+        ['ID', 'STATUS', 'WORKING DIR', 'TITLE'],
+        tasks.map(task => [
+          task.id,
+          blockedBy(task).length > 0 ? `${task.status} (blocked)` : task.status,
+          task.workingDir || '',
+          task.title
+        ])
+      ).forEach(line => console.log(line));
+      break;
+  }
+}
+
 function extractTaskNumber(filepath: string, prefix: string): number {
   const regex = new RegExp(`${prefix}-(\\d+)`);
   const match = path.basename(filepath).match(regex);
   return match ? parseInt(match[1], 10) : 0;
 }
 
-function getStatusColor(status: string): (text: string) => string {
-  switch (status) {
-    case 'open':
-      return chalk.yellow;
-    case 'ready':
-      return chalk.blue;
-    case 'in_progress':
-      return chalk.cyan;
-    case 'review':
-      return chalk.magenta;
-    case 'completed':
-      return chalk.green;
-    default:
-      return chalk.white;
-  }
-}
\ No newline at end of file
+function getStatusColor(status: string, statuses: StatusDefinition[]): (text: string) => string {
+  const color = statuses.find(s => s.id === status)?.color;
+  return isStatusColor(color) ? chalk[color] : chalk.white;
+}
+
+/**
+ * Whether a configured color is one of chalk's foreground colors, such as `cyan`
+ */
+function isStatusColor(color: string | undefined): color is StatusColor {
+  return (STATUS_COLORS as readonly (string | undefined)[]).includes(color);
+}
@@ -0,0 +1,49 @@
+import chalk from 'chalk';
+import { resolveSabinDir, migrateSabinDir } from '@sabin/core';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+
+export async function runMigrate(options: { dryRun?: boolean }): Promise<void> {
+  try {
+    const { sabinDir } = await resolveSabinDir();
+    const result = await migrateSabinDir(sabinDir, { dryRun: options.dryRun });
+
+    if (isJsonOutput()) {
+      printJson({ ...result, dryRun: !!options.dryRun });
+      return;
+    }
+
+    if (result.steps.length === 0 && result.skipped.length === 0) {
+      console.log(chalk.green(`✓ ${sabinDir} is already at schema version ${result.toVersion}`));
+      return;
+    }
+
+    const partial = result.skipped.length > 0;
+    if (options.dryRun) {
+      console.log(chalk.bold(partial
+        ? `Would partly migrate ${sabinDir}, leaving it at schema version ${result.fromVersion}:`
+        : `Would migrate ${sabinDir} from schema version ${result.fromVersion} to ${result.toVersion}:`));
+    } else if (partial) {
+      console.log(chalk.yellow(`Partly migrated ${sabinDir}; it stays at schema version ${result.fromVersion}`));
+    } else {
+      console.log(chalk.green(`✓ Migrated ${sabinDir} from schema version ${result.fromVersion} to ${result.toVersion}`));
+    }
+    for (const step of result.steps) {
+      console.log(`  ${step.description}`);
+    }
+
+    if (partial) {
+      console.log(chalk.yellow(`\n${result.skipped.length} file(s) ${options.dryRun ? 'would be' : 'were'} left in place:`));
+      for (const step of result.skipped) {
+        console.log(chalk.yellow(`  ${step.description}`));
+      }
+      console.log(chalk.yellow('Resolve them and run "sabin migrate" again to finish the migration.'));
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to migrate .sabin directory'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
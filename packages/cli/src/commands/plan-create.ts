@@ -0,0 +1,27 @@
+import path from 'path';
+import chalk from 'chalk';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function createPlan(taskId: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const { task, planPath } = await repository.createPlan(taskId);
+
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task), planPath });
+      return;
+    }
+
+    console.log(chalk.green(`Created plan for ${task.id}: ${path.basename(planPath)}`));
+    console.log(chalk.gray(`Path: ${planPath}`));
+    console.log(chalk.gray(`Linked as: ${task.plan}`));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to create plan'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
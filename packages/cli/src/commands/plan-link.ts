@@ -0,0 +1,35 @@
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function linkPlan(taskId: string, planPath: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+
+    // Prefer the path as typed from the current directory; otherwise the
+    // repository resolves it against the project root and .sabin
+    let plan = planPath;
+    try {
+      await fs.access(path.resolve(planPath));
+      plan = path.resolve(planPath);
+    } catch {
+      // Not relative to the current directory
+    }
+
+    const { task } = await repository.linkPlan(taskId, plan);
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task) });
+      return;
+    }
+    console.log(chalk.green(`Linked plan to ${task.id}: ${task.plan}`));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to link plan'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
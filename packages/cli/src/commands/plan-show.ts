@@ -0,0 +1,50 @@
+import fs from 'fs/promises';
+import chalk from 'chalk';
+import { parseChecklist, getChecklistProgress } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+import { renderMarkdown } from '../markdown';
+
+export async function showPlan(taskId: string, options: { raw?: boolean }): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const plan = await repository.getPlan(taskId);
+
+    if (!plan) {
+      const task = await repository.get(taskId);
+      if (isJsonOutput()) {
+        printJson({ task: taskToJson(task), planPath: null, content: null, done: 0, total: 0 });
+        return;
+      }
+      console.log(chalk.yellow(`${task.id} has no plan`));
+      console.log(chalk.gray(`Create one with: sabin plan create ${task.id}`));
+      return;
+    }
+
+    const content = await fs.readFile(plan.planPath, 'utf8');
+    if (options.raw && !isJsonOutput()) {
+      console.log(content);
+      return;
+    }
+
+    const { done, total } = getChecklistProgress(parseChecklist(content));
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(plan.task), planPath: plan.planPath, content, done, total });
+      return;
+    }
+    console.log(`${chalk.bold(plan.task.id)}  ${chalk.bold(plan.task.title)}`);
+    console.log(chalk.gray(`Plan: ${plan.task.plan}`));
+    if (total > 0) {
+      console.log(chalk.gray(`Progress: ${done}/${total} checklist items done`));
+    }
+    console.log(chalk.gray('─'.repeat(60)));
+    console.log(renderMarkdown(content.trim()));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to show plan'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,39 @@
+import chalk from 'chalk';
+import { createResearch } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+
+export async function addResearch(topic: string, options: { task: string[] }): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+
+    // Resolve bare numbers and prefixes, failing on unknown tasks
+    const taskIds: string[] = [];
+    for (const input of options.task) {
+      const task = await repository.get(input);
+      if (!taskIds.includes(task.id)) {
+        taskIds.push(task.id);
+      }
+    }
+
+    const note = await createResearch(repository.sabinDir, topic, taskIds);
+
+    if (isJsonOutput()) {
+      printJson(note);
+      return;
+    }
+
+    console.log(chalk.green(`Created research note: ${note.name}.md`));
+    console.log(chalk.gray(`Path: ${note.path}`));
+    if (taskIds.length > 0) {
+      console.log(chalk.gray(`Linked to: ${taskIds.join(', ')}`));
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to add research note'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,40 @@
+import chalk from 'chalk';
+import { listResearch, findResearchForTask } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+
+export async function listResearchNotes(options: { task?: string }): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const notes = options.task
+      ? await findResearchForTask(repository.sabinDir, (await repository.get(options.task)).id)
+      : await listResearch(repository.sabinDir);
+
+    if (isJsonOutput()) {
+      printJson({
+        notes: notes.map(note => ({ name: note.name, title: note.title, tasks: note.tasks, path: note.path })),
+        total: notes.length
+      });
+      return;
+    }
+    if (notes.length === 0) {
+      console.log(chalk.yellow('No research notes found'));
+      return;
+    }
+
+    for (const note of notes) {
+      let line = `${chalk.bold(note.name)} ${note.title}`;
+      if (note.tasks.length > 0) {
+        line += chalk.gray(` [${note.tasks.join(', ')}]`);
+      }
+      console.log(line);
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to list research notes'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
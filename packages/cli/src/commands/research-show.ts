@@ -0,0 +1,37 @@
+import fs from 'fs/promises';
+import chalk from 'chalk';
+import { getResearch } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+import { renderMarkdown } from '../markdown';
+
+export async function showResearch(name: string, options: { raw?: boolean }): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const note = await getResearch(repository.sabinDir, name);
+
+    if (isJsonOutput()) {
+      printJson(note);
+      return;
+    }
+    if (options.raw) {
+      console.log(await fs.readFile(note.path, 'utf8'));
+      return;
+    }
+
+    console.log(`${chalk.bold(note.name)}  ${chalk.bold(note.title)}`);
+    if (note.tasks.length > 0) {
+      console.log(chalk.gray(`Tasks: ${note.tasks.join(', ')}`));
+    }
+    console.log(chalk.gray(`Path: ${note.path}`));
+    console.log(chalk.gray('─'.repeat(60)));
+    console.log(renderMarkdown(note.content.trim()));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to show research note'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
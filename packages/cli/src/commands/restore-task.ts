@@ -0,0 +1,52 @@
+import chalk from 'chalk';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function restoreTask(taskId?: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+
+    // Without an ID, show what can be restored
+    if (!taskId) {
+      const removed = await repository.listRemoved();
+      if (isJsonOutput()) {
+        printJson({
+          removed: removed.map(({ bin, task, metadata }) => ({ bin, task: taskToJson(task), metadata })),
+          total: removed.length
+        });
+        return;
+      }
+      if (removed.length === 0) {
+        console.log(chalk.yellow('The trash and the archive are empty'));
+        return;
+      }
+
+      for (const { bin, task, metadata } of removed) {
+        let line = `${chalk.bold(task.id)} ${task.title} ${chalk.gray(`[${bin}]`)}`;
+        if (metadata) {
+          line += chalk.gray(` removed ${metadata.removedAt} from ${metadata.folder}/`);
+          if (metadata.actor) {
+            line += chalk.gray(` by ${metadata.actor}`);
+          }
+        }
+        console.log(line);
+      }
+      return;
+    }
+
+    const task = await repository.restore(taskId);
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task) });
+      return;
+    }
+    console.log(chalk.green(`Restored ${task.id}`));
+    console.log(chalk.gray(`Path: ${task.path}`));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to restore task'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
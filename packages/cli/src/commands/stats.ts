@@ -0,0 +1,136 @@
+import chalk from 'chalk';
+import { SabinError, FlowStats, DurationSummary } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, exitWithJsonError, formatTable } from '../output';
+
+const CSV_HEADER = ['metric', 'status', 'week', 'working_dir', 'count', 'average_hours', 'median_hours'];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function showStats(options: { since?: string; until?: string; csv?: boolean }): Promise<void> {
+  try {
+    if (options.csv && isJsonOutput()) {
+      throw new SabinError('--csv cannot be combined with --json', 'INVALID_FORMAT');
+    }
+    const since = options.since ? parseDate(options.since, '--since') : undefined;
+    // A bare date means the whole day
+    const until = options.until
+      ? parseDate(DATE_ONLY.test(options.until) ? `${options.until}T23:59:59.999Z` : options.until, '--until')
+      : undefined;
+    if (since && until && since > until) {
+      throw new SabinError('--since must be before --until', 'INVALID_PERIOD');
+    }
+
+    const repository = await openTaskRepository();
+    const stats = await repository.getStats({ since, until });
+
+    if (options.csv) {
+      console.log(toCsv(stats));
+      return;
+    }
+    if (isJsonOutput()) {
+      printJson(stats);
+      return;
+    }
+    printStats(stats);
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to compute stats'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function parseDate(value: string, option: string): Date {
+  const date = new Date(DATE_ONLY.test(value) ? `${value}T00:00:00.000Z` : value);
+  if (isNaN(date.getTime())) {
+    throw new SabinError(`Invalid date for ${option}: ${value}. Use YYYY-MM-DD or an ISO 8601 time`, 'INVALID_DATE');
+  }
+  return date;
+}
+
+function printStats(stats: FlowStats): void {
+  const period = [stats.since?.slice(0, 10) || 'start', stats.until?.slice(0, 10) || 'now'].join(' – ');
+  console.log(`${chalk.bold('Flow stats')}  ${chalk.gray(period)}`);
+
+  console.log(chalk.bold('\nLead time'));
+  console.log(`  ${formatSummary(stats.leadTime, 'task(s)')}`);
+
+  console.log(chalk.bold('\nTime in status'));
+  for (const line of formatTable(
+    ['Status', 'Visits', 'Average', 'Median'],
+    stats.cycleTime.map(s => [s.name, String(s.count), formatHours(s.averageHours), formatHours(s.medianHours)])
+  )) {
+    console.log(`  ${line}`);
+  }
+
+  console.log(chalk.bold('\nThroughput per week'));
+  if (stats.throughput.length === 0) {
+    console.log(chalk.gray('  No completed tasks'));
+  }
+  for (const week of stats.throughput) {
+    console.log(`  ${week.week}  ${chalk.green('█'.repeat(week.completed))} ${week.completed}`);
+  }
+
+  console.log(chalk.bold('\nWork in progress'));
+  if (stats.wip.length === 0) {
+    console.log(chalk.gray('  Nothing in progress'));
+  }
+  for (const group of stats.wip) {
+    const statuses = Object.entries(group.byStatus).map(([status, count]) => `${status} ${count}`).join(', ');
+    console.log(`  ${group.workingDir || chalk.gray('(unclaimed)')}  ${chalk.bold(String(group.count))} ${chalk.gray(`(${statuses})`)}`);
+  }
+}
+
+function formatSummary(summary: DurationSummary, unit: string): string {
+  if (summary.count === 0) {
+    return chalk.gray(`0 ${unit}`);
+  }
+  return `${summary.count} ${unit}  average ${formatHours(summary.averageHours)}  median ${formatHours(summary.medianHours)}`;
+}
+
+/**
+ * Format hours as e.g. `2d 4h`, `5h 30m` or `45m`
+ */
+function formatHours(hours: number | null): string {
+  if (hours === null) {
+    return '-';
+  }
+
+  if (hours >= 24) {
+    const rounded = Math.round(hours);
+    return `${Math.floor(rounded / 24)}d ${rounded % 24}h`;
+  }
+
+  const minutes = Math.round(hours * 60);
+  if (minutes >= 60) {
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+  return `${minutes}m`;
+}
+
+/**
+ * Flatten the stats into one CSV table, one row per measurement
+ */
+function toCsv(stats: FlowStats): string {
+  const duration = (summary: DurationSummary) =>
+    [String(summary.count), String(summary.averageHours ?? ''), String(summary.medianHours ?? '')];
+
+  const rows = [
+    CSV_HEADER,
+    ['lead_time', '', '', '', ...duration(stats.leadTime)],
+    ...stats.cycleTime.map(s => ['cycle_time', s.status, '', '', ...duration(s)]),
+    ...stats.throughput.map(w => ['throughput', '', w.week, '', String(w.completed), '', '']),
+    ...stats.wip.flatMap(group => Object.entries(group.byStatus).map(([status, count]) =>
+      ['wip', status, '', group.workingDir || '', String(count), '', '']
+    ))
+  ];
+
+  return rows.map(row => row.map(escapeCsv).join(',')).join('\n');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,41 @@
+import chalk from 'chalk';
+import { SabinError, getChecklistProgress } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function checkTaskItem(taskId: string, index: string): Promise<void> {
+  await setTaskItem(taskId, index, true);
+}
+
+export async function uncheckTaskItem(taskId: string, index: string): Promise<void> {
+  await setTaskItem(taskId, index, false);
+}
+
+async function setTaskItem(taskId: string, index: string, checked: boolean): Promise<void> {
+  try {
+    // Items are numbered from 1, as `sabin task progress` lists them
+    const number = Number(index);
+    if (!Number.isInteger(number) || number < 1) {
+      throw new SabinError(`Item number must be a positive whole number: ${index}`, 'INVALID_CHECKLIST_INDEX');
+    }
+
+    const repository = await openTaskRepository();
+    const item = await repository.setChecklistItem(taskId, number - 1, checked);
+    const { task, items } = await repository.getChecklist(taskId);
+    const { done, total } = getChecklistProgress(items);
+
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task), item, done, total });
+      return;
+    }
+    console.log(chalk.green(`${checked ? 'Checked' : 'Unchecked'} item ${number} of ${task.id}: ${item.text}`));
+    console.log(chalk.gray(`Progress: ${done}/${total}`));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red(`Failed to ${checked ? 'check' : 'uncheck'} item`));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,75 @@
+import chalk from 'chalk';
+import { DependencyNode, SabinConfig, buildDependencyTree, isCompletedStatus } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function showDependencies(taskId: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const config = await repository.getConfig();
+    const task = await repository.get(taskId);
+    const tasks = await repository.list();
+    const upstream = buildDependencyTree(task.id, tasks, 'upstream');
+    const downstream = buildDependencyTree(task.id, tasks, 'downstream');
+
+    if (isJsonOutput()) {
+      printJson({
+        task: taskToJson(task),
+        dependsOn: upstream.children.map(nodeToJson),
+        requiredBy: downstream.children.map(nodeToJson)
+      });
+      return;
+    }
+
+    console.log(`${chalk.bold(task.id)} ${task.title} ${chalk.gray(`[${task.status}]`)}`);
+
+    console.log(chalk.bold('\nDepends on:'));
+    printChildren(upstream, '', config);
+
+    console.log(chalk.bold('\nRequired by:'));
+    printChildren(downstream, '', config);
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to show dependencies'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function printChildren(node: DependencyNode, indent: string, config: SabinConfig): void {
+  if (!indent && node.children.length === 0) {
+    console.log(chalk.gray('  (none)'));
+    return;
+  }
+
+  node.children.forEach((child, index) => {
+    const last = index === node.children.length - 1;
+    console.log(`${indent}${last ? '└── ' : '├── '}${formatNode(child, config)}`);
+    printChildren(child, `${indent}${last ? '    ' : '│   '}`, config);
+  });
+}
+
+function formatNode(node: DependencyNode, config: SabinConfig): string {
+  if (!node.task) {
+    return `${node.id} ${chalk.red('(missing)')}`;
+  }
+  if (node.cycle) {
+    return `${node.id} ${chalk.red('(cycle)')}`;
+  }
+
+  const status = isCompletedStatus(node.task.status, config)
+    ? chalk.green(node.task.status)
+    : chalk.yellow(node.task.status);
+  return `${node.id} ${node.task.title} ${chalk.gray('[')}${status}${chalk.gray(']')}`;
+}
+
+function nodeToJson(node: DependencyNode): Record<string, unknown> {
+  return {
+    id: node.id,
+    task: node.task ? taskToJson(node.task) : null,
+    cycle: node.cycle || false,
+    children: node.children.map(nodeToJson)
+  };
+}
@@ -0,0 +1,55 @@
+import chalk from 'chalk';
+import { HistoryAction } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+const ACTION_LABELS: Record<HistoryAction, string> = {
+  archive: 'archived',
+  delete: 'moved to the trash',
+  restore: 'restored'
+};
+
+export async function showTaskHistory(taskId: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const task = await repository.get(taskId);
+    const history = await repository.getHistory(task.id);
+
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task), history });
+      return;
+    }
+
+    console.log(`${chalk.bold(task.id)} ${task.title}`);
+
+    if (history.length === 0) {
+      console.log(chalk.yellow('No status changes recorded'));
+      return;
+    }
+
+    console.log(chalk.gray('─'.repeat(60)));
+    for (const entry of history) {
+      const change = entry.action
+        ? `${ACTION_LABELS[entry.action]} ${chalk.gray(`(${entry.to})`)}`
+        : entry.from
+          ? `${entry.from} → ${chalk.bold(entry.to)}`
+          : `created as ${chalk.bold(entry.to)}`;
+      let line = `${chalk.gray(entry.timestamp)}  ${change}`;
+
+      if (entry.actor) {
+        line += `  ${chalk.cyan(entry.actor)}`;
+      }
+      if (entry.workingDir) {
+        line += chalk.gray(` (${entry.workingDir})`);
+      }
+      console.log(line);
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to show task history'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,36 @@
+import chalk from 'chalk';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, printTaskLine, taskToJson, exitWithJsonError } from '../output';
+
+export async function nextTask(options: { start?: boolean }): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const task = await repository.next({ start: options.start });
+
+    if (isJsonOutput()) {
+      printJson({ task: task && taskToJson(task), started: !!(task && options.start) });
+      return;
+    }
+
+    // Nothing on stdout, so agent loops reading the path see no work
+    if (!task) {
+      console.error(chalk.yellow('No ready task with completed dependencies is available'));
+      process.exit(1);
+    }
+
+    if (printTaskLine(task)) {
+      return;
+    }
+    console.log(task.path);
+  } catch (error: any) {
+    if (error instanceof Error && error.message === 'Process exit') {
+      throw error;
+    }
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to pick the next task'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
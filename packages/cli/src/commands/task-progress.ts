@@ -0,0 +1,51 @@
+import chalk from 'chalk';
+import { getChecklistProgress } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+const BAR_WIDTH = 20;
+
+export async function showTaskProgress(taskId: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const { task, items } = await repository.getChecklist(taskId);
+
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task), ...getChecklistProgress(items), items });
+      return;
+    }
+    console.log(`${chalk.bold(task.id)} ${task.title}`);
+
+    if (items.length === 0) {
+      console.log(chalk.yellow('No checklist items in the task or its plan'));
+      return;
+    }
+
+    const { done, total } = getChecklistProgress(items);
+    console.log(`${formatProgressBar(done, total)} ${done}/${total} (${Math.round(done / total * 100)}%)`);
+
+    let source: string | undefined;
+    for (const item of items) {
+      if (item.source !== source) {
+        source = item.source;
+        console.log(chalk.gray(source === 'plan' ? `\nPlan: ${task.plan}` : '\nTask'));
+      }
+
+      const box = item.checked ? chalk.green('☑') : '☐';
+      const text = item.checked ? chalk.gray(item.text) : item.text;
+      console.log(`${chalk.gray(`${String(item.index + 1).padStart(3)}.`)} ${box} ${text}`);
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to show task progress'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function formatProgressBar(done: number, total: number): string {
+  const filled = Math.round(done / total * BAR_WIDTH);
+  return chalk.green('█'.repeat(filled)) + chalk.gray('░'.repeat(BAR_WIDTH - filled));
+}
@@ -0,0 +1,34 @@
+import chalk from 'chalk';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, printTaskLine, taskToJson, exitWithJsonError } from '../output';
+
+export async function renameTask(taskId: string, newId: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const { task, previousId, updated } = await repository.rename(taskId, newId);
+
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task), previousId, updated });
+      return;
+    }
+    if (printTaskLine(task)) {
+      return;
+    }
+
+    console.log(chalk.green(`Renamed ${previousId} to ${task.id}`));
+    console.log(chalk.gray(`Path: ${task.path}`));
+    if (updated.length > 0) {
+      console.log(`Updated references in ${updated.length} file(s):`);
+      for (const file of updated) {
+        console.log(chalk.gray(`  ${file}`));
+      }
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to rename task'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
@@ -0,0 +1,63 @@
+import chalk from 'chalk';
+import { SearchMatch, searchTasks, filterTasks } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+/** Matches printed per task before the rest are summarized */
+const MAX_MATCHES_SHOWN = 3;
+
+export async function runSearch(text: string, options: { filter?: string }): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const config = await repository.getConfig();
+
+    let tasks = await repository.list();
+    if (options.filter) {
+      tasks = filterTasks(tasks, options.filter, config);
+    }
+
+    const results = await searchTasks(tasks, text, { sabinDir: repository.sabinDir });
+    if (isJsonOutput()) {
+      printJson({
+        results: results.map(({ task, matches }) => ({ task: taskToJson(task), matches })),
+        total: results.length
+      });
+      return;
+    }
+    if (results.length === 0) {
+      console.log(chalk.yellow(`No tasks match "${text}"`));
+      return;
+    }
+
+    for (const { task, matches } of results) {
+      console.log(`${chalk.bold(task.id)}  ${task.title} ${chalk.gray(`(${task.status})`)}`);
+
+      for (const match of matches.slice(0, MAX_MATCHES_SHOWN)) {
+        console.log(`  ${chalk.gray(`${match.source}:${match.line}`.padEnd(12))}${highlight(match)}`);
+      }
+      if (matches.length > MAX_MATCHES_SHOWN) {
+        console.log(chalk.gray(`  … ${matches.length - MAX_MATCHES_SHOWN} more match(es)`));
+      }
+    }
+
+    console.log(`\nFound in ${chalk.bold(results.length)} task(s)`);
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to search tasks'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function highlight(match: SearchMatch): string {
+  let result = '';
+  let position = 0;
+
+  for (const [start, end] of match.highlights) {
+    result += match.snippet.slice(position, start) + chalk.bold(chalk.yellow(match.snippet.slice(start, end)));
+    position = end;
+  }
+  return result + match.snippet.slice(position);
+}
@@ -0,0 +1,91 @@
+import fs from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import { Task, resolvePlanPath, findResearchForTask } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { renderMarkdown } from '../markdown';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function showTask(taskId: string, options: { withPlan?: boolean; withResearch?: boolean }): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const task = await repository.get(taskId);
+
+    if (isJsonOutput()) {
+      const result: Record<string, unknown> = { task: { ...taskToJson(task), content: task.content } };
+      if (options.withPlan) {
+        const planPath = task.plan ? await resolvePlanPath(repository.sabinDir, task.plan) : null;
+        result.plan = planPath ? { path: planPath, content: await fs.readFile(planPath, 'utf8') } : null;
+      }
+      if (options.withResearch) {
+        result.research = await findResearchForTask(repository.sabinDir, task.id);
+      }
+      printJson(result);
+      return;
+    }
+
+    printHeader(task);
+    console.log(renderMarkdown(task.content.trim()));
+
+    if (options.withPlan) {
+      const planPath = task.plan ? await resolvePlanPath(repository.sabinDir, task.plan) : null;
+
+      if (!task.plan) {
+        console.log(chalk.yellow(`\nNo plan linked to ${task.id}`));
+      } else if (!planPath) {
+        console.log(chalk.yellow(`\nPlan file not found: ${task.plan}`));
+      } else {
+        printSection(`Plan: ${task.plan}`);
+        console.log(renderMarkdown((await fs.readFile(planPath, 'utf8')).trim()));
+      }
+    }
+
+    if (options.withResearch) {
+      const notes = await findResearchForTask(repository.sabinDir, task.id);
+
+      if (notes.length === 0) {
+        console.log(chalk.yellow(`\nNo research notes reference ${task.id}`));
+      }
+      for (const note of notes) {
+        printSection(`Research: ${note.title} (${path.relative(process.cwd(), note.path)})`);
+        console.log(renderMarkdown(note.content.trim()));
+      }
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to show task'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function printHeader(task: Task): void {
+  const fields: [string, string | undefined][] = [
+    ['Status', task.status],
+    ['Plan', task.plan],
+    ['Working dir', task.workingDir],
+    ['Parent', task.parent],
+    ['Depends on', task.dependsOn?.join(', ')],
+    ...Object.entries(task.extra || {}).map(([key, value]): [string, string] => [
+      key,
+      typeof value === 'string' ? value : JSON.stringify(value)
+    ]),
+    ['Path', task.path]
+  ];
+  const width = Math.max(...fields.map(([label]) => label.length)) + 2;
+
+  console.log(`${chalk.bold(task.id)}  ${chalk.bold(task.title)}`);
+  console.log(chalk.gray('─'.repeat(60)));
+  for (const [label, value] of fields) {
+    if (value) {
+      console.log(`${chalk.gray(`${label}:`.padEnd(width))}${value}`);
+    }
+  }
+  console.log(chalk.gray('─'.repeat(60)));
+}
+
+function printSection(title: string): void {
+  console.log(`\n${chalk.bold(chalk.magenta(`═══ ${title} ═══`))}`);
+}
@@ -0,0 +1,89 @@
+import chalk from 'chalk';
+import { SabinConfig, TaskTreeNode, buildTaskTree, isCompletedStatus } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function showTaskTree(taskId?: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const config = await repository.getConfig();
+    const tasks = await repository.list();
+    tasks.sort((a, b) => a.id.localeCompare(b.id, undefined, { numeric: true }));
+
+    let roots = buildTaskTree(tasks, config);
+
+    if (taskId) {
+      const task = await repository.get(taskId);
+      const node = findNode(roots, task.id);
+      roots = node ? [node] : [];
+    } else {
+      // Hide standalone tasks so the output focuses on the hierarchy
+      roots = roots.filter(node => node.children.length > 0);
+    }
+
+    if (isJsonOutput()) {
+      printJson({ roots: roots.map(nodeToJson), total: roots.length });
+      return;
+    }
+    if (roots.length === 0) {
+      console.log(chalk.yellow('No parent tasks found'));
+      return;
+    }
+
+    roots.forEach(root => {
+      console.log(formatNode(root, config));
+      printChildren(root, '', config);
+    });
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to show task tree'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
+
+function findNode(nodes: TaskTreeNode[], taskId: string): TaskTreeNode | undefined {
+  for (const node of nodes) {
+    if (node.task.id === taskId) {
+      return node;
+    }
+    const match = findNode(node.children, taskId);
+    if (match) {
+      return match;
+    }
+  }
+  return undefined;
+}
+
+function printChildren(node: TaskTreeNode, indent: string, config: SabinConfig): void {
+  node.children.forEach((child, index) => {
+    const last = index === node.children.length - 1;
+    console.log(`${indent}${last ? '└── ' : '├── '}${formatNode(child, config)}`);
+    printChildren(child, `${indent}${last ? '    ' : '│   '}`, config);
+  });
+}
+
+function formatNode(node: TaskTreeNode, config: SabinConfig): string {
+  const { task } = node;
+  const status = isCompletedStatus(task.status, config)
+    ? chalk.green(task.status)
+    : chalk.yellow(task.status);
+  let line = `${chalk.bold(task.id)} ${task.title} ${chalk.gray('[')}${status}${chalk.gray(']')}`;
+
+  if (node.total > 0) {
+    const percent = Math.round((node.completed / node.total) * 100);
+    line += chalk.cyan(` ${node.completed}/${node.total} done (${percent}%)`);
+  }
+  return line;
+}
+
+function nodeToJson(node: TaskTreeNode): Record<string, unknown> {
+  return {
+    task: taskToJson(node.task),
+    completed: node.completed,
+    total: node.total,
+    children: node.children.map(nodeToJson)
+  };
+}
@@ -0,0 +1,24 @@
+import chalk from 'chalk';
+import { addTodo } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+
+export async function addTodoItem(text: string): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const item = await addTodo(repository.sabinDir, text);
+
+    if (isJsonOutput()) {
+      printJson(item);
+      return;
+    }
+    console.log(chalk.green(`Added TODO ${item.number}: ${item.text}`));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to add TODO item'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
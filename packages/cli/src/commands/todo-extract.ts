@@ -0,0 +1,34 @@
+import path from 'path';
+import chalk from 'chalk';
+import { TodoItemNotFoundError } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, taskToJson, exitWithJsonError } from '../output';
+
+export async function extractTodoItem(index: string): Promise<void> {
+  try {
+    // Items are numbered from 1, as `sabin todo list` shows them
+    const number = Number(index);
+    if (!Number.isInteger(number) || number < 1) {
+      throw new TodoItemNotFoundError(index);
+    }
+
+    const repository = await openTaskRepository();
+    const task = await repository.extractTodo(number);
+
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task), number });
+      return;
+    }
+    console.log(chalk.green(`Created task: ${path.basename(task.path)}`));
+    console.log(chalk.gray(`Title: ${task.title}`));
+    console.log(chalk.gray(`Path: ${task.path}`));
+    console.log(chalk.gray(`Removed item ${number} from TODO.md`));
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to extract TODO item'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
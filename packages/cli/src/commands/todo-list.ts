@@ -0,0 +1,35 @@
+import chalk from 'chalk';
+import { readTodo } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { isJsonOutput, printJson, exitWithJsonError } from '../output';
+
+export async function listTodoItems(): Promise<void> {
+  try {
+    const repository = await openTaskRepository();
+    const items = await readTodo(repository.sabinDir);
+
+    if (isJsonOutput()) {
+      printJson({ items, total: items.length });
+      return;
+    }
+    if (items.length === 0) {
+      console.log(chalk.yellow('TODO.md has no items'));
+      return;
+    }
+
+    const width = String(items.length).length;
+    for (const item of items) {
+      console.log(`${chalk.gray(`${String(item.number).padStart(width)}.`)} ${item.text}`);
+      for (const child of item.children) {
+        console.log(chalk.gray(`${' '.repeat(width + 2)}${child}`));
+      }
+    }
+  } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
+    console.error(chalk.red('Failed to list TODO items'));
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+}
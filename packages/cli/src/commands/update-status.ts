@@ -1,115 +1,52 @@
-import fs from 'fs/promises';
-import path from 'path';
 import chalk from 'chalk';
 import ora from 'ora';
-import {
-  parseTask,
-  writeTask,
-  resolveSabinDir,
-  getWorkingDirName
-} from '@sabin/core';
+import { InvalidTransitionError } from '@sabin/core';
+import { openTaskRepository } from '../repository';
+import { getOutputFormat, isJsonOutput, printJson, printTaskLine, taskToJson, exitWithJsonError } from '../output';
 
-type TaskStatus = 'open' | 'ready' | 'in_progress' | 'review' | 'completed';
+interface UpdateStatusOptions {
+  force?: boolean;
+}
 
-export async function updateStatus(taskId: string, newStatus: string): Promise<void> {
-  const spinner = ora(`Updating task ${taskId} status to ${newStatus}...`).start();
+export async function updateStatus(taskId: string, newStatus: string, options: UpdateStatusOptions = {}): Promise<void> {
+  const spinner = ora({
+    text: `Updating task ${taskId} status to ${newStatus}...`,
+    isSilent: getOutputFormat() !== 'text'
+  }).start();
 
   try {
-    // Validate status
-    const validStatuses: TaskStatus[] = ['open', 'ready', 'in_progress', 'review', 'completed'];
-    if (!validStatuses.includes(newStatus as TaskStatus)) {
-      throw new Error(`Invalid status: ${newStatus}. Must be one of: ${validStatuses.join(', ')}`);
-    }
-
     // Resolve .sabin directory
-    const { sabinDir, isLinked, projectRoot } = await resolveSabinDir();
-    const tasksDir = path.join(sabinDir, 'tasks');
-
-    // Find task file
-    let taskPath: string | null = null;
-    let currentDir: string = '';
-
-    // Check in open directory first
-    const openDir = path.join(tasksDir, 'open');
-    try {
-      const openFiles = await fs.readdir(openDir);
-      const taskFile = openFiles.find(f =>
-        f.includes(taskId) || f === `${taskId}.md`
-      );
-      if (taskFile) {
-        taskPath = path.join(openDir, taskFile);
-        currentDir = 'open';
-      }
-    } catch {
-      // Directory might not exist
-    }
+    const repository = await openTaskRepository();
 
-    // Check in completed directory if not found
-    if (!taskPath) {
-      const completedDir = path.join(tasksDir, 'completed');
-      try {
-        const completedFiles = await fs.readdir(completedDir);
-        const taskFile = completedFiles.find(f =>
-          f.includes(taskId) || f === `${taskId}.md`
-        );
-        if (taskFile) {
-          taskPath = path.join(completedDir, taskFile);
-          currentDir = 'completed';
-        }
-      } catch {
-        // Directory might not exist
-      }
-    }
+    // Update status, moving the file to the folder the new status maps to.
+    // The ID may be a bare number or unique prefix; see resolveTaskId.
+    const { task, previousStatus, from, to } = await repository.move(taskId, newStatus, { force: options.force });
 
-    if (!taskPath) {
-      throw new Error(`Task ${taskId} not found`);
+    if (isJsonOutput()) {
+      printJson({ task: taskToJson(task), previousStatus, from, to });
+      return;
     }
-
-    // Parse task
-    const task = await parseTask(taskPath);
-    task.status = newStatus as TaskStatus;
-
-    // Update working directory when moving to in_progress
-    if (newStatus === 'in_progress' && isLinked) {
-      task.workingDir = getWorkingDirName(sabinDir, projectRoot);
+    if (printTaskLine(task)) {
+      return;
     }
 
-    // Determine if we need to move the file
-    const shouldBeInCompleted = newStatus === 'completed';
-    const isInCompleted = currentDir === 'completed';
-
-    if (shouldBeInCompleted !== isInCompleted) {
-      // Move file
-      const filename = path.basename(taskPath);
-      const newDir = shouldBeInCompleted ?
-        path.join(tasksDir, 'completed') :
-        path.join(tasksDir, 'open');
-
-      await fs.mkdir(newDir, { recursive: true });
-
-      const newPath = path.join(newDir, filename);
-
-      // Update task with new path
-      task.path = newPath;
-      await writeTask(task);
-
-      // Delete old file
-      await fs.unlink(taskPath);
-
-      spinner.succeed(chalk.green(`Updated task ${taskId} status to ${newStatus}`));
-      console.log(chalk.gray(`Moved from ${currentDir} to ${shouldBeInCompleted ? 'completed' : 'open'}`));
-    } else {
-      // Just update status in place
-      await writeTask(task);
-      spinner.succeed(chalk.green(`Updated task ${taskId} status to ${newStatus}`));
+    spinner.succeed(chalk.green(`Updated task ${task.id} status to ${newStatus}`));
+    if (from !== to) {
+      console.log(chalk.gray(`Moved from ${from} to ${to}`));
     }
 
     if (task.workingDir) {
       console.log(chalk.gray(`Working directory: ${task.workingDir}`));
     }
   } catch (error: any) {
+    if (isJsonOutput()) {
+      exitWithJsonError(error);
+    }
     spinner.fail(chalk.red(`Failed to update task status`));
     console.error(chalk.red(error.message));
+    if (error instanceof InvalidTransitionError) {
+      console.error(chalk.yellow('Use --force to override the workflow rules.'));
+    }
     process.exit(1);
   }
-}
\ No newline at end of file
+}
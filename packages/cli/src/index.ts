@@ -4,16 +4,92 @@ import chalk from 'chalk';
 import { createTask } from './commands/create-task';
 import { updateStatus } from './commands/update-status';
 import { listTasks } from './commands/list-tasks';
+import { showDependencies } from './commands/task-deps';
+import { showTaskTree } from './commands/task-tree';
+import { showTaskHistory } from './commands/task-history';
+import { showTask } from './commands/task-show';
+import { editTask } from './commands/edit-task';
+import { renameTask } from './commands/task-rename';
+import { archiveTask } from './commands/archive-task';
+import { deleteTask } from './commands/delete-task';
+import { restoreTask } from './commands/restore-task';
+import { runSearch } from './commands/task-search';
+import { showTaskProgress } from './commands/task-progress';
+import { nextTask } from './commands/task-next';
+import { checkTaskItem, uncheckTaskItem } from './commands/task-check';
+import { createPlan } from './commands/plan-create';
+import { showPlan } from './commands/plan-show';
+import { linkPlan } from './commands/plan-link';
+import { addResearch } from './commands/research-add';
+import { listResearchNotes } from './commands/research-list';
+import { showResearch } from './commands/research-show';
+import { addTodoItem } from './commands/todo-add';
+import { listTodoItems } from './commands/todo-list';
+import { extractTodoItem } from './commands/todo-extract';
+import {
+  setOutputFormat,
+  exitWithJsonError,
+  OutputFormat,
+  OUTPUT_FORMATS,
+  TASK_LINE_FORMATS,
+  DEFAULT_FORMATS
+} from './output';
 import { initProject } from './commands/init';
 import { linkToSharedSabin } from './commands/link';
 import { installPrompts } from './commands/install-prompts';
+import { runDoctor } from './commands/doctor';
+import { runMigrate } from './commands/migrate';
+import { runBoard } from './commands/board';
+import { showStats } from './commands/stats';
+import { listConfigValues } from './commands/config-list';
+import { showConfigValue } from './commands/config-get';
+import { setConfigOption, unsetConfigOption } from './commands/config-set';
 
 const program = new Command();
 
+// Collect repeated options into a list
+const collect = (value: string, previous: string[]): string[] => [...previous, value];
+
 program
   .name('sabin')
   .description('Workflow management CLI for agentic coding')
-  .version('0.1.0');
+  .version('0.1.0')
+  .option('--json', 'Print results as JSON and errors as {code, message}')
+  .option('--format <format>', `Output format: ${OUTPUT_FORMATS.join(', ')}`, 'text')
+  .hook('preAction', (_, actionCommand) => {
+    const name = getCommandName(actionCommand);
+    try {
+      setOutputFormat(program.opts(), { name, formats: COMMAND_FORMATS[name] || DEFAULT_FORMATS });
+    } catch (error: any) {
+      if (program.opts().json) {
+        exitWithJsonError(error);
+      }
+      console.error(chalk.red(error.message));
+      process.exit(1);
+    }
+  });
+
+// Output formats of commands that support more or fewer than text and JSON
+const COMMAND_FORMATS: Record<string, OutputFormat[]> = {
+  'init': TASK_LINE_FORMATS,
+  'task create': TASK_LINE_FORMATS,
+  'task update': TASK_LINE_FORMATS,
+  'task list': TASK_LINE_FORMATS,
+  'task next': TASK_LINE_FORMATS,
+  'task rename': TASK_LINE_FORMATS,
+  'board': ['text']
+};
+
+/**
+ * The name of a subcommand as typed, e.g. `task list`
+ */
+function getCommandName(command: Command): string {
+  const names: string[] = [];
+  for (let current: Command | null = command; current?.parent; current = current.parent) {
+    names.unshift(current.name());
+  }
+  return names.join(' ');
+}
 
 program
   .command('init')
@@ -27,6 +103,31 @@ program
   .argument('<path>', 'Path to shared .sabin directory')
   .action(linkToSharedSabin);
 
+program
+  .command('doctor')
+  .description('Check the .sabin directory for problems')
+  .option('--fix', 'Move misplaced files, renumber duplicate IDs and normalize frontmatter')
+  .action(runDoctor);
+
+program
+  .command('migrate')
+  .description('Upgrade a .sabin directory from an older layout, such as tickets/open and tickets/resolved')
+  .option('--dry-run', 'Show what would change without changing anything')
+  .action(runMigrate);
+
+program
+  .command('board')
+  .description('Open a kanban board in the terminal, refreshed live as task files change')
+  .action(runBoard);
+
+program
+  .command('stats')
+  .description('Show lead time, time in status, weekly throughput and work in progress')
+  .option('--since <date>', 'Only count work finished on or after this date (YYYY-MM-DD or ISO 8601)')
+  .option('--until <date>', 'Only count work finished on or before this date')
+  .option('--csv', 'Print the stats as CSV')
+  .action(showStats);
+
 const task = program
   .command('task')
   .description('Manage tasks');
@@ -37,19 +138,184 @@ task
   .option('-t, --title <title>', 'Task title')
   .option('-c, --content <content>', 'Task content')
   .option('-n, --number <number>', 'Custom task ID (e.g., JIRA-12345, NTVARCH-23252, or numeric)')
+  .option('-d, --depends-on <ids>', 'Comma-separated IDs of tasks this task depends on')
+  .option('-p, --parent <id>', 'ID of the parent task')
   .action(createTask);
 
+task
+  .command('show <id>')
+  .description('Show a task with its frontmatter and rendered content')
+  .option('--with-plan', 'Include the linked plan file')
+  .option('--with-research', 'Include research notes that reference the task')
+  .action(showTask);
+
+task
+  .command('edit <id>')
+  .description('Edit task fields, or open the task in $EDITOR when no fields are given')
+  .option('--set <field=value>', 'Set a frontmatter field (repeatable)', collect, [])
+  .option('--unset <field>', 'Remove a frontmatter field (repeatable)', collect, [])
+  .action(editTask);
+
+task
+  .command('rename <id> <newId>')
+  .description('Change a task ID, rewriting references to it in other tasks, plans and research notes')
+  .action(renameTask);
+
 task
   .command('update <id> <status>')
   .description('Update task status')
+  .option('-f, --force', 'Skip configured transition rules and guards')
   .action(updateStatus);
 
 task
   .command('list')
   .description('List all tasks')
-  .option('-s, --status <status>', 'Filter by status (open/ready/in_progress/review/completed)')
+  .option('-s, --status <status>', 'Filter by status (as configured in config.json, default: open/ready/in_progress/review/completed)')
+  .option('-f, --filter <expression>', 'Filter expression, e.g. "status:ready,in_progress workingDir:api title~auth -status:completed"')
   .action(listTasks);
 
+task
+  .command('search <text>')
+  .description('Search task titles, bodies and linked plans')
+  .option('-f, --filter <expression>', 'Only search tasks matching a filter expression')
+  .action(runSearch);
+
+task
+  .command('next')
+  .description('Print the path of the most urgent ready task whose dependencies are done')
+  .option('--start', 'Move the task to in_progress (or the configured inProgressStatus) and claim it for this working directory')
+  .action(nextTask);
+
+task
+  .command('deps <id>')
+  .description('Show the tasks a task depends on and the tasks that depend on it')
+  .action(showDependencies);
+
+task
+  .command('tree [id]')
+  .description('Show the parent/child task hierarchy with completion roll-ups')
+  .action(showTaskTree);
+
+task
+  .command('history <id>')
+  .description('Show the status changes recorded for a task')
+  .action(showTaskHistory);
+
+task
+  .command('progress <id>')
+  .description('Show the checklist items of a task and its plan with overall progress')
+  .action(showTaskProgress);
+
+task
+  .command('check <id> <index>')
+  .description('Check a checklist item, numbered as in `sabin task progress`')
+  .action(checkTaskItem);
+
+task
+  .command('uncheck <id> <index>')
+  .description('Uncheck a checklist item, numbered as in `sabin task progress`')
+  .action(uncheckTaskItem);
+
+task
+  .command('archive <id>')
+  .description('Move a task to .sabin/archive, taking it off the board')
+  .action(archiveTask);
+
+task
+  .command('delete <id>')
+  .description('Move a task to .sabin/trash, from where it can be restored')
+  .action(deleteTask);
+
+task
+  .command('restore [id]')
+  .description('Restore an archived or deleted task, or list them when no ID is given')
+  .action(restoreTask);
+
+const plan = program
+  .command('plan')
+  .description('Manage implementation plans');
+
+plan
+  .command('create <task-id>')
+  .description('Scaffold a plan in .sabin/plans from the template and link it to the task')
+  .action(createPlan);
+
+plan
+  .command('show <task-id>')
+  .description("Show a task's plan with its checklist progress")
+  .option('--raw', 'Print the plan file as is')
+  .action(showPlan);
+
+plan
+  .command('link <task-id> <path>')
+  .description('Link an existing plan file to a task')
+  .action(linkPlan);
+
+const research = program
+  .command('research')
+  .description('Manage research notes');
+
+research
+  .command('add <topic>')
+  .description('Create a research note in .sabin/research, optionally linked to tasks')
+  .option('-t, --task <id>', 'Link the note to a task (repeatable)', collect, [])
+  .action(addResearch);
+
+research
+  .command('list')
+  .description('List research notes')
+  .option('-t, --task <id>', 'Only notes that reference this task')
+  .action(listResearchNotes);
+
+research
+  .command('show <name>')
+  .description('Show a research note')
+  .option('--raw', 'Print the note file as is')
+  .action(showResearch);
+
+const todo = program
+  .command('todo')
+  .description('Capture ideas in the .sabin/TODO.md inbox and turn them into tasks');
+
+todo
+  .command('add <text>')
+  .description('Append an item to TODO.md')
+  .action(addTodoItem);
+
+todo
+  .command('list')
+  .description('List TODO.md items, numbered, with their nested bullets')
+  .action(listTodoItems);
+
+todo
+  .command('extract <index>')
+  .description('Create a task from a TODO.md item and its nested bullets, and remove it from TODO.md')
+  .action(extractTodoItem);
+
+const config = program
+  .command('config')
+  .description('View and change settings in .sabin/config.json');
+
+config
+  .command('list')
+  .description('List settings, including defaults, and any problems with config.json')
+  .action(listConfigValues);
+
+config
+  .command('get <key>')
+  .description('Print a setting, e.g. projectPrefix, transitions.open or statuses[0].name')
+  .action(showConfigValue);
+
+config
+  .command('set <key> <value>')
+  .description('Change a setting; values are parsed as JSON where possible and checked against the config schema')
+  .action(setConfigOption);
+
+config
+  .command('unset <key>')
+  .description('Remove a setting from config.json, falling back to its default')
+  .action(unsetConfigOption);
+
 const prompts = program
   .command('prompts')
   .description('Manage AI agent prompts');
@@ -0,0 +1,53 @@
+import chalk from 'chalk';
+
+/**
+ * Render markdown for the terminal: headings, lists, checklists,
+ * quotes, code blocks and inline emphasis
+ */
+export function renderMarkdown(markdown: string): string {
+  const lines: string[] = [];
+  let inCode = false;
+
+  for (const line of markdown.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode) {
+      lines.push(chalk.gray(`    ${line}`));
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    const checkbox = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s?(.*)$/);
+    const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+    const quote = line.match(/^\s*>\s?(.*)$/);
+
+    if (heading) {
+      const text = renderInline(heading[2]);
+      lines.push(heading[1].length <= 2 ? chalk.bold(chalk.cyan(text)) : chalk.bold(text));
+    } else if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      lines.push(chalk.gray('─'.repeat(40)));
+    } else if (checkbox) {
+      const checked = checkbox[2] !== ' ';
+      const mark = checked ? chalk.green('☑') : '☐';
+      const text = renderInline(checkbox[3]);
+      lines.push(`${checkbox[1]}  ${mark} ${checked ? chalk.gray(text) : text}`);
+    } else if (bullet) {
+      lines.push(`${bullet[1]}  • ${renderInline(bullet[2])}`);
+    } else if (quote) {
+      lines.push(chalk.gray(`│ ${renderInline(quote[1])}`));
+    } else {
+      lines.push(renderInline(line));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function renderInline(text: string): string {
+  return text
+    .replace(/`([^`]+)`/g, (_match, code) => chalk.cyan(code))
+    .replace(/\*\*([^*]+)\*\*|__([^_]+)__/g, (_match, a, b) => chalk.bold(a ?? b))
+    .replace(/\[([^\]]+)\]\(([^)]+)\)/g, (_match, label, url) => `${label} ${chalk.gray(`(${url})`)}`);
+}
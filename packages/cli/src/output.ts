@@ -0,0 +1,121 @@
+import chalk from 'chalk';
+import { Task, SabinError } from '@sabin/core';
+
+/**
+ * How commands print their results:
+ * - `text`: decorated output for people (default)
+ * - `json`: one JSON document on stdout, errors as `{code, message}` on stderr
+ * - `table`: aligned columns, one row per task
+ * - `compact`: one line per task
+ * - `ids`: task IDs only
+ */
+export type OutputFormat = 'text' | 'json' | 'table' | 'compact' | 'ids';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'table', 'compact', 'ids'];
+
+let outputFormat: OutputFormat = 'text';
+
+/** Formats of commands that print one line per task */
+export const TASK_LINE_FORMATS: OutputFormat[] = OUTPUT_FORMATS;
+
+/** Formats of commands that print anything else */
+export const DEFAULT_FORMATS: OutputFormat[] = ['text', 'json'];
+
+/**
+ * Set the format from the global `--json` and `--format` options,
+ * refusing formats the command being run does not support
+ */
+export function setOutputFormat(
+  options: { json?: boolean; format?: string },
+  command?: { name: string; formats: OutputFormat[] }
+): void {
+  const format = options.json ? 'json' : options.format || 'text';
+  if (!(OUTPUT_FORMATS as string[]).includes(format)) {
+    throw new SabinError(`Invalid output format: ${format}. Must be one of: ${OUTPUT_FORMATS.join(', ')}`, 'INVALID_FORMAT');
+  }
+  if (command && !(command.formats as string[]).includes(format)) {
+    const option = options.json ? '--json' : `--format ${format}`;
+    throw new SabinError(
+      `sabin ${command.name} does not support ${option}. Supported formats: ${command.formats.join(', ')}`,
+      'INVALID_FORMAT'
+    );
+  }
+  outputFormat = format as OutputFormat;
+}
+
+export function getOutputFormat(): OutputFormat {
+  return outputFormat;
+}
+
+export function isJsonOutput(): boolean {
+  return outputFormat === 'json';
+}
+
+export function printJson(value: unknown): void {
+  console.log(JSON.stringify(value, null, 2));
+}
+
+/**
+ * The fields of a task included in JSON output; the body and raw frontmatter are left out
+ */
+export function taskToJson(task: Task): Record<string, unknown> {
+  return {
+    id: task.id,
+    status: task.status,
+    title: task.title,
+    plan: task.plan,
+    workingDir: task.workingDir,
+    dependsOn: task.dependsOn,
+    parent: task.parent,
+    extra: task.extra,
+    path: task.path
+  };
+}
+
+/**
+ * Print a single task in the `compact` or `ids` format.
+ * Returns false for the other formats, which the command prints itself.
+ */
+export function printTaskLine(task: Task): boolean {
+  if (outputFormat === 'ids') {
+    console.log(task.id);
+  } else if (outputFormat === 'compact') {
+    console.log(formatCompactLine(task));
+  } else {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * A tab-separated `id status title` line
+ */
+export function formatCompactLine(task: Task, status: string = task.status): string {
+  return `${task.id}\t${status}\t${task.title}`;
+}
+
+/**
+ * Print an error as `{code, message}` on stderr and exit.
+ * Errors that are not SabinErrors get the code UNEXPECTED_ERROR.
+ */
+export function exitWithJsonError(error: unknown): never {
+  const code = error instanceof SabinError ? error.code : 'UNEXPECTED_ERROR';
+  const message = error instanceof Error ? error.message : String(error);
+
+  console.error(JSON.stringify({ code, message }));
+  process.exit(1);
+}
+
+/**
+ * Pad columns so they line up, with a bold header row
+ */
+export function formatTable(header: string[], rows: string[][]): string[] {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => (row[column] || '').length))
+  );
+  const format = (row: string[]) => row.map((cell, column) =>
+    column === row.length - 1 ? cell : (cell || '').padEnd(widths[column])
+  ).join('  ');
+
+  return [chalk.bold(format(header)), ...rows.map(format)];
+}
@@ -0,0 +1,17 @@
+import {
+  TaskRepository,
+  resolveSabinDir,
+  getWorkingDirName
+} from '@sabin/core';
+
+/**
+ * Open the task repository for the .sabin directory of the current project,
+ * recording the working directory when linked to a shared .sabin
+ */
+export async function openTaskRepository(): Promise<TaskRepository> {
+  const { sabinDir, isLinked, projectRoot } = await resolveSabinDir();
+
+  return new TaskRepository(sabinDir, {
+    workingDir: isLinked ? getWorkingDirName(sabinDir, projectRoot) : undefined
+  });
+}
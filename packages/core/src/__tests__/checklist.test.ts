@@ -0,0 +1,87 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { parseChecklist, getChecklistProgress, setChecklistItem, readTaskChecklist } from '../checklist';
+import { Task } from '../types';
+
+describe('checklist', () => {
+  describe('parseChecklist', () => {
+    it('should parse checked and unchecked items', () => {
+      const items = parseChecklist('# Plan\n\n- [ ] First\n- [x] Second\n* [X] Third\n');
+
+      expect(items).toEqual([
+        { index: 0, checked: false, text: 'First', line: 2 },
+        { index: 1, checked: true, text: 'Second', line: 3 },
+        { index: 2, checked: true, text: 'Third', line: 4 }
+      ]);
+    });
+
+    it('should include nested items', () => {
+      const items = parseChecklist('- [x] Phase 1\n  - [ ] Step a\n');
+
+      expect(items.map(i => i.text)).toEqual(['Phase 1', 'Step a']);
+    });
+
+    it('should ignore plain bullets and malformed boxes', () => {
+      const items = parseChecklist('- Plain item\n- [] Not a box\n-[ ] Missing space\n');
+
+      expect(items).toEqual([]);
+    });
+  });
+
+  it('should skip items in fenced code blocks and handle CRLF', () => {
+    const items = parseChecklist('- [ ] Real\r\n```md\n- [ ] Example\n```\n- [x] Also real\r\n');
+
+    expect(items.map(i => [i.text, i.line])).toEqual([['Real', 0], ['Also real', 4]]);
+  });
+
+  describe('getChecklistProgress', () => {
+    it('should count checked items', () => {
+      expect(getChecklistProgress(parseChecklist('- [x] a\n- [ ] b\n- [X] c\n'))).toEqual({ done: 2, total: 3 });
+    });
+  });
+
+  describe('setChecklistItem', () => {
+    it('should only change the box of the given item', () => {
+      const content = '# Plan\n\n- [ ] First [ ]\n  * [x] Second\n';
+
+      expect(setChecklistItem(content, 0, true)).toBe('# Plan\n\n- [x] First [ ]\n  * [x] Second\n');
+      expect(setChecklistItem(content, 1, false)).toBe('# Plan\n\n- [ ] First [ ]\n  * [ ] Second\n');
+    });
+
+    it('should throw for a missing item', () => {
+      expect(() => setChecklistItem('- [ ] Only\n', 1, true)).toThrow('Checklist item not found: #2 (the checklist has 1 item(s))');
+    });
+  });
+
+  describe('readTaskChecklist', () => {
+    let sabinDir: string;
+
+    beforeEach(async () => {
+      sabinDir = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-')), '.sabin');
+      await fs.mkdir(path.join(sabinDir, 'plans'), { recursive: true });
+      await fs.writeFile(path.join(sabinDir, 'plans', 'p.md'), '- [x] Plan item\n');
+    });
+
+    afterEach(async () => {
+      await fs.rm(path.dirname(sabinDir), { recursive: true, force: true });
+    });
+
+    it('should list body items, then plan items', async () => {
+      const task: Task = { id: 'TASK-0001', status: 'open', title: 'T', content: '- [ ] Body item\n', path: '', plan: '.sabin/plans/p.md' };
+
+      const items = await readTaskChecklist(task, sabinDir);
+
+      expect(items).toEqual([
+        { index: 0, checked: false, text: 'Body item', line: 0, source: 'task', documentIndex: 0 },
+        { index: 1, checked: true, text: 'Plan item', line: 0, source: 'plan', documentIndex: 0 }
+      ]);
+    });
+
+    it('should ignore a plan link that does not resolve', async () => {
+      const task: Task = { id: 'TASK-0001', status: 'open', title: 'T', content: '', path: '', plan: 'missing.md' };
+
+      expect(await readTaskChecklist(task, sabinDir)).toEqual([]);
+    });
+  });
+});
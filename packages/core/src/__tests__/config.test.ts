@@ -1,5 +1,6 @@
 import fs from 'fs/promises';
-import { readConfig, writeConfig, getDefaultConfig } from '../config';
+import { readConfig, writeConfig, getDefaultConfig, getConfigValue, setConfigValue, unsetConfigValue, getConfigKeySchema } from '../config';
+import { InvalidConfigError } from '../errors';
 
 jest.mock('fs/promises');
 
@@ -33,14 +34,19 @@ describe('config utilities', () => {
       });
     });
 
-    it('should handle invalid JSON gracefully', async () => {
+    it('should reject invalid JSON instead of falling back to defaults', async () => {
       mockFs.readFile.mockResolvedValue('not valid json{');
 
-      const config = await readConfig('.sabin');
+      await expect(readConfig('.sabin')).rejects.toThrow(InvalidConfigError);
+      await expect(readConfig('.sabin')).rejects.toThrow('.sabin/config.json:\n  not valid JSON');
+    });
 
-      expect(config).toEqual({
-        projectPrefix: 'TASK',
-        taskNumberPadding: 4
+    it('should reject config that does not match the schema', async () => {
+      mockFs.readFile.mockResolvedValue('{"projectPrefx":"API","taskNumberPadding":"4"}');
+
+      await expect(readConfig('.sabin')).rejects.toMatchObject({
+        code: 'INVALID_CONFIG',
+        problems: ['projectPrefx is not a known setting', 'taskNumberPadding must be an integer']
       });
     });
 
@@ -88,6 +94,48 @@ describe('config utilities', () => {
     });
   });
 
+  describe('config keys', () => {
+    it('should get nested settings by key', () => {
+      const config = { projectPrefix: 'API', statuses: [{ id: 'open', name: 'Open', folder: 'open' }] };
+
+      expect(getConfigValue(config, 'projectPrefix')).toBe('API');
+      expect(getConfigValue(config, 'statuses[0].name')).toBe('Open');
+      expect(getConfigValue(config, 'statuses.0.folder')).toBe('open');
+      expect(getConfigValue(config, 'transitions.open')).toBeUndefined();
+    });
+
+    it('should set settings, creating objects along the way', () => {
+      const config: Record<string, unknown> = { projectPrefix: 'API' };
+
+      setConfigValue(config, 'taskNumberPadding', 6);
+      setConfigValue(config, 'transitions.open', ['ready']);
+
+      expect(config).toEqual({ projectPrefix: 'API', taskNumberPadding: 6, transitions: { open: ['ready'] } });
+      expect(() => setConfigValue(config, 'projectPrefix.name', 'x')).toThrow('projectPrefix is not an object or array');
+    });
+
+    it('should unset settings', () => {
+      const config = { projectPrefix: 'API', guards: { completed: ['checklist'] } };
+
+      expect(unsetConfigValue(config, 'guards.completed')).toBe(true);
+      expect(unsetConfigValue(config, 'taskNumberPadding')).toBe(false);
+      expect(config).toEqual({ projectPrefix: 'API', guards: {} });
+    });
+
+    it('should find the schema of a key', () => {
+      expect(getConfigKeySchema('projectPrefix')?.type).toBe('string');
+      expect(getConfigKeySchema('statuses[2].folder')?.type).toBe('string');
+      expect(getConfigKeySchema('guards.completed')?.type).toBe('array');
+      expect(getConfigKeySchema('statuses.name')).toBeUndefined();
+      expect(getConfigKeySchema('unknown')).toBeUndefined();
+    });
+
+    it('should reject malformed keys', () => {
+      expect(() => getConfigValue({}, 'statuses..name')).toThrow('Invalid config key');
+      expect(() => setConfigValue({}, '__proto__.polluted', true)).toThrow('Invalid config key');
+    });
+  });
+
   describe('getDefaultConfig', () => {
     it('should return expected defaults', () => {
       const config = getDefaultConfig();
@@ -0,0 +1,110 @@
+import { validateConfig, SABIN_CONFIG_SCHEMA } from '../configSchema';
+import { TRANSITION_GUARDS } from '../transitions';
+import { DEFAULT_STATUSES, STATUS_COLORS } from '../statuses';
+
+describe('configSchema', () => {
+  describe('validateConfig', () => {
+    it('should accept a complete config', () => {
+      expect(validateConfig({
+        $schema: './config.schema.json',
+        projectPrefix: 'API',
+        taskNumberPadding: 6,
+        schemaVersion: 1,
+        statuses: DEFAULT_STATUSES,
+        transitions: { open: ['ready'], ready: ['open', 'in_progress'] },
+        guards: { ready: ['plan-exists'], completed: ['plan-complete'] }
+      })).toEqual([]);
+    });
+
+    it('should accept an empty config', () => {
+      expect(validateConfig({})).toEqual([]);
+    });
+
+    it('should report wrong types with their path', () => {
+      expect(validateConfig({
+        projectPrefix: 42,
+        taskNumberPadding: 2.5,
+        transitions: { open: 'ready' }
+      })).toEqual([
+        'projectPrefix must be a string',
+        'taskNumberPadding must be an integer',
+        'transitions.open must be an array'
+      ]);
+      expect(validateConfig([])).toEqual(['config must be an object']);
+    });
+
+    it('should report unknown and missing settings', () => {
+      expect(validateConfig({
+        prefix: 'API',
+        statuses: [{ id: 'open', name: 'Open', folder: 'open' }, { id: 'done', name: 'Done', colour: 'green' }]
+      })).toEqual([
+        'prefix is not a known setting',
+        'statuses[1].folder is required',
+        'statuses[1].colour is not a known setting'
+      ]);
+    });
+
+    it('should only accept built-in guards', () => {
+      expect(validateConfig({ guards: { ready: ['plan-exist'] } })).toEqual([
+        `guards.ready[0] must be one of: ${Object.keys(TRANSITION_GUARDS).join(', ')}`
+      ]);
+    });
+
+    it('should only accept chalk foreground colors for statuses', () => {
+      expect(validateConfig({
+        statuses: [
+          { id: 'open', name: 'Open', color: 'cyanBright', folder: 'open' },
+          { id: 'done', name: 'Done', color: 'Instance', folder: 'completed' }
+        ]
+      })).toEqual([
+        `statuses[1].color must be one of: ${STATUS_COLORS.join(', ')}`
+      ]);
+    });
+
+    it('should report transitions to and from unknown statuses', () => {
+      expect(validateConfig({ transitions: { open: ['redy'], done: ['open'] } })).toEqual([
+        'transitions.open[0] names unknown status redy',
+        'transitions.done names unknown status done'
+      ]);
+    });
+
+    it('should check transitions and guards against the configured statuses', () => {
+      const statuses = [{ id: 'todo', name: 'To do', folder: 'open' }, { id: 'done', name: 'Done', folder: 'completed' }];
+
+      expect(validateConfig({ statuses, transitions: { todo: ['done'] }, guards: { done: ['plan-complete'] } })).toEqual([]);
+      expect(validateConfig({ statuses, guards: { completed: ['plan-complete'] } })).toEqual([
+        'guards.completed names unknown status completed'
+      ]);
+    });
+
+    it('should check the ready and in-progress statuses against the configured statuses', () => {
+      const statuses = [{ id: 'todo', name: 'To do', folder: 'open' }, { id: 'doing', name: 'Doing', folder: 'open' }];
+
+      expect(validateConfig({ statuses, readyStatus: 'todo', inProgressStatus: 'doing' })).toEqual([]);
+      expect(validateConfig({ statuses, readyStatus: 'ready' })).toEqual(['readyStatus names unknown status ready']);
+    });
+
+    it('should report duplicate status IDs', () => {
+      expect(validateConfig({
+        statuses: [
+          { id: 'open', name: 'Open', folder: 'open' },
+          { id: 'done', name: 'Done', folder: 'completed' },
+          { id: 'open', name: 'Reopened', folder: 'open' }
+        ]
+      })).toEqual(['statuses[2].id open is used by an earlier status']);
+    });
+
+    it('should check values against patterns and limits', () => {
+      expect(validateConfig({
+        projectPrefix: 'MY PROJECT',
+        taskNumberPadding: 0,
+        statuses: [{ id: '', name: 'Open', folder: '../open' }]
+      })).toEqual([
+        `projectPrefix must match ${SABIN_CONFIG_SCHEMA.properties!.projectPrefix.pattern}`,
+        'taskNumberPadding must be at least 1',
+        'statuses[0].id must not be empty',
+        `statuses[0].folder must match ^[A-Za-z0-9_-]+$`
+      ]);
+    });
+  });
+});
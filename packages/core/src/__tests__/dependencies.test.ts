@@ -0,0 +1,89 @@
+import {
+  validateDependencies,
+  findDependencyCycle,
+  getBlockingDependencies,
+  buildDependencyTree
+} from '../dependencies';
+import { Task } from '../types';
+
+function makeTask(id: string, status: string, dependsOn?: string[]): Task {
+  return { id, status, title: `Task ${id}`, dependsOn, content: '', path: `/tasks/open/${id}.md` };
+}
+
+describe('dependencies', () => {
+  const tasks = [
+    makeTask('A', 'completed'),
+    makeTask('B', 'ready', ['A']),
+    makeTask('C', 'open', ['A', 'B']),
+    makeTask('D', 'open', ['C'])
+  ];
+
+  describe('validateDependencies', () => {
+    it('should accept dependencies on existing tasks', () => {
+      expect(() => validateDependencies(makeTask('E', 'open', ['C', 'D']), tasks)).not.toThrow();
+    });
+
+    it('should reject unknown dependency IDs', () => {
+      expect(() => validateDependencies(makeTask('E', 'open', ['Z']), tasks))
+        .toThrow('Task E depends on unknown task: Z');
+    });
+
+    it('should reject dependencies that form a cycle', () => {
+      const updated = makeTask('A', 'completed', ['D']);
+
+      expect(() => validateDependencies(updated, tasks)).toThrow('Dependency cycle detected: A -> D -> C -> A');
+    });
+
+    it('should reject a task depending on itself', () => {
+      expect(() => validateDependencies(makeTask('B', 'ready', ['B']), tasks))
+        .toThrow(expect.objectContaining({ code: 'DEPENDENCY_CYCLE' }));
+    });
+  });
+
+  describe('findDependencyCycle', () => {
+    it('should return null for an acyclic graph', () => {
+      expect(findDependencyCycle(tasks)).toBeNull();
+    });
+
+    it('should return the IDs along a cycle', () => {
+      const cyclic = [makeTask('X', 'open', ['Y']), makeTask('Y', 'open', ['X'])];
+
+      expect(findDependencyCycle(cyclic)).toEqual(['X', 'Y', 'X']);
+    });
+  });
+
+  describe('getBlockingDependencies', () => {
+    it('should return dependencies that are not completed', () => {
+      expect(getBlockingDependencies(tasks[2], tasks)).toEqual(['B']);
+      expect(getBlockingDependencies(tasks[1], tasks)).toEqual([]);
+    });
+
+    it('should treat missing dependencies as blocking', () => {
+      expect(getBlockingDependencies(makeTask('E', 'open', ['Z']), tasks)).toEqual(['Z']);
+    });
+  });
+
+  describe('buildDependencyTree', () => {
+    it('should build the upstream tree', () => {
+      const tree = buildDependencyTree('C', tasks, 'upstream');
+
+      expect(tree.children.map(c => c.id)).toEqual(['A', 'B']);
+      expect(tree.children[1].children.map(c => c.id)).toEqual(['A']);
+    });
+
+    it('should build the downstream tree', () => {
+      const tree = buildDependencyTree('A', tasks, 'downstream');
+
+      expect(tree.children.map(c => c.id)).toEqual(['B', 'C']);
+      expect(tree.children[0].children[0].children.map(c => c.id)).toEqual(['D']);
+    });
+
+    it('should stop at cycles', () => {
+      const cyclic = [makeTask('X', 'open', ['Y']), makeTask('Y', 'open', ['X'])];
+
+      const tree = buildDependencyTree('X', cyclic, 'upstream');
+
+      expect(tree.children[0].children[0]).toMatchObject({ id: 'X', cycle: true, children: [] });
+    });
+  });
+});
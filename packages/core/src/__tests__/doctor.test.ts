@@ -0,0 +1,136 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { validateSabinDir, fixSabinDir } from '../doctor';
+
+describe('doctor', () => {
+  let testDir: string;
+  let sabinDir: string;
+
+  async function writeTaskFile(dir: string, filename: string, frontmatter: string) {
+    await fs.mkdir(path.join(sabinDir, 'tasks', dir), { recursive: true });
+    await fs.writeFile(path.join(sabinDir, 'tasks', dir, filename), `---\n${frontmatter}\n---\n\nContent\n`);
+  }
+
+  async function codes() {
+    return (await validateSabinDir(sabinDir)).map(p => p.code).sort();
+  }
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+    sabinDir = path.join(testDir, '.sabin');
+    await fs.mkdir(path.join(sabinDir, 'tasks', 'open'), { recursive: true });
+    await fs.mkdir(path.join(sabinDir, 'tasks', 'completed'), { recursive: true });
+    await fs.writeFile(path.join(sabinDir, 'config.json'), JSON.stringify({ projectPrefix: 'TASK', taskNumberPadding: 4 }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('validateSabinDir', () => {
+    it('should report nothing for a healthy directory', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: ready\ntitle: Fine');
+      await writeTaskFile('completed', 'TASK-0002.md', 'status: completed\ntitle: Done\ndependsOn:\n  - TASK-0001');
+
+      expect(await validateSabinDir(sabinDir)).toEqual([]);
+    });
+
+    it('should report config problems', async () => {
+      await fs.writeFile(path.join(sabinDir, 'config.json'), '{ broken');
+      expect(await codes()).toEqual(['INVALID_CONFIG']);
+
+      await fs.writeFile(path.join(sabinDir, 'config.json'), JSON.stringify({ taskNumberPadding: 0 }));
+      expect((await validateSabinDir(sabinDir))[0].message).toContain('taskNumberPadding must be at least 1');
+
+      await fs.writeFile(path.join(sabinDir, 'config.json'), JSON.stringify({ transitions: { open: ['redy'] } }));
+      expect((await validateSabinDir(sabinDir))[0].message).toContain('transitions.open[0] names unknown status redy');
+
+      await fs.rm(path.join(sabinDir, 'config.json'));
+      expect(await codes()).toEqual(['MISSING_CONFIG']);
+
+      const problems = await validateSabinDir(sabinDir, { linkPath: '/work/api/.sabin' });
+      expect(problems[0]).toMatchObject({ code: 'BROKEN_LINK', path: '/work/api/.sabin', fixable: false });
+    });
+
+    it('should report task problems with codes', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: completed\ntitle: Misplaced');
+      await writeTaskFile('open', 'TASK-0002.md', 'status: bogus\ntitle: Unknown status');
+      await writeTaskFile('open', 'TASK-0003.md', 'status: In Progress\ntitle: Loose status');
+      await writeTaskFile('completed', 'TASK-0003.md', 'status: completed\ntitle: Merged twice');
+      await writeTaskFile('open', 'TASK-0004.md', 'title: No status\nplan: plans/missing.md\ndependsOn: TASK-0099');
+      await writeTaskFile('open', 'TASK-0005.md', 'status: open\ntitle: [unclosed');
+
+      const problems = await validateSabinDir(sabinDir);
+      const byTask = (id: string) => problems.filter(p => p.taskId === id).map(p => p.code).sort();
+
+      expect(byTask('TASK-0001')).toEqual(['MISPLACED_TASK']);
+      expect(byTask('TASK-0002')).toEqual(['INVALID_STATUS']);
+      expect(byTask('TASK-0003')).toEqual(['DUPLICATE_ID', 'INVALID_STATUS']);
+      expect(byTask('TASK-0004')).toEqual(['MISSING_PLAN', 'NONSTANDARD_FRONTMATTER', 'UNKNOWN_DEPENDENCY']);
+      expect(byTask('TASK-0005')).toEqual(['UNREADABLE_TASK']);
+      expect(problems.find(p => p.taskId === 'TASK-0002')!.fixable).toBe(false);
+      expect(problems.find(p => p.code === 'INVALID_STATUS' && p.taskId === 'TASK-0003')!.fixable).toBe(true);
+    });
+
+    it('should report files in folders no status maps to', async () => {
+      await writeTaskFile('resolved', 'TASK-0001.md', 'status: completed\ntitle: Legacy');
+
+      expect(await codes()).toEqual(['MISPLACED_TASK']);
+    });
+
+    it('should point tasks in the legacy tickets/ layout at sabin migrate', async () => {
+      await fs.mkdir(path.join(sabinDir, 'tickets', 'open'), { recursive: true });
+      await fs.writeFile(path.join(sabinDir, 'tickets', 'open', 'TICKET-0001.md'), '---\nstatus: open\ntitle: Old\n---\n');
+
+      const problems = await validateSabinDir(sabinDir);
+      expect(problems).toEqual([expect.objectContaining({ code: 'LEGACY_LAYOUT', fixable: false })]);
+      expect(problems[0].message).toContain('sabin migrate');
+    });
+
+    it('should report dependency cycles and unknown parents', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: A\ndependsOn: [TASK-0002]\nparent: TASK-0042');
+      await writeTaskFile('open', 'TASK-0002.md', 'status: open\ntitle: B\ndependsOn: [TASK-0001]');
+
+      expect(await codes()).toEqual(['DEPENDENCY_CYCLE', 'UNKNOWN_PARENT']);
+    });
+  });
+
+  describe('fixSabinDir', () => {
+    it('should fix misplaced files, duplicates and frontmatter', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: completed\ntitle: Misplaced');
+      await writeTaskFile('open', 'TASK-0002.md', 'status: in-progress\ntitle: Loose status');
+      await writeTaskFile('completed', 'TASK-0002.md', 'status: completed\ntitle: Merged twice');
+      await writeTaskFile('open', 'TASK-0003.md', '# keep me\ntitle: No status\nid: TASK-0003\ndependsOn: TASK-0001');
+      await writeTaskFile('resolved', 'TASK-0004.md', 'status: completed\ntitle: Legacy');
+
+      const fixed = await fixSabinDir(sabinDir);
+
+      expect(fixed.map(p => p.code).sort()).toEqual([
+        'DUPLICATE_ID', 'INVALID_STATUS', 'MISPLACED_TASK', 'MISPLACED_TASK', 'NONSTANDARD_FRONTMATTER'
+      ]);
+      expect(await validateSabinDir(sabinDir)).toEqual([]);
+
+      expect((await fs.readdir(path.join(sabinDir, 'tasks', 'open'))).sort()).toEqual(['TASK-0002.md', 'TASK-0003.md']);
+      expect((await fs.readdir(path.join(sabinDir, 'tasks', 'completed'))).sort()).toEqual(['TASK-0001.md', 'TASK-0004.md', 'TASK-0005.md']);
+      expect(await fs.readFile(path.join(sabinDir, 'tasks', 'completed', 'TASK-0005.md'), 'utf8')).toContain('Merged twice');
+      expect(await fs.readFile(path.join(sabinDir, 'tasks', 'open', 'TASK-0002.md'), 'utf8')).toContain('status: in_progress');
+      expect(await fs.readFile(path.join(sabinDir, 'tasks', 'open', 'TASK-0003.md'), 'utf8'))
+        .toBe('---\n# keep me\ntitle: No status\ndependsOn:\n  - TASK-0001\nstatus: open\n---\n\nContent\n');
+    });
+
+    it('should convert the legacy resolved status to completed', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: resolved\ntitle: Old');
+
+      expect((await fixSabinDir(sabinDir)).map(p => p.code)).toEqual(['INVALID_STATUS', 'MISPLACED_TASK']);
+      expect(await fs.readFile(path.join(sabinDir, 'tasks', 'completed', 'TASK-0001.md'), 'utf8')).toContain('status: completed');
+    });
+
+    it('should leave problems it cannot fix', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: bogus\ntitle: Unknown');
+
+      expect(await fixSabinDir(sabinDir)).toEqual([]);
+      expect(await codes()).toEqual(['INVALID_STATUS']);
+    });
+  });
+});
@@ -45,14 +45,29 @@ describe('error utilities', () => {
     it('should format message with invalid status', () => {
       const error = new InvalidTaskStatusError('invalid');
 
-      expect(error.message).toBe('Invalid task status: invalid. Must be one of: open, ready, in_progress, review, completed, resolved');
+      expect(error.message).toBe('Invalid task status: invalid. Must be one of: open, ready, in_progress, review, completed');
       expect(error.code).toBe('INVALID_STATUS');
     });
 
     it('should show valid statuses in error message', () => {
       const error = new InvalidTaskStatusError('bad_status');
 
-      expect(error.message).toContain('open, ready, in_progress, review, completed, resolved');
+      expect(error.message).toContain('open, ready, in_progress, review, completed');
+    });
+
+    it('should list configured statuses when provided', () => {
+      const error = new InvalidTaskStatusError('done', [
+        { id: 'todo', name: 'To Do', folder: 'open' },
+        { id: 'blocked', name: 'Blocked', folder: 'open' }
+      ]);
+
+      expect(error.message).toBe('Invalid task status: done. Must be one of: todo, blocked');
+    });
+
+    it('should point legacy statuses at sabin migrate', () => {
+      const error = new InvalidTaskStatusError('resolved');
+
+      expect(error.message).toContain('run "sabin migrate" to convert it to "completed"');
     });
   });
 
@@ -87,8 +102,8 @@ describe('error utilities', () => {
       expect(isValidStatus('review')).toBe(true);
     });
 
-    it('should return true for valid status "resolved"', () => {
-      expect(isValidStatus('resolved')).toBe(true);
+    it('should return false for legacy status "resolved"', () => {
+      expect(isValidStatus('resolved')).toBe(false);
     });
 
     it('should return true for valid status "in_progress"', () => {
@@ -110,6 +125,13 @@ describe('error utilities', () => {
     it('should return false for partial match', () => {
       expect(isValidStatus('ope')).toBe(false);
     });
+
+    it('should validate against configured statuses', () => {
+      const statuses = [{ id: 'blocked', name: 'Blocked', folder: 'open' }];
+
+      expect(isValidStatus('blocked', statuses)).toBe(true);
+      expect(isValidStatus('open', statuses)).toBe(false);
+    });
   });
 
   describe('handleError', () => {
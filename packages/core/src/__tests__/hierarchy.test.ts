@@ -0,0 +1,59 @@
+import { validateParent, buildTaskTree } from '../hierarchy';
+import { Task } from '../types';
+
+function makeTask(id: string, status: string, parent?: string): Task {
+  return { id, status, title: `Task ${id}`, parent, content: '', path: `/tasks/open/${id}.md` };
+}
+
+describe('hierarchy', () => {
+  const tasks = [
+    makeTask('EPIC', 'in_progress'),
+    makeTask('A', 'completed', 'EPIC'),
+    makeTask('B', 'open', 'EPIC'),
+    makeTask('B1', 'completed', 'B'),
+    makeTask('B2', 'open', 'B'),
+    makeTask('SOLO', 'open')
+  ];
+
+  describe('validateParent', () => {
+    it('should accept an existing parent', () => {
+      expect(() => validateParent(makeTask('C', 'open', 'EPIC'), tasks)).not.toThrow();
+    });
+
+    it('should reject a missing parent', () => {
+      expect(() => validateParent(makeTask('C', 'open', 'NOPE'), tasks))
+        .toThrow('Invalid parent for C: parent task not found: NOPE');
+    });
+
+    it('should reject parent cycles', () => {
+      expect(() => validateParent(makeTask('EPIC', 'open', 'B2'), tasks))
+        .toThrow('Invalid parent for EPIC: parent cycle: EPIC -> B2 -> B -> EPIC');
+      expect(() => validateParent(makeTask('SOLO', 'open', 'SOLO'), tasks))
+        .toThrow(expect.objectContaining({ code: 'INVALID_PARENT' }));
+    });
+  });
+
+  describe('buildTaskTree', () => {
+    it('should nest children under their parents', () => {
+      const roots = buildTaskTree(tasks);
+
+      expect(roots.map(r => r.task.id)).toEqual(['EPIC', 'SOLO']);
+      expect(roots[0].children.map(c => c.task.id)).toEqual(['A', 'B']);
+      expect(roots[0].children[1].children.map(c => c.task.id)).toEqual(['B1', 'B2']);
+    });
+
+    it('should roll up completion across all descendants', () => {
+      const [epic, solo] = buildTaskTree(tasks);
+
+      expect(epic).toMatchObject({ total: 4, completed: 2 });
+      expect(epic.children[1]).toMatchObject({ total: 2, completed: 1 });
+      expect(solo).toMatchObject({ total: 0, completed: 0 });
+    });
+
+    it('should treat tasks with a missing parent as roots', () => {
+      const roots = buildTaskTree([makeTask('ORPHAN', 'open', 'GONE')]);
+
+      expect(roots.map(r => r.task.id)).toEqual(['ORPHAN']);
+    });
+  });
+});
@@ -0,0 +1,63 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { appendHistory, readHistory, renameHistory, resolveActor, getHistoryPath } from '../history';
+
+describe('history', () => {
+  let sabinDir: string;
+
+  beforeEach(async () => {
+    sabinDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(sabinDir, { recursive: true, force: true });
+    delete process.env.SABIN_ACTOR;
+  });
+
+  describe('appendHistory / readHistory', () => {
+    it('should append entries as JSON lines and read them back', async () => {
+      await appendHistory(sabinDir, { taskId: 'TASK-0001', timestamp: '2024-01-01T00:00:00.000Z', from: null, to: 'open' });
+      await appendHistory(sabinDir, { taskId: 'TASK-0002', timestamp: '2024-01-02T00:00:00.000Z', from: null, to: 'open' });
+      await appendHistory(sabinDir, { taskId: 'TASK-0001', timestamp: '2024-01-03T00:00:00.000Z', from: 'open', to: 'ready', actor: 'alice', workingDir: 'api' });
+
+      const content = await fs.readFile(getHistoryPath(sabinDir), 'utf8');
+      expect(content.trim().split('\n')).toHaveLength(3);
+
+      const entries = await readHistory(sabinDir, 'TASK-0001');
+      expect(entries.map(e => e.to)).toEqual(['open', 'ready']);
+      expect(entries[1]).toMatchObject({ from: 'open', actor: 'alice', workingDir: 'api' });
+    });
+
+    it('should return an empty list when no history exists', async () => {
+      expect(await readHistory(sabinDir)).toEqual([]);
+    });
+
+    it('should skip malformed lines', async () => {
+      await fs.writeFile(getHistoryPath(sabinDir), '{"taskId":"TASK-0001","timestamp":"t","from":null,"to":"open"}\n{"taskId":\n');
+
+      expect(await readHistory(sabinDir)).toHaveLength(1);
+    });
+
+    it('should keep entries appended while a rename rewrites the log', async () => {
+      const entry = (taskId: string, n: number) => ({ taskId, timestamp: `2024-01-01T00:00:${n}Z`, from: null, to: 'open' });
+      await fs.writeFile(getHistoryPath(sabinDir), Array.from({ length: 500 }, (_, n) => JSON.stringify(entry('TASK-0001', n)) + '\n').join(''));
+
+      await Promise.all([
+        renameHistory(sabinDir, 'TASK-0001', 'API-1'),
+        ...Array.from({ length: 10 }, (_, n) => appendHistory(sabinDir, entry('TASK-0002', n)))
+      ]);
+
+      expect(await readHistory(sabinDir, 'API-1')).toHaveLength(500);
+      expect(await readHistory(sabinDir, 'TASK-0002')).toHaveLength(10);
+    });
+  });
+
+  describe('resolveActor', () => {
+    it('should prefer SABIN_ACTOR', async () => {
+      process.env.SABIN_ACTOR = 'agent-7';
+
+      expect(await resolveActor()).toBe('agent-7');
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { spawn } from 'child_process';
+import { withLock } from '../lock';
+
+describe('lock', () => {
+  let testDir: string;
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('withLock', () => {
+    it('should run callers one at a time and release the lock', async () => {
+      const lockPath = path.join(testDir, '.lock');
+      const events: string[] = [];
+
+      await Promise.all([1, 2, 3].map(n => withLock(lockPath, async () => {
+        events.push(`start ${n}`);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        events.push(`end ${n}`);
+      })));
+
+      for (let i = 0; i < events.length; i += 2) {
+        expect(events[i + 1]).toBe(events[i].replace('start', 'end'));
+      }
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it('should release the lock when the callback throws', async () => {
+      const lockPath = path.join(testDir, '.lock');
+
+      await expect(withLock(lockPath, async () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+
+    it('should time out while another process holds the lock', async () => {
+      const lockPath = path.join(testDir, '.lock');
+      await fs.writeFile(lockPath, '12345');
+
+      await expect(withLock(lockPath, async () => undefined, { timeout: 100 }))
+        .rejects.toMatchObject({ code: 'LOCK_TIMEOUT' });
+    });
+
+    it('should take over stale locks', async () => {
+      const lockPath = path.join(testDir, '.lock');
+      await fs.writeFile(lockPath, '12345');
+      const past = new Date(Date.now() - 60000);
+      await fs.utimes(lockPath, past, past);
+
+      await expect(withLock(lockPath, async () => 'done', { timeout: 100 })).resolves.toBe('done');
+    });
+
+    it('should let only one of several waiters take over a stale lock', async () => {
+      const lockPath = path.join(testDir, '.lock');
+      await fs.writeFile(lockPath, '12345');
+      const past = new Date(Date.now() - 60000);
+      await fs.utimes(lockPath, past, past);
+      let holders = 0;
+      let maxHolders = 0;
+
+      // The first waiter acts on the stale lock only after another has taken over
+      const stat = fs.stat.bind(fs);
+      let checks = 0;
+      jest.spyOn(fs, 'stat').mockImplementation(async (file: any) => {
+        const stats = await stat(file);
+        if (++checks === 1) {
+          await new Promise(resolve => setTimeout(resolve, 50));
+        }
+        return stats;
+      });
+
+      await Promise.all([1, 2, 3, 4].map(() => withLock(lockPath, async () => {
+        maxHolders = Math.max(maxHolders, ++holders);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        holders--;
+      })));
+
+      expect(maxHolders).toBe(1);
+      expect(await fs.readdir(testDir)).toEqual([]);
+    });
+  });
+
+  describe('concurrent task creation', () => {
+    const CREATORS = 4;
+    const TASKS_PER_CREATOR = 5;
+
+    // Each creator is a separate node process, like agents in different linked projects
+    function spawnCreator(sabinDir: string, workingDir: string): Promise<void> {
+      const script = `
+        const { TaskRepository } = require(${JSON.stringify(path.join(__dirname, '..', 'taskRepository'))});
+        (async () => {
+          const repository = new TaskRepository(process.argv[1], { workingDir: process.argv[2], actor: 'test' });
+          for (let i = 0; i < ${TASKS_PER_CREATOR}; i++) {
+            await repository.create({ title: process.argv[2] + ' task ' + i });
+          }
+        })().catch(error => {
+          console.error(error);
+          process.exit(1);
+        });
+      `;
+
+      return new Promise((resolve, reject) => {
+        const child = spawn(
+          process.execPath,
+          ['-r', 'ts-node/register/transpile-only', '-e', script, sabinDir, workingDir],
+          { cwd: path.join(__dirname, '..', '..'), stdio: ['ignore', 'ignore', 'pipe'] }
+        );
+        let stderr = '';
+        child.stderr.on('data', chunk => {
+          stderr += chunk;
+        });
+        child.on('error', reject);
+        child.on('exit', code => code === 0 ? resolve() : reject(new Error(stderr)));
+      });
+    }
+
+    it('should give every task a unique ID', async () => {
+      const sabinDir = path.join(testDir, '.sabin');
+      await fs.mkdir(path.join(sabinDir, 'tasks', 'open'), { recursive: true });
+      await fs.writeFile(path.join(sabinDir, 'config.json'), JSON.stringify({ projectPrefix: 'TASK', taskNumberPadding: 4 }));
+
+      await Promise.all(
+        Array.from({ length: CREATORS }, (_, n) => spawnCreator(sabinDir, `project-${n}`))
+      );
+
+      const files = (await fs.readdir(path.join(sabinDir, 'tasks', 'open'))).sort();
+      const expected = Array.from(
+        { length: CREATORS * TASKS_PER_CREATOR },
+        (_, n) => `TASK-${String(n + 1).padStart(4, '0')}.md`
+      );
+      expect(files).toEqual(expected);
+
+      const titles = await Promise.all(files.map(async file => {
+        const content = await fs.readFile(path.join(sabinDir, 'tasks', 'open', file), 'utf8');
+        return content.match(/^title: (.*)$/m)?.[1];
+      }));
+      expect(new Set(titles).size).toBe(CREATORS * TASKS_PER_CREATOR);
+    }, 60000);
+  });
+});
@@ -26,9 +26,11 @@ This is the task content`;
       const task = await parseTask('/path/to/task.md');
 
       expect(task).toEqual({
+        id: 'task',
         status: 'open',
         title: 'Test Task',
         plan: '/path/to/plan.md',
+        rawFrontmatter: 'status: open\ntitle: Test Task\nplan: /path/to/plan.md\n',
         content: '\nThis is the task content',
         path: '/path/to/task.md'
       });
@@ -60,7 +62,6 @@ Content`;
 
       mockFs.readFile.mockResolvedValue(mockContent);
 
-      // gray-matter throws on invalid YAML
       await expect(parseTask('/path/to/task.md')).rejects.toThrow();
     });
 
@@ -89,11 +90,29 @@ Content`;
       expect(task.status).toBe('open'); // Default status
       expect(task.content).toContain('Just content');
     });
+
+    it('should keep unmanaged frontmatter fields in extra', async () => {
+      const mockContent = `---
+status: open
+title: Test Task
+description: Longer summary
+labels:
+  - auth
+---
+Content`;
+
+      mockFs.readFile.mockResolvedValue(mockContent);
+
+      const task = await parseTask('/path/to/task.md');
+
+      expect(task.extra).toEqual({ description: 'Longer summary', labels: ['auth'] });
+    });
   });
 
   describe('writeTask', () => {
     it('should write a task file with frontmatter', async () => {
       const task: Task = {
+        id: 'task',
         status: 'ready',
         title: 'Test Task',
         plan: '/plan.md',
@@ -120,6 +139,7 @@ Content`;
     // Phase 2: Edge cases
     it('should handle special characters in frontmatter values', async () => {
       const task: Task = {
+        id: 'task',
         status: 'ready',
         title: 'Fix: "auth" bug [critical] - User can\'t login',
         plan: '/path/with spaces/plan.md',
@@ -141,6 +161,7 @@ Content`;
 
     it('should handle multiline content correctly', async () => {
       const task: Task = {
+        id: 'task',
         status: 'open',
         title: 'Multiline Task',
         content: 'Line 1\nLine 2\nLine 3',
@@ -154,9 +175,74 @@ Content`;
         expect.stringContaining('Line 1\nLine 2\nLine 3')
       );
     });
+
+    it('should write extra fields after managed fields', async () => {
+      const task: Task = {
+        id: 'task',
+        status: 'open',
+        title: 'Extra Task',
+        extra: { description: 'Summary', priority: 2 },
+        content: 'Body',
+        path: '/path/to/task.md'
+      };
+
+      await writeTask(task);
+
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        '/path/to/task.md',
+        '---\nstatus: open\ntitle: Extra Task\ndescription: Summary\npriority: 2\n---\nBody\n'
+      );
+    });
+
+    it('should round-trip frontmatter without losing comments, order or custom fields', async () => {
+      const original = `---
+# Imported from JIRA
+title: Round trip
+description: Keep me
+status: open # set by triage
+workingDir: api
+custom:
+  owner: alice
+---
+
+Body text
+`;
+      mockFs.readFile.mockResolvedValue(original);
+
+      const task = await parseTask('/path/to/task.md');
+      await writeTask(task);
+
+      expect(mockFs.writeFile).toHaveBeenCalledWith('/path/to/task.md', original);
+    });
+
+    it('should only rewrite changed keys', async () => {
+      mockFs.readFile.mockResolvedValue(`---
+title: Changed # keep this comment
+status: open # set by triage
+plan: plans/old.md
+---
+Body
+`);
+
+      const task = await parseTask('/path/to/task.md');
+      task.status = 'ready';
+      task.plan = undefined;
+      task.workingDir = 'web';
+      await writeTask(task);
+
+      expect(mockFs.writeFile).toHaveBeenCalledWith(
+        '/path/to/task.md',
+        '---\ntitle: Changed # keep this comment\nstatus: ready # set by triage\nworkingDir: web\n---\nBody\n'
+      );
+    });
   });
 
   describe('getNextTaskNumber', () => {
+    beforeEach(() => {
+      // No config.json, so the defaults apply
+      mockFs.readFile.mockRejectedValue(new Error('ENOENT: no such file or directory'));
+    });
+
     it('should return next task number', async () => {
       mockFs.readdir.mockImplementation((dir) => {
         const dirStr = String(dir);
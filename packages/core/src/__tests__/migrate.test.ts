@@ -0,0 +1,113 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { migrateSabinDir, getSchemaVersion, SCHEMA_VERSION } from '../migrate';
+
+describe('migrate', () => {
+  let testDir: string;
+  let sabinDir: string;
+
+  async function writeFile(relativePath: string, content: string) {
+    await fs.mkdir(path.dirname(path.join(sabinDir, relativePath)), { recursive: true });
+    await fs.writeFile(path.join(sabinDir, relativePath), content);
+  }
+
+  async function readConfig() {
+    return JSON.parse(await fs.readFile(path.join(sabinDir, 'config.json'), 'utf8'));
+  }
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+    sabinDir = path.join(testDir, '.sabin');
+    await fs.mkdir(sabinDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('migrateSabinDir', () => {
+    beforeEach(async () => {
+      await writeFile('tickets/open/TICKET-0001.md', '---\nstatus: open\ntitle: Open ticket\n---\n\nBody\n');
+      await writeFile('tickets/resolved/TICKET-0002.md', '---\nstatus: resolved\ntitle: Resolved ticket\n---\n');
+      await writeFile('TODO.md', '# TODO\n\n- Keep me\n');
+    });
+
+    it('should move the legacy tickets layout into tasks/', async () => {
+      const result = await migrateSabinDir(sabinDir);
+
+      expect(result).toMatchObject({ fromVersion: 0, toVersion: SCHEMA_VERSION, skipped: [] });
+      expect(await fs.readFile(path.join(sabinDir, 'tasks', 'open', 'TICKET-0001.md'), 'utf8')).toContain('Body');
+      expect(await fs.readFile(path.join(sabinDir, 'tasks', 'completed', 'TICKET-0002.md'), 'utf8')).toContain('status: completed');
+      await expect(fs.access(path.join(sabinDir, 'tickets'))).rejects.toThrow();
+      await fs.access(path.join(sabinDir, 'plans'));
+      expect(await fs.readFile(path.join(sabinDir, 'TODO.md'), 'utf8')).toContain('- Keep me');
+      expect(await readConfig()).toEqual({ projectPrefix: 'TICKET', taskNumberPadding: 4, schemaVersion: SCHEMA_VERSION });
+    });
+
+    it('should only report the steps in a dry run', async () => {
+      const result = await migrateSabinDir(sabinDir, { dryRun: true });
+
+      expect(result.steps.map(s => s.description)).toEqual(expect.arrayContaining([
+        'Create config.json with prefix TICKET',
+        'Move tickets/open/TICKET-0001.md to tasks/open/',
+        'Move tickets/resolved/TICKET-0002.md to tasks/completed/ (status resolved -> completed)',
+        `Record schemaVersion ${SCHEMA_VERSION} in config.json`
+      ]));
+      expect(await fs.readdir(sabinDir)).toEqual(expect.arrayContaining(['tickets', 'TODO.md']));
+      expect(await fs.readdir(sabinDir)).not.toContain('tasks');
+    });
+
+    it('should leave legacy files whose ID is taken in place', async () => {
+      await writeFile('tasks/open/TICKET-0001.md', '---\nstatus: open\ntitle: Newer\n---\n');
+
+      const result = await migrateSabinDir(sabinDir);
+
+      expect(result.skipped).toEqual([expect.objectContaining({ path: path.join(sabinDir, 'tickets', 'open', 'TICKET-0001.md') })]);
+      expect(await fs.readFile(path.join(sabinDir, 'tasks', 'open', 'TICKET-0001.md'), 'utf8')).toContain('Newer');
+      expect(await fs.readdir(path.join(sabinDir, 'tickets', 'open'))).toEqual(['TICKET-0001.md']);
+    });
+
+    it('should finish the migration on a later run once collisions are resolved', async () => {
+      await writeFile('tasks/open/TICKET-0001.md', '---\nstatus: open\ntitle: Newer\n---\n');
+
+      const first = await migrateSabinDir(sabinDir);
+
+      expect(first.toVersion).toBe(0);
+      expect(await getSchemaVersion(sabinDir)).toBe(0);
+      expect(await readConfig()).toEqual({ projectPrefix: 'TICKET', taskNumberPadding: 4 });
+
+      // Still taken, so still skipped
+      expect((await migrateSabinDir(sabinDir)).skipped).toHaveLength(1);
+
+      await fs.rename(path.join(sabinDir, 'tasks', 'open', 'TICKET-0001.md'), path.join(sabinDir, 'tasks', 'open', 'TICKET-0003.md'));
+      const last = await migrateSabinDir(sabinDir);
+
+      expect(last).toMatchObject({ fromVersion: 0, toVersion: SCHEMA_VERSION, skipped: [] });
+      expect(await fs.readFile(path.join(sabinDir, 'tasks', 'open', 'TICKET-0001.md'), 'utf8')).toContain('Open ticket');
+      await expect(fs.access(path.join(sabinDir, 'tickets'))).rejects.toThrow();
+      expect(await getSchemaVersion(sabinDir)).toBe(SCHEMA_VERSION);
+    });
+  });
+
+  it('should convert legacy statuses in the current layout and keep the config', async () => {
+    await writeFile('config.json', JSON.stringify({ projectPrefix: 'API', taskNumberPadding: 3 }));
+    await writeFile('tasks/open/API-001.md', '---\nstatus: resolved\ntitle: Done long ago\n---\n');
+    await writeFile('tasks/open/API-002.md', '---\nstatus: ready\ntitle: Untouched\n---\n');
+
+    const result = await migrateSabinDir(sabinDir);
+
+    expect(result.steps.map(s => s.description)).toContain('Move tasks/open/API-001.md to tasks/completed/ (status resolved -> completed)');
+    expect(await fs.readdir(path.join(sabinDir, 'tasks', 'open'))).toEqual(['API-002.md']);
+    expect(await readConfig()).toEqual({ projectPrefix: 'API', taskNumberPadding: 3, schemaVersion: SCHEMA_VERSION });
+    expect(await getSchemaVersion(sabinDir)).toBe(SCHEMA_VERSION);
+
+    expect((await migrateSabinDir(sabinDir)).steps).toEqual([]);
+  });
+
+  it('should refuse layouts newer than this version supports', async () => {
+    await writeFile('config.json', JSON.stringify({ projectPrefix: 'TASK', taskNumberPadding: 4, schemaVersion: SCHEMA_VERSION + 1 }));
+
+    await expect(migrateSabinDir(sabinDir)).rejects.toThrow(expect.objectContaining({ code: 'UNSUPPORTED_SCHEMA_VERSION' }));
+  });
+});
@@ -0,0 +1,48 @@
+import path from 'path';
+import { getPlanFileName, formatPlanLink, renderPlanTemplate } from '../plans';
+import { Task } from '../types';
+
+describe('plans', () => {
+  const task = (id: string, title: string): Task =>
+    ({ id, status: 'open', title, content: '', path: `/tasks/${id}.md` });
+
+  describe('getPlanFileName', () => {
+    it('should name plans after the task ID and title', () => {
+      expect(getPlanFileName(task('TASK-0001', 'Add login page!'))).toBe('TASK-0001-add-login-page.md');
+      expect(getPlanFileName(task('JIRA-12', '  Über — fix: "cache"  '))).toBe('JIRA-12-ber-fix-cache.md');
+      expect(getPlanFileName(task('TASK-0002', '???'))).toBe('TASK-0002.md');
+    });
+
+    it('should keep long titles short', () => {
+      const name = getPlanFileName(task('TASK-0001', 'word '.repeat(30)));
+
+      expect(name.length).toBeLessThanOrEqual('TASK-0001-'.length + 50 + '.md'.length);
+      expect(name).toMatch(/^TASK-0001-word(-word)*\.md$/);
+    });
+  });
+
+  describe('formatPlanLink', () => {
+    it('should format links relative to the project root', () => {
+      const sabinDir = path.join('/work', 'project', '.sabin');
+
+      expect(formatPlanLink(sabinDir, path.join(sabinDir, 'plans', 'x.md'))).toBe('.sabin/plans/x.md');
+      expect(formatPlanLink(sabinDir, '/work/project/docs/y.md')).toBe('docs/y.md');
+    });
+  });
+
+  describe('renderPlanTemplate', () => {
+    it('should include the standard sections', () => {
+      const plan = renderPlanTemplate(task('TASK-0001', 'Add login'));
+      const headings = plan.split('\n').filter(line => line.startsWith('## '));
+
+      expect(plan.startsWith('# Implementation Plan: Add login (TASK-0001)\n')).toBe(true);
+      expect(headings).toEqual([
+        '## Overview',
+        '## Current State',
+        '## Desired End State',
+        '## Phases',
+        '## Success Criteria'
+      ]);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { getPriorityRank, comparePriority, findNextTask } from '../priority';
+import { Task } from '../types';
+
+function makeTask(id: string, fields: Partial<Task> = {}): Task {
+  return { id, status: 'ready', title: id, content: '', path: `/tasks/${id}.md`, ...fields };
+}
+
+describe('priority', () => {
+  describe('getPriorityRank', () => {
+    it('should rank names, P-numbers and numbers on one scale', () => {
+      expect(getPriorityRank(makeTask('A', { extra: { priority: 'critical' } }))).toBe(0);
+      expect(getPriorityRank(makeTask('A', { extra: { priority: 'High' } }))).toBe(1);
+      expect(getPriorityRank(makeTask('A', { extra: { priority: 'P3' } }))).toBe(3);
+      expect(getPriorityRank(makeTask('A', { extra: { priority: 0 } }))).toBe(0);
+    });
+
+    it('should rank missing and unknown priorities as medium', () => {
+      expect(getPriorityRank(makeTask('A'))).toBe(2);
+      expect(getPriorityRank(makeTask('A', { extra: { priority: 'someday' } }))).toBe(2);
+    });
+  });
+
+  describe('comparePriority', () => {
+    it('should order by priority, then by task number', () => {
+      const tasks = [
+        makeTask('TASK-0010'),
+        makeTask('TASK-0009', { extra: { priority: 'low' } }),
+        makeTask('TASK-0002'),
+        makeTask('TASK-0012', { extra: { priority: 'high' } })
+      ];
+
+      expect(tasks.sort(comparePriority).map(t => t.id)).toEqual(['TASK-0012', 'TASK-0002', 'TASK-0010', 'TASK-0009']);
+    });
+  });
+
+  describe('findNextTask', () => {
+    it('should skip blocked tasks, other statuses and tasks claimed elsewhere', () => {
+      const tasks = [
+        makeTask('TASK-0001', { status: 'in_progress' }),
+        makeTask('TASK-0002', { extra: { priority: 'critical' }, dependsOn: ['TASK-0001'] }),
+        makeTask('TASK-0003', { extra: { priority: 'high' }, workingDir: 'web' }),
+        makeTask('TASK-0004', { status: 'open', extra: { priority: 'critical' } }),
+        makeTask('TASK-0005'),
+        makeTask('TASK-0006', { extra: { priority: 'high' }, workingDir: 'api' })
+      ];
+
+      expect(findNextTask(tasks, { workingDir: 'api' })!.id).toBe('TASK-0006');
+      expect(findNextTask(tasks)!.id).toBe('TASK-0005');
+    });
+
+    it('should return null when nothing qualifies', () => {
+      expect(findNextTask([makeTask('TASK-0001', { status: 'open' })])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  listResearch,
+  findResearchForTask,
+  getResearchDir,
+  createResearch,
+  getResearch,
+  groupResearchByTask
+} from '../research';
+
+describe('research', () => {
+  let sabinDir: string;
+
+  async function writeNote(name: string, source: string) {
+    await fs.mkdir(getResearchDir(sabinDir), { recursive: true });
+    await fs.writeFile(path.join(getResearchDir(sabinDir), name), source);
+  }
+
+  beforeEach(async () => {
+    sabinDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(sabinDir, { recursive: true, force: true });
+  });
+
+  describe('listResearch', () => {
+    it('should return an empty list without a research directory', async () => {
+      expect(await listResearch(sabinDir)).toEqual([]);
+    });
+
+    it('should read titles from frontmatter, the first heading or the file name', async () => {
+      await writeNote('a-auth.md', '---\ntitle: Auth options\ntasks: [TASK-0001, TASK-0002]\n---\n\nBody\n');
+      await writeNote('b-cache.md', '# Caching\n\nNotes\n');
+      await writeNote('c-misc.md', 'Just text\n');
+      await writeNote('ignored.txt', 'Not a note');
+
+      const notes = await listResearch(sabinDir);
+
+      expect(notes.map(n => [n.name, n.title])).toEqual([
+        ['a-auth', 'Auth options'],
+        ['b-cache', 'Caching'],
+        ['c-misc', 'c-misc']
+      ]);
+      expect(notes[0].tasks).toEqual(['TASK-0001', 'TASK-0002']);
+      expect(notes[0].content).toBe('\nBody\n');
+    });
+  });
+
+  describe('findResearchForTask', () => {
+    it('should match notes linked in frontmatter or mentioning the ID', async () => {
+      await writeNote('linked.md', '---\ntask: TASK-0001\n---\nLinked\n');
+      await writeNote('mention.md', 'See TASK-0001 for context.\n');
+      await writeNote('other.md', 'About TASK-00012 and TASK-0001-old\n');
+
+      const notes = await findResearchForTask(sabinDir, 'TASK-0001');
+
+      expect(notes.map(n => n.name)).toEqual(['linked', 'mention']);
+    });
+  });
+
+  describe('groupResearchByTask', () => {
+    it('should list the notes for each referenced task', async () => {
+      await writeNote('a.md', '---\ntasks: [TASK-0001, TASK-0002]\n---\nBody\n');
+      await writeNote('b.md', 'Mentions TASK-0002\n');
+
+      const groups = groupResearchByTask(await listResearch(sabinDir), ['TASK-0001', 'TASK-0002', 'TASK-0003']);
+
+      expect(groups.get('TASK-0001')!.map(n => n.name)).toEqual(['a']);
+      expect(groups.get('TASK-0002')!.map(n => n.name)).toEqual(['a', 'b']);
+      expect(groups.has('TASK-0003')).toBe(false);
+    });
+  });
+
+  describe('createResearch', () => {
+    it('should write a note named after the topic and linked to tasks', async () => {
+      const note = await createResearch(sabinDir, 'OAuth providers', ['TASK-0001']);
+
+      expect(note.path).toBe(path.join(getResearchDir(sabinDir), 'oauth-providers.md'));
+      const [read] = await listResearch(sabinDir);
+      expect(read.title).toBe('OAuth providers');
+      expect(read.tasks).toEqual(['TASK-0001']);
+      expect(read.content).toContain('# OAuth providers');
+      expect(read.content).toContain('## Findings');
+      expect(await fs.readFile(note.path, 'utf8')).toMatch(/^created: '?\d{4}-\d{2}-\d{2}'?$/m);
+    });
+
+    it('should refuse to overwrite an existing note', async () => {
+      await createResearch(sabinDir, 'Caching');
+
+      await expect(createResearch(sabinDir, 'caching')).rejects.toMatchObject({ code: 'RESEARCH_ALREADY_EXISTS' });
+    });
+
+    it('should reject topics without letters or digits', async () => {
+      await expect(createResearch(sabinDir, '???')).rejects.toMatchObject({ code: 'INVALID_RESEARCH_TOPIC' });
+    });
+  });
+
+  describe('getResearch', () => {
+    it('should find a note by name or path', async () => {
+      const note = await createResearch(sabinDir, 'Caching');
+
+      expect((await getResearch(sabinDir, 'caching')).path).toBe(note.path);
+      expect((await getResearch(sabinDir, 'caching.md')).path).toBe(note.path);
+      expect((await getResearch(sabinDir, note.path)).path).toBe(note.path);
+      await expect(getResearch(sabinDir, 'missing')).rejects.toMatchObject({ code: 'RESEARCH_NOT_FOUND' });
+    });
+  });
+});
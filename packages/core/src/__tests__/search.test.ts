@@ -0,0 +1,52 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { searchTasks } from '../search';
+import { Task } from '../types';
+
+describe('searchTasks', () => {
+  let sabinDir: string;
+
+  const task = (id: string, title: string, content: string, plan?: string): Task =>
+    ({ id, status: 'open', title, content, plan, path: `/tasks/${id}.md` });
+
+  beforeEach(async () => {
+    sabinDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+    await fs.mkdir(path.join(sabinDir, 'plans'));
+    await fs.writeFile(path.join(sabinDir, 'plans', 'cache.md'), '# Plan\n\n## Phases\n- Add a Redis cache\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(sabinDir, { recursive: true, force: true });
+  });
+
+  it('should find matches in titles, bodies and plans with highlights', async () => {
+    const results = await searchTasks([
+      task('TASK-0001', 'Speed up pages', 'Nothing here\nMaybe a cache, then another CACHE', 'plans/cache.md'),
+      task('TASK-0002', 'Cache invalidation', ''),
+      task('TASK-0003', 'Unrelated', 'No match')
+    ], 'cache', { sabinDir });
+
+    expect(results.map(r => r.task.id)).toEqual(['TASK-0002', 'TASK-0001']);
+    expect(results[1].matches).toEqual([
+      { source: 'content', line: 2, snippet: 'Maybe a cache, then another CACHE', highlights: [[8, 13], [28, 33]] },
+      { source: 'plan', line: 4, snippet: '- Add a Redis cache', highlights: [[14, 19]] }
+    ]);
+  });
+
+  it('should shorten long lines around the first match', async () => {
+    const long = `${'a'.repeat(60)} needle ${'b'.repeat(60)}`;
+
+    const [result] = await searchTasks([task('TASK-0001', 'Title', long)], 'needle', { context: 5 });
+
+    expect(result.matches[0].snippet).toBe('…aaaa needle bbbb…');
+    expect(result.matches[0].highlights).toEqual([[6, 12]]);
+  });
+
+  it('should skip plans without a sabinDir and return nothing for empty text', async () => {
+    const tasks = [task('TASK-0001', 'Title', '', 'plans/cache.md')];
+
+    expect(await searchTasks(tasks, 'redis')).toEqual([]);
+    expect(await searchTasks(tasks, '  ', { sabinDir })).toEqual([]);
+  });
+});
@@ -0,0 +1,121 @@
+import { computeFlowStats, getWeekStart } from '../stats';
+import { HistoryEntry } from '../history';
+import { Task } from '../types';
+
+function makeTask(id: string, fields: Partial<Task> = {}): Task {
+  return { id, status: 'open', title: id, content: '', path: `/tasks/${id}.md`, ...fields };
+}
+
+function change(taskId: string, timestamp: string, from: string | null, to: string): HistoryEntry {
+  return { taskId, timestamp, from, to };
+}
+
+describe('stats', () => {
+  // TASK-0001: created Mon 5 Oct, 2 days in progress, 1 day in review, completed Fri 9 Oct
+  // TASK-0002: created Mon 12 Oct, 4 hours in progress, completed Mon 12 Oct
+  const history = [
+    change('TASK-0001', '2026-10-05T09:00:00.000Z', null, 'open'),
+    change('TASK-0001', '2026-10-06T09:00:00.000Z', 'open', 'in_progress'),
+    change('TASK-0001', '2026-10-08T09:00:00.000Z', 'in_progress', 'review'),
+    change('TASK-0001', '2026-10-09T09:00:00.000Z', 'review', 'completed'),
+    change('TASK-0002', '2026-10-12T09:00:00.000Z', null, 'in_progress'),
+    change('TASK-0002', '2026-10-12T13:00:00.000Z', 'in_progress', 'completed')
+  ];
+  const tasks = [
+    makeTask('TASK-0001', { status: 'completed' }),
+    makeTask('TASK-0002', { status: 'completed' }),
+    makeTask('TASK-0003', { status: 'in_progress', workingDir: 'api' }),
+    makeTask('TASK-0004', { status: 'review', workingDir: 'api' }),
+    makeTask('TASK-0005', { status: 'ready' }),
+    makeTask('TASK-0006', { status: 'open' })
+  ];
+
+  describe('computeFlowStats', () => {
+    it('should measure lead time from creation to completion', () => {
+      const stats = computeFlowStats(tasks, history);
+
+      expect(stats.leadTime).toEqual({ count: 2, averageHours: 50, medianHours: 50 });
+    });
+
+    it('should measure time spent in each status', () => {
+      const stats = computeFlowStats(tasks, history);
+
+      expect(stats.cycleTime.map(s => s.status)).toEqual(['open', 'ready', 'in_progress', 'review']);
+      expect(stats.cycleTime.find(s => s.status === 'in_progress')).toMatchObject({ count: 2, averageHours: 26, medianHours: 26 });
+      expect(stats.cycleTime.find(s => s.status === 'review')).toMatchObject({ count: 1, averageHours: 24 });
+      expect(stats.cycleTime.find(s => s.status === 'ready')).toMatchObject({ count: 0, averageHours: null });
+    });
+
+    it('should count completions per week', () => {
+      const stats = computeFlowStats(tasks, history);
+
+      expect(stats.throughput).toEqual([
+        { week: '2026-10-05', completed: 1 },
+        { week: '2026-10-12', completed: 1 }
+      ]);
+    });
+
+    it('should only count what ended in the period', () => {
+      const stats = computeFlowStats(tasks, history, {
+        since: new Date('2026-10-10T00:00:00.000Z'),
+        until: new Date('2026-10-25T00:00:00.000Z')
+      });
+
+      expect(stats.leadTime).toEqual({ count: 1, averageHours: 4, medianHours: 4 });
+      expect(stats.cycleTime.find(s => s.status === 'review')?.count).toBe(0);
+      expect(stats.throughput).toEqual([
+        { week: '2026-10-05', completed: 0 },
+        { week: '2026-10-12', completed: 1 },
+        { week: '2026-10-19', completed: 0 }
+      ]);
+    });
+
+    it('should count work in progress per working directory', () => {
+      const stats = computeFlowStats(tasks, history);
+
+      expect(stats.wip).toEqual([
+        { workingDir: 'api', count: 2, byStatus: { in_progress: 1, review: 1 } },
+        { workingDir: null, count: 1, byStatus: { ready: 1 } }
+      ]);
+    });
+
+    it('should fall back to the given completion times for tasks without history', () => {
+      const stats = computeFlowStats([makeTask('TASK-0007', { status: 'completed' })], [], {
+        completedAt: { 'TASK-0007': '2026-10-14T10:00:00.000Z' }
+      });
+
+      expect(stats.throughput).toEqual([{ week: '2026-10-12', completed: 1 }]);
+      expect(stats.leadTime.count).toBe(0);
+    });
+
+    it('should not count tasks that were reopened after completion', () => {
+      const stats = computeFlowStats([makeTask('TASK-0001', { status: 'review' })], history.slice(0, 4));
+
+      expect(stats.throughput).toEqual([]);
+      expect(stats.leadTime.count).toBe(0);
+    });
+
+    it('should leave out time spent archived or in the trash', () => {
+      const removed = (timestamp: string, action: 'archive' | 'delete' | 'restore'): HistoryEntry =>
+        ({ taskId: 'TASK-0003', timestamp, from: 'in_progress', to: 'in_progress', action });
+      const stats = computeFlowStats([], [
+        change('TASK-0003', '2026-10-05T09:00:00.000Z', null, 'in_progress'),
+        removed('2026-10-05T11:00:00.000Z', 'delete'),
+        removed('2026-10-07T09:00:00.000Z', 'restore'),
+        change('TASK-0003', '2026-10-07T10:00:00.000Z', 'in_progress', 'completed'),
+        removed('2026-10-08T09:00:00.000Z', 'archive')
+      ]);
+
+      expect(stats.cycleTime.find(s => s.status === 'in_progress')).toMatchObject({ count: 1, averageHours: 3 });
+      expect(stats.throughput).toEqual([{ week: '2026-10-05', completed: 1 }]);
+      expect(stats.leadTime).toMatchObject({ count: 1, averageHours: 49 });
+    });
+  });
+
+  describe('getWeekStart', () => {
+    it('should return the Monday of the week', () => {
+      expect(getWeekStart(Date.parse('2026-10-18T23:00:00.000Z'))).toBe('2026-10-12');
+      expect(getWeekStart(Date.parse('2026-10-19T00:00:00.000Z'))).toBe('2026-10-19');
+    });
+  });
+});
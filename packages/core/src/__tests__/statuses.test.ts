@@ -0,0 +1,63 @@
+import {
+  DEFAULT_STATUSES,
+  getStatuses,
+  getStatusDefinition,
+  getStatusFolders
+} from '../statuses';
+import { SabinConfig } from '../types';
+
+describe('statuses', () => {
+  const customConfig: SabinConfig = {
+    projectPrefix: 'TASK',
+    taskNumberPadding: 4,
+    statuses: [
+      { id: 'open', name: 'Open', folder: 'open' },
+      { id: 'blocked', name: 'Blocked', color: 'red', icon: 'error', folder: 'open' },
+      { id: 'qa', name: 'QA', folder: 'open' },
+      { id: 'completed', name: 'Done', folder: 'completed' },
+      { id: 'wontfix', name: "Won't Fix", folder: 'archived' }
+    ]
+  };
+
+  describe('getStatuses', () => {
+    it('should return default statuses when config has none', () => {
+      const statuses = getStatuses({ projectPrefix: 'TASK', taskNumberPadding: 4 });
+
+      expect(statuses.map(s => s.id)).toEqual(['open', 'ready', 'in_progress', 'review', 'completed']);
+    });
+
+    it('should return default statuses when config is omitted', () => {
+      expect(getStatuses()).toBe(DEFAULT_STATUSES);
+    });
+
+    it('should fall back to defaults for an empty list', () => {
+      expect(getStatuses({ projectPrefix: 'TASK', taskNumberPadding: 4, statuses: [] })).toBe(DEFAULT_STATUSES);
+    });
+
+    it('should return configured statuses in order', () => {
+      expect(getStatuses(customConfig).map(s => s.id)).toEqual(['open', 'blocked', 'qa', 'completed', 'wontfix']);
+    });
+  });
+
+  describe('getStatusDefinition', () => {
+    it('should find a configured status', () => {
+      expect(getStatusDefinition('blocked', customConfig)).toEqual(
+        expect.objectContaining({ name: 'Blocked', color: 'red' })
+      );
+    });
+
+    it('should return undefined for unknown statuses', () => {
+      expect(getStatusDefinition('ready', customConfig)).toBeUndefined();
+    });
+  });
+
+  describe('getStatusFolders', () => {
+    it('should return open and completed by default', () => {
+      expect(getStatusFolders()).toEqual(['open', 'completed']);
+    });
+
+    it('should return distinct folders in status order', () => {
+      expect(getStatusFolders(customConfig)).toEqual(['open', 'completed', 'archived']);
+    });
+  });
+});
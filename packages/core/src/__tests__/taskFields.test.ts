@@ -0,0 +1,77 @@
+import { setTaskField, unsetTaskField, validateTaskFields } from '../taskFields';
+import { InvalidTaskFieldError, InvalidTaskStatusError } from '../errors';
+import { Task } from '../types';
+
+describe('task fields', () => {
+  let task: Task;
+
+  beforeEach(() => {
+    task = {
+      id: 'TASK-0001',
+      status: 'open',
+      title: 'Original',
+      workingDir: 'api',
+      extra: { priority: 'high' },
+      content: '',
+      path: '/tmp/TASK-0001.md'
+    };
+  });
+
+  describe('setTaskField', () => {
+    it('should set known fields', () => {
+      setTaskField(task, 'title', ' New title ');
+      setTaskField(task, 'plan', 'plans/x.md');
+      setTaskField(task, 'parent', 'TASK-0002');
+      setTaskField(task, 'dependsOn', 'TASK-0003, TASK-0004,TASK-0003');
+
+      expect(task).toMatchObject({
+        title: 'New title',
+        plan: 'plans/x.md',
+        parent: 'TASK-0002',
+        dependsOn: ['TASK-0003', 'TASK-0004']
+      });
+    });
+
+    it('should parse other fields as YAML scalars', () => {
+      setTaskField(task, 'estimate', '3');
+      setTaskField(task, 'urgent', 'true');
+      setTaskField(task, 'note', 'key: value: broken');
+      setTaskField(task, 'empty', '');
+
+      expect(task.extra).toEqual({ priority: 'high', estimate: 3, urgent: true, note: 'key: value: broken', empty: '' });
+    });
+
+    it('should reject the ID, the status, empty values and bad field names', () => {
+      expect(() => setTaskField(task, 'id', 'TASK-0009')).toThrow(InvalidTaskFieldError);
+      expect(() => setTaskField(task, 'status', 'ready')).toThrow('use "sabin task update" to change the status');
+      expect(() => setTaskField(task, 'title', '  ')).toThrow('Cannot edit field "title": value cannot be empty');
+      expect(() => setTaskField(task, 'dependsOn', ' , ')).toThrow(InvalidTaskFieldError);
+      expect(() => setTaskField(task, 'bad key', 'x')).toThrow('not a valid field name');
+    });
+  });
+
+  describe('unsetTaskField', () => {
+    it('should remove optional and extra fields', () => {
+      unsetTaskField(task, 'workingDir');
+      unsetTaskField(task, 'priority');
+      unsetTaskField(task, 'missing');
+
+      expect(task.workingDir).toBeUndefined();
+      expect(task.extra).toBeUndefined();
+    });
+
+    it('should refuse to remove required fields', () => {
+      for (const field of ['id', 'status', 'title']) {
+        expect(() => unsetTaskField(task, field)).toThrow('the field is required');
+      }
+    });
+  });
+
+  describe('validateTaskFields', () => {
+    it('should require a title and a configured status', () => {
+      expect(() => validateTaskFields(task)).not.toThrow();
+      expect(() => validateTaskFields({ ...task, title: undefined as unknown as string })).toThrow(InvalidTaskFieldError);
+      expect(() => validateTaskFields({ ...task, status: 'doing' })).toThrow(InvalidTaskStatusError);
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { resolveTaskId, replaceTaskId, assertValidTaskId } from '../taskIdResolver';
+import { AmbiguousTaskIdError } from '../errors';
+import { SabinConfig } from '../types';
+
+describe('resolveTaskId', () => {
+  const config: SabinConfig = { projectPrefix: 'TASK', taskNumberPadding: 4 };
+  const ids = ['TASK-0001', 'TASK-0010', 'TASK-0100', 'TASK-0042', 'JIRA-123', 'JIRA-1234'];
+
+  it('should return exact IDs', () => {
+    expect(resolveTaskId('TASK-0010', ids, config)).toBe('TASK-0010');
+    expect(resolveTaskId('JIRA-123', ids, config)).toBe('JIRA-123');
+  });
+
+  it('should match IDs case-insensitively', () => {
+    expect(resolveTaskId('task-0042', ids, config)).toBe('TASK-0042');
+  });
+
+  it('should expand bare numbers with the configured padding', () => {
+    expect(resolveTaskId('42', ids, config)).toBe('TASK-0042');
+    expect(resolveTaskId('1', ids, config)).toBe('TASK-0001');
+    expect(resolveTaskId('0100', ids, config)).toBe('TASK-0100');
+  });
+
+  it('should expand unpadded prefixed numbers', () => {
+    expect(resolveTaskId('TASK-1', ids, config)).toBe('TASK-0001');
+    expect(resolveTaskId('TASK-10', ids, config)).toBe('TASK-0010');
+  });
+
+  it('should treat zero-padded prefixed numbers as prefixes', () => {
+    expect(resolveTaskId('TASK-010', ids, config)).toBe('TASK-0100');
+  });
+
+  it('should respect custom prefixes and padding', () => {
+    const custom: SabinConfig = { projectPrefix: 'PROJ', taskNumberPadding: 3 };
+
+    expect(resolveTaskId('7', ['PROJ-007', 'PROJ-070'], custom)).toBe('PROJ-007');
+  });
+
+  it('should resolve unique prefixes', () => {
+    expect(resolveTaskId('TASK-004', ids, config)).toBe('TASK-0042');
+  });
+
+  it('should throw listing candidates when a prefix is ambiguous', () => {
+    expect(() => resolveTaskId('JIRA-12', ids, config))
+      .toThrow('Task ID "JIRA-12" is ambiguous. Matches: JIRA-123, JIRA-1234');
+
+    let error: unknown;
+    try {
+      resolveTaskId('TASK-00', ids, config);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(AmbiguousTaskIdError);
+    expect((error as AmbiguousTaskIdError).code).toBe('AMBIGUOUS_TASK_ID');
+    expect((error as AmbiguousTaskIdError).candidates).toEqual(['TASK-0001', 'TASK-0010', 'TASK-0042']);
+  });
+
+  it('should throw TaskNotFoundError when nothing matches', () => {
+    expect(() => resolveTaskId('99', ids, config)).toThrow('Task not found: 99');
+    expect(() => resolveTaskId('', ids, config)).toThrow(expect.objectContaining({ code: 'TASK_NOT_FOUND' }));
+  });
+});
+
+describe('replaceTaskId', () => {
+  it('should replace whole mentions only', () => {
+    const text = 'See TASK-0031, TASK-00310 and .sabin/plans/TASK-0031-login.md (after TASK-0031).';
+
+    expect(replaceTaskId(text, 'TASK-0031', 'JIRA-12345')).toBe(
+      'See JIRA-12345, TASK-00310 and .sabin/plans/TASK-0031-login.md (after JIRA-12345).'
+    );
+  });
+});
+
+describe('assertValidTaskId', () => {
+  it('should accept IDs that are plain file names', () => {
+    for (const id of ['TASK-0001', 'JIRA-123', 'gh_45', 'v1.2-fix']) {
+      expect(() => assertValidTaskId(id)).not.toThrow();
+    }
+  });
+
+  it('should reject empty IDs and IDs that could leave the task folder', () => {
+    expect(() => assertValidTaskId('')).toThrow('Task ID cannot be empty');
+    for (const id of ['../x', 'a/b', 'a\\b', '..', 'a..b', '-x', 'has space']) {
+      expect(() => assertValidTaskId(id)).toThrow(expect.objectContaining({ code: 'INVALID_TASK_ID' }));
+    }
+  });
+});
@@ -0,0 +1,54 @@
+import { parseTaskFilter, filterTasks } from '../taskQuery';
+import { InvalidFilterError, InvalidTaskStatusError } from '../errors';
+import { getDefaultConfig } from '../config';
+import { Task } from '../types';
+
+function makeTask(id: string, fields: Partial<Task>): Task {
+  return { id, status: 'open', title: `Task ${id}`, content: '', path: `/tasks/${id}.md`, ...fields };
+}
+
+describe('task filters', () => {
+  const tasks = [
+    makeTask('TASK-0001', { status: 'ready', title: 'Add auth middleware', workingDir: 'api' }),
+    makeTask('TASK-0002', { status: 'in_progress', title: 'Login page', workingDir: 'web', content: 'Uses the AUTH token' }),
+    makeTask('TASK-0003', { status: 'completed', title: 'Auth docs', workingDir: 'api', dependsOn: ['TASK-0001'] }),
+    makeTask('TASK-0004', { status: 'in_progress', title: 'Cache', workingDir: 'api', extra: { priority: 'high', labels: ['perf', 'backend'] } })
+  ];
+  const ids = (expression: string) => filterTasks(tasks, expression).map(t => t.id);
+
+  describe('parseTaskFilter', () => {
+    it('should parse fields, operators, value lists and negation', () => {
+      expect(parseTaskFilter('status:ready,in_progress -title~"login page" auth')).toEqual([
+        { field: 'status', operator: ':', values: ['ready', 'in_progress'], negated: false },
+        { field: 'title', operator: '~', values: ['login page'], negated: true },
+        { operator: '~', values: ['auth'], negated: false }
+      ]);
+      expect(parseTaskFilter('   ')).toEqual([]);
+    });
+
+    it('should reject malformed terms', () => {
+      expect(() => parseTaskFilter('status:')).toThrow(InvalidFilterError);
+      expect(() => parseTaskFilter('title~"open')).toThrow('unclosed quote');
+    });
+
+    it('should check statuses against the config when given', () => {
+      expect(() => parseTaskFilter('status:done', getDefaultConfig())).toThrow(InvalidTaskStatusError);
+      expect(() => parseTaskFilter('status~do', getDefaultConfig())).not.toThrow();
+    });
+  });
+
+  describe('filterTasks', () => {
+    it('should require every term to match', () => {
+      expect(ids('status:ready,in_progress workingDir:api')).toEqual(['TASK-0001', 'TASK-0004']);
+      expect(ids('workingDir:api title~auth -status:completed')).toEqual(['TASK-0001']);
+    });
+
+    it('should match list fields, extra fields and free text ignoring case', () => {
+      expect(ids('dependsOn:task-0001')).toEqual(['TASK-0003']);
+      expect(ids('priority:high labels:perf')).toEqual(['TASK-0004']);
+      expect(ids('auth')).toEqual(['TASK-0001', 'TASK-0002', 'TASK-0003']);
+      expect(ids('-plan~x')).toHaveLength(4);
+      expect(ids('id:TASK-0002')).toEqual(['TASK-0002']);
+    });
+  });
+});
@@ -0,0 +1,598 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { TaskRepository } from '../taskRepository';
+
+describe('TaskRepository', () => {
+  let testDir: string;
+  let sabinDir: string;
+  let repository: TaskRepository;
+
+  async function writeTaskFile(dir: string, filename: string, frontmatter: string) {
+    await fs.writeFile(
+      path.join(sabinDir, 'tasks', dir, filename),
+      `---\n${frontmatter}\n---\n\nContent\n`
+    );
+  }
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+    sabinDir = path.join(testDir, '.sabin');
+    await fs.mkdir(path.join(sabinDir, 'tasks', 'open'), { recursive: true });
+    await fs.mkdir(path.join(sabinDir, 'tasks', 'completed'), { recursive: true });
+    await fs.writeFile(
+      path.join(sabinDir, 'config.json'),
+      JSON.stringify({ projectPrefix: 'TASK', taskNumberPadding: 4 })
+    );
+    repository = new TaskRepository(sabinDir);
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('list', () => {
+    beforeEach(async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+      await writeTaskFile('open', 'TASK-0002.md', 'status: ready\ntitle: Second');
+      await writeTaskFile('completed', 'TASK-0003.md', 'status: completed\ntitle: Third');
+    });
+
+    it('should list tasks from all status folders', async () => {
+      const tasks = await repository.list();
+
+      expect(tasks.map(t => t.id).sort()).toEqual(['TASK-0001', 'TASK-0002', 'TASK-0003']);
+    });
+
+    it('should filter by status', async () => {
+      const tasks = await repository.list('ready');
+
+      expect(tasks).toHaveLength(1);
+      expect(tasks[0].title).toBe('Second');
+    });
+
+    it('should return an empty list when task folders are missing', async () => {
+      const emptyRepository = new TaskRepository(path.join(testDir, 'missing'));
+
+      expect(await emptyRepository.list()).toEqual([]);
+    });
+  });
+
+  describe('get', () => {
+    it('should return a task by exact ID', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First\nworkingDir: api');
+
+      const task = await repository.get('TASK-0001');
+
+      expect(task.id).toBe('TASK-0001');
+      expect(task.workingDir).toBe('api');
+    });
+
+    it('should resolve bare numbers and unique prefixes', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+      await writeTaskFile('completed', 'TASK-0010.md', 'status: completed\ntitle: Tenth');
+
+      expect((await repository.get('1')).title).toBe('First');
+      expect((await repository.get('TASK-001')).title).toBe('Tenth');
+      await expect(repository.get('TASK-00')).rejects.toMatchObject({ code: 'AMBIGUOUS_TASK_ID' });
+    });
+
+    it('should throw TaskNotFoundError for unknown IDs', async () => {
+      await expect(repository.get('TASK-9999')).rejects.toMatchObject({ code: 'TASK_NOT_FOUND' });
+    });
+  });
+
+  describe('create', () => {
+    it('should create a task with the next generated ID', async () => {
+      await writeTaskFile('completed', 'TASK-0004.md', 'status: completed\ntitle: Done');
+
+      const task = await repository.create({ title: 'New Task', content: 'Body' });
+
+      expect(task.id).toBe('TASK-0005');
+      expect(task.path).toBe(path.join(sabinDir, 'tasks', 'open', 'TASK-0005.md'));
+      const content = await fs.readFile(task.path, 'utf8');
+      expect(content).toContain('status: open');
+      expect(content).toContain('title: New Task');
+      expect(content).not.toContain('id:');
+    });
+
+    it('should create a task with a custom ID', async () => {
+      const task = await repository.create({ title: 'Custom', taskId: ' JIRA-123 ' });
+
+      expect(task.id).toBe('JIRA-123');
+      await expect(fs.access(task.path)).resolves.toBeUndefined();
+    });
+
+    it('should reject duplicate custom IDs in any status folder', async () => {
+      await writeTaskFile('completed', 'JIRA-123.md', 'status: completed\ntitle: Done');
+
+      await expect(repository.create({ title: 'Duplicate', taskId: 'JIRA-123' }))
+        .rejects.toThrow('Task JIRA-123 already exists in completed/');
+    });
+
+    it('should reject empty custom IDs', async () => {
+      await expect(repository.create({ title: 'Empty', taskId: '   ' }))
+        .rejects.toMatchObject({ code: 'INVALID_TASK_ID' });
+    });
+
+    it('should record the working directory for linked projects', async () => {
+      const linked = new TaskRepository(sabinDir, { workingDir: 'project-1' });
+
+      const task = await linked.create({ title: 'Linked' });
+
+      expect(task.workingDir).toBe('project-1');
+      expect(await fs.readFile(task.path, 'utf8')).toContain('workingDir: project-1');
+    });
+
+    it('should record dependencies on existing tasks', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+
+      const task = await repository.create({ title: 'Second', dependsOn: ['TASK-0001'] });
+
+      expect((await repository.get(task.id)).dependsOn).toEqual(['TASK-0001']);
+    });
+
+    it('should record the parent task', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: Epic');
+
+      const task = await repository.create({ title: 'Child', parent: 'TASK-0001' });
+
+      expect(await fs.readFile(task.path, 'utf8')).toContain('parent: TASK-0001');
+      await expect(repository.create({ title: 'Orphan', parent: 'TASK-0042' }))
+        .rejects.toMatchObject({ code: 'INVALID_PARENT' });
+    });
+
+    it('should reject dependencies on unknown tasks', async () => {
+      await expect(repository.create({ title: 'Orphan', dependsOn: ['TASK-0042'] }))
+        .rejects.toMatchObject({ code: 'UNKNOWN_DEPENDENCY' });
+    });
+  });
+
+  describe('update', () => {
+    it('should reject dependency cycles', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+      await writeTaskFile('open', 'TASK-0002.md', 'status: open\ntitle: Second\ndependsOn:\n  - TASK-0001');
+      const first = await repository.get('TASK-0001');
+
+      first.dependsOn = ['TASK-0002'];
+
+      await expect(repository.update(first)).rejects.toMatchObject({ code: 'DEPENDENCY_CYCLE' });
+    });
+  });
+
+  describe('move', () => {
+    beforeEach(async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+    });
+
+    it('should update status in place when the folder does not change', async () => {
+      const result = await repository.move('TASK-0001', 'review');
+
+      expect(result.previousStatus).toBe('open');
+      expect(result.from).toBe('open');
+      expect(result.to).toBe('open');
+      const content = await fs.readFile(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'), 'utf8');
+      expect(content).toContain('status: review');
+    });
+
+    it('should move the file to completed/ and back', async () => {
+      const completed = await repository.move('TASK-0001', 'completed');
+
+      expect(completed.task.path).toBe(path.join(sabinDir, 'tasks', 'completed', 'TASK-0001.md'));
+      await expect(fs.access(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'))).rejects.toThrow();
+
+      const reopened = await repository.move('TASK-0001', 'open');
+
+      expect(reopened.from).toBe('completed');
+      expect(reopened.task.path).toBe(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'));
+    });
+
+    it('should set workingDir when a linked project starts a task', async () => {
+      const linked = new TaskRepository(sabinDir, { workingDir: 'project-2' });
+
+      const { task } = await linked.move('TASK-0001', 'in_progress');
+
+      expect(task.workingDir).toBe('project-2');
+    });
+
+    it('should preserve custom frontmatter when moving between folders', async () => {
+      await writeTaskFile('open', 'TASK-0002.md', '# owner notes\ntitle: Second\nstatus: open\ndescription: Keep me');
+
+      const { task } = await repository.move('TASK-0002', 'completed');
+
+      const content = await fs.readFile(task.path, 'utf8');
+      expect(content).toBe('---\n# owner notes\ntitle: Second\nstatus: completed\ndescription: Keep me\n---\n\nContent\n');
+    });
+
+    it('should reject invalid statuses', async () => {
+      await expect(repository.move('TASK-0001', 'invalid')).rejects.toMatchObject({ code: 'INVALID_STATUS' });
+    });
+
+    it('should apply the default plan guards without any configured', async () => {
+      await fs.mkdir(path.join(sabinDir, 'plans'), { recursive: true });
+      await fs.writeFile(path.join(sabinDir, 'plans', 'plan.md'), '- [x] Done\n- [ ] Todo\n');
+      await writeTaskFile('open', 'TASK-0002.md', 'status: open\ntitle: Planned\nplan: plans/plan.md');
+
+      await expect(repository.move('TASK-0001', 'ready')).rejects.toThrow('task has no plan');
+      await expect(repository.move('TASK-0002', 'completed')).rejects.toThrow('plan has 1 unchecked item(s)');
+
+      const { task } = await repository.move('TASK-0002', 'completed', { force: true });
+      expect(task.status).toBe('completed');
+    });
+
+    it('should enforce configured transitions unless forced', async () => {
+      await fs.writeFile(path.join(sabinDir, 'config.json'), JSON.stringify({
+        projectPrefix: 'TASK',
+        taskNumberPadding: 4,
+        transitions: { open: ['ready'] }
+      }));
+      const configured = new TaskRepository(sabinDir);
+
+      await expect(configured.move('TASK-0001', 'completed')).rejects.toMatchObject({ code: 'INVALID_TRANSITION' });
+
+      const { task } = await configured.move('TASK-0001', 'completed', { force: true });
+      expect(task.status).toBe('completed');
+    });
+
+    it('should move files into the folder a configured status maps to', async () => {
+      await fs.writeFile(path.join(sabinDir, 'config.json'), JSON.stringify({
+        projectPrefix: 'TASK',
+        taskNumberPadding: 4,
+        statuses: [
+          { id: 'open', name: 'Open', folder: 'open' },
+          { id: 'blocked', name: 'Blocked', folder: 'open' },
+          { id: 'wontfix', name: "Won't Fix", folder: 'archived' }
+        ]
+      }));
+      const configured = new TaskRepository(sabinDir);
+
+      await configured.move('TASK-0001', 'blocked');
+      const { task, to } = await configured.move('TASK-0001', 'wontfix');
+
+      expect(to).toBe('archived');
+      expect(task.path).toBe(path.join(sabinDir, 'tasks', 'archived', 'TASK-0001.md'));
+      expect((await configured.list('wontfix')).map(t => t.id)).toEqual(['TASK-0001']);
+      await expect(configured.move('TASK-0001', 'review')).rejects.toThrow('Must be one of: open, blocked, wontfix');
+    });
+  });
+
+  describe('plans', () => {
+    beforeEach(async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: Add login');
+    });
+
+    it('should scaffold a plan and link it to the task', async () => {
+      const { task, planPath } = await repository.createPlan('1');
+
+      expect(planPath).toBe(path.join(sabinDir, 'plans', 'TASK-0001-add-login.md'));
+      expect(task.plan).toBe('.sabin/plans/TASK-0001-add-login.md');
+      expect(await fs.readFile(planPath, 'utf8')).toContain('## Desired End State');
+      expect((await repository.get('TASK-0001')).plan).toBe('.sabin/plans/TASK-0001-add-login.md');
+      expect(await repository.getPlan('TASK-0001')).toEqual({ task: expect.objectContaining({ id: 'TASK-0001' }), planPath });
+    });
+
+    it('should refuse to replace an existing plan', async () => {
+      await repository.createPlan('TASK-0001');
+
+      await expect(repository.createPlan('TASK-0001')).rejects.toThrow('Plan already exists: .sabin/plans/TASK-0001-add-login.md');
+    });
+
+    it('should link existing plan files', async () => {
+      await fs.mkdir(path.join(sabinDir, 'plans'));
+      await fs.writeFile(path.join(sabinDir, 'plans', 'shared.md'), '# Shared');
+
+      const { task } = await repository.linkPlan('TASK-0001', 'plans/shared.md');
+
+      expect(task.plan).toBe('.sabin/plans/shared.md');
+      await expect(repository.linkPlan('TASK-0001', 'plans/missing.md')).rejects.toThrow('Plan file not found: plans/missing.md');
+    });
+
+    it('should report tasks without a plan and dangling links', async () => {
+      expect(await repository.getPlan('TASK-0001')).toBeNull();
+
+      await writeTaskFile('open', 'TASK-0002.md', 'status: open\ntitle: Second\nplan: .sabin/plans/gone.md');
+      await expect(repository.getPlan('TASK-0002')).rejects.toThrow('Plan file not found: .sabin/plans/gone.md');
+    });
+  });
+
+  describe('checklists', () => {
+    beforeEach(async () => {
+      await fs.mkdir(path.join(sabinDir, 'plans'));
+      await fs.writeFile(path.join(sabinDir, 'plans', 'p.md'), '# Plan\n\n- [x] Design\n- [ ] Build\n');
+      await fs.writeFile(
+        path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'),
+        '---\nstatus: open\ntitle: Add login\nplan: .sabin/plans/p.md\n---\n\n- [ ] Ask design\n'
+      );
+    });
+
+    it('should number task body items before plan items', async () => {
+      const { items } = await repository.getChecklist('1');
+
+      expect(items.map(i => [i.index, i.source, i.text, i.checked])).toEqual([
+        [0, 'task', 'Ask design', false],
+        [1, 'plan', 'Design', true],
+        [2, 'plan', 'Build', false]
+      ]);
+    });
+
+    it('should check and uncheck items in the file they belong to', async () => {
+      await repository.setChecklistItem('TASK-0001', 0, true);
+      await repository.setChecklistItem('TASK-0001', 1, false);
+      await repository.setChecklistItem('TASK-0001', 2, true);
+
+      expect((await repository.get('TASK-0001')).content).toBe('\n- [x] Ask design\n');
+      expect(await fs.readFile(path.join(sabinDir, 'plans', 'p.md'), 'utf8')).toBe('# Plan\n\n- [ ] Design\n- [x] Build\n');
+    });
+
+    it('should reject indexes past the last item', async () => {
+      await expect(repository.setChecklistItem('TASK-0001', 3, true))
+        .rejects.toThrow('Checklist item not found: #4 (the checklist has 3 item(s))');
+    });
+  });
+
+  describe('next', () => {
+    beforeEach(async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: ready\ntitle: First');
+      await writeTaskFile('open', 'TASK-0002.md', 'status: ready\ntitle: Urgent\npriority: high');
+    });
+
+    it('should pick the most urgent ready task without changing it', async () => {
+      const task = await repository.next();
+
+      expect(task!.id).toBe('TASK-0002');
+      expect((await repository.get('TASK-0002')).status).toBe('ready');
+    });
+
+    it('should start the picked task and claim it for the working directory', async () => {
+      const linked = new TaskRepository(sabinDir, { workingDir: 'api', actor: 'agent' });
+
+      const task = await linked.next({ start: true });
+
+      expect(task!.status).toBe('in_progress');
+      expect((await linked.get('TASK-0002')).workingDir).toBe('api');
+      expect((await new TaskRepository(sabinDir, { workingDir: 'web' }).next())!.id).toBe('TASK-0001');
+    });
+
+    it('should pick from and start in the statuses the config names', async () => {
+      await fs.writeFile(path.join(sabinDir, 'config.json'), JSON.stringify({
+        projectPrefix: 'TASK',
+        taskNumberPadding: 4,
+        statuses: [
+          { id: 'todo', name: 'To do', folder: 'open' },
+          { id: 'doing', name: 'Doing', folder: 'open' },
+          { id: 'done', name: 'Done', folder: 'completed' }
+        ],
+        readyStatus: 'todo',
+        inProgressStatus: 'doing'
+      }));
+      await writeTaskFile('open', 'TASK-0003.md', 'status: todo\ntitle: Custom');
+      const linked = new TaskRepository(sabinDir, { workingDir: 'api' });
+
+      const task = await linked.next({ start: true });
+
+      expect(task!.id).toBe('TASK-0003');
+      expect(task!.status).toBe('doing');
+      expect(task!.workingDir).toBe('api');
+      expect(await linked.next()).toBeNull();
+    });
+
+    it('should return null when no task is ready', async () => {
+      await repository.move('TASK-0001', 'completed', { force: true });
+      await repository.move('TASK-0002', 'completed', { force: true });
+
+      expect(await repository.next({ start: true })).toBeNull();
+    });
+  });
+
+  describe('extractTodo', () => {
+    it('should create a task from an item and remove it from TODO.md', async () => {
+      await fs.writeFile(path.join(sabinDir, 'TODO.md'), '# TODO\n\n- Implement feature X\n    - Add API endpoint\n    - Add tests\n- Later\n');
+
+      const task = await repository.extractTodo(1);
+
+      expect(task.id).toBe('TASK-0001');
+      expect(task.title).toBe('Implement feature X');
+      expect((await repository.get('TASK-0001')).content).toBe('- Add API endpoint\n- Add tests\n');
+      expect(await fs.readFile(path.join(sabinDir, 'TODO.md'), 'utf8')).toBe('# TODO\n\n- Later\n');
+    });
+
+    it('should reject numbers with no item', async () => {
+      await expect(repository.extractTodo(3)).rejects.toMatchObject({ code: 'TODO_ITEM_NOT_FOUND' });
+      expect(await repository.list()).toEqual([]);
+    });
+  });
+
+  describe('history', () => {
+    it('should record creation and every status change', async () => {
+      const linked = new TaskRepository(sabinDir, { workingDir: 'api', actor: 'alice' });
+
+      const task = await linked.create({ title: 'Tracked' });
+      await linked.move(task.id, 'in_progress');
+      await linked.move(task.id, 'in_progress');
+      await linked.move(task.id, 'review');
+
+      const history = await linked.getHistory(task.id);
+      expect(history.map(e => [e.from, e.to])).toEqual([
+        [null, 'open'],
+        ['open', 'in_progress'],
+        ['in_progress', 'review']
+      ]);
+      expect(history[1]).toMatchObject({ taskId: task.id, actor: 'alice', workingDir: 'api' });
+      expect(Date.parse(history[1].timestamp)).not.toBeNaN();
+    });
+  });
+
+  describe('rename', () => {
+    beforeEach(async () => {
+      await writeTaskFile('open', 'TASK-0031.md', 'status: open\ntitle: Login\nplan: .sabin/plans/TASK-0031-login.md');
+      await fs.writeFile(
+        path.join(sabinDir, 'tasks', 'open', 'TASK-0032.md'),
+        '---\nstatus: open\ntitle: Logout\n# Blocked on login\ndependsOn:\n  - TASK-0031\nparent: TASK-0031\n---\n\nFollows TASK-0031.\n'
+      );
+      await fs.mkdir(path.join(sabinDir, 'plans'));
+      await fs.writeFile(path.join(sabinDir, 'plans', 'TASK-0031-login.md'), '# Implementation Plan: Login (TASK-0031)\n');
+    });
+
+    it('should rename the file and rewrite references to the old ID', async () => {
+      const result = await repository.rename('31', 'JIRA-12345');
+
+      expect(result.previousId).toBe('TASK-0031');
+      expect(result.task).toMatchObject({ id: 'JIRA-12345', plan: '.sabin/plans/TASK-0031-login.md' });
+      expect(result.updated.sort()).toEqual([
+        path.join(sabinDir, 'plans', 'TASK-0031-login.md'),
+        path.join(sabinDir, 'tasks', 'open', 'TASK-0032.md')
+      ]);
+      await expect(repository.get('TASK-0031')).rejects.toThrow('Task not found');
+
+      const dependent = await repository.get('TASK-0032');
+      expect(dependent).toMatchObject({ dependsOn: ['JIRA-12345'], parent: 'JIRA-12345' });
+      expect(dependent.content).toContain('Follows JIRA-12345.');
+      expect(dependent.rawFrontmatter).toContain('# Blocked on login');
+      expect(await fs.readFile(path.join(sabinDir, 'plans', 'TASK-0031-login.md'), 'utf8')).toContain('(JIRA-12345)');
+    });
+
+    it('should move the status history to the new ID', async () => {
+      const task = await repository.create({ title: 'Tracked' });
+      await repository.rename(task.id, 'JIRA-1');
+
+      expect(await repository.getHistory(task.id)).toEqual([]);
+      expect(await repository.getHistory('JIRA-1')).toEqual([expect.objectContaining({ from: null, to: 'open' })]);
+    });
+
+    it('should refuse IDs used in any status folder or bin', async () => {
+      await writeTaskFile('completed', 'JIRA-1.md', 'status: completed\ntitle: Done');
+      await fs.mkdir(path.join(sabinDir, 'archive'));
+      await fs.writeFile(path.join(sabinDir, 'archive', 'JIRA-2.md'), '---\nstatus: open\ntitle: Old\n---\n');
+
+      await expect(repository.rename('TASK-0031', 'JIRA-1')).rejects.toThrow('Task JIRA-1 already exists in completed/');
+      await expect(repository.rename('TASK-0031', 'JIRA-2')).rejects.toThrow('Task JIRA-2 already exists in archive/');
+      await expect(repository.rename('TASK-0031', ' ')).rejects.toThrow(expect.objectContaining({ code: 'INVALID_TASK_ID' }));
+      expect((await repository.get('TASK-0031')).title).toBe('Login');
+    });
+
+    it('should refuse IDs that are not safe as file names', async () => {
+      for (const id of ['../../escaped', 'nested/ID', 'a\\b', '..', 'TASK..1', '.hidden']) {
+        await expect(repository.rename('TASK-0031', id)).rejects.toThrow(expect.objectContaining({ code: 'INVALID_TASK_ID' }));
+      }
+
+      expect((await repository.list()).map(t => t.id)).toContain('TASK-0031');
+      await expect(fs.access(path.join(sabinDir, 'escaped.md'))).rejects.toThrow();
+      await expect(repository.create({ title: 'Escape', taskId: '../escaped' })).rejects.toThrow('Invalid task ID: "../escaped"');
+    });
+  });
+
+  describe('getStats', () => {
+    it('should count completed tasks without history as finished when their file changed', async () => {
+      await writeTaskFile('completed', 'TASK-0001.md', 'status: completed\ntitle: Legacy');
+      const started = await repository.create({ title: 'Started' });
+      await repository.move(started.id, 'in_progress');
+
+      const stats = await repository.getStats();
+
+      expect(stats.throughput.reduce((sum, week) => sum + week.completed, 0)).toBe(1);
+      expect(stats.leadTime.count).toBe(0);
+      expect(stats.wip).toEqual([{ workingDir: null, count: 1, byStatus: { in_progress: 1 } }]);
+    });
+  });
+
+  describe('delete / archive / restore', () => {
+    beforeEach(() => {
+      repository = new TaskRepository(sabinDir, { actor: 'alice', workingDir: 'api' });
+    });
+
+    it('should move deleted tasks to the trash with metadata', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: ready\ntitle: First');
+
+      const removed = await repository.delete('1');
+
+      expect(await repository.list()).toEqual([]);
+      expect(removed.task.path).toBe(path.join(sabinDir, 'trash', 'TASK-0001.md'));
+      const metadata = JSON.parse(await fs.readFile(path.join(sabinDir, 'trash', 'TASK-0001.json'), 'utf8'));
+      expect(metadata).toMatchObject({ taskId: 'TASK-0001', folder: 'open', status: 'ready', actor: 'alice', workingDir: 'api' });
+      expect(Date.parse(metadata.removedAt)).not.toBeNaN();
+    });
+
+    it('should list archived and trashed tasks', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+      await writeTaskFile('completed', 'TASK-0002.md', 'status: completed\ntitle: Second');
+
+      await repository.delete('TASK-0001');
+      await repository.archive('TASK-0002');
+
+      const removed = await repository.listRemoved();
+      expect(removed.map(r => [r.bin, r.task.id, r.metadata?.folder])).toEqual([
+        ['trash', 'TASK-0001', 'open'],
+        ['archive', 'TASK-0002', 'completed']
+      ]);
+      expect((await repository.listRemoved('archive')).map(r => r.task.id)).toEqual(['TASK-0002']);
+    });
+
+    it('should restore tasks to the folder their status maps to', async () => {
+      await writeTaskFile('completed', 'TASK-0001.md', 'status: completed\ntitle: First');
+      await repository.archive('TASK-0001');
+
+      const task = await repository.restore('TASK-0001');
+
+      expect(task.path).toBe(path.join(sabinDir, 'tasks', 'completed', 'TASK-0001.md'));
+      expect(await repository.listRemoved()).toEqual([]);
+      await expect(fs.access(path.join(sabinDir, 'archive', 'TASK-0001.json'))).rejects.toThrow();
+    });
+
+    it('should not reuse the IDs of removed tasks', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+      await repository.delete('TASK-0001');
+
+      const task = await repository.create({ title: 'Second' });
+
+      expect(task.id).toBe('TASK-0002');
+    });
+
+    it('should never overwrite a task removed earlier under the same ID', async () => {
+      const first = await repository.create({ title: 'First', taskId: 'JIRA-1' });
+      await repository.delete(first.id);
+
+      await expect(repository.create({ title: 'Second', taskId: 'JIRA-1' })).rejects.toThrow('Task JIRA-1 already exists in trash/');
+
+      // A task with the same ID that got past create, e.g. written by hand
+      await writeTaskFile('open', 'JIRA-1.md', 'status: open\ntitle: Hand-written');
+      await expect(repository.delete('JIRA-1')).rejects.toThrow('Task JIRA-1 already exists in trash/');
+      expect((await repository.listRemoved()).map(r => r.task.title)).toEqual(['First']);
+      expect((await repository.list()).map(t => t.title)).toEqual(['Hand-written']);
+    });
+
+    it('should refuse to restore over an existing task', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+      await repository.delete('TASK-0001');
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: Replacement');
+
+      await expect(repository.restore('TASK-0001')).rejects.toThrow('Task TASK-0001 already exists in open/');
+      await expect(repository.restore('TASK-0099')).rejects.toThrow('Task not found: TASK-0099');
+    });
+
+    it('should restore a task only once when restores race', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: First');
+      await repository.delete('TASK-0001');
+
+      const results = await Promise.allSettled([repository.restore('TASK-0001'), repository.restore('TASK-0001')]);
+
+      expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect((await repository.list()).map(t => t.title)).toEqual(['First']);
+    });
+
+    it('should record removals and restores in the history', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: ready\ntitle: First');
+
+      await repository.delete('TASK-0001');
+      await repository.restore('TASK-0001');
+      await repository.archive('TASK-0001');
+
+      const history = await repository.getHistory('TASK-0001');
+      expect(history.map(e => [e.action, e.from, e.to])).toEqual([
+        ['delete', 'ready', 'ready'],
+        ['restore', 'ready', 'ready'],
+        ['archive', 'ready', 'ready']
+      ]);
+      expect(history[0]).toMatchObject({ actor: 'alice', workingDir: 'api' });
+    });
+  });
+});
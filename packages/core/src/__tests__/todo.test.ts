@@ -0,0 +1,69 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { parseTodo, readTodo, addTodo, removeTodo, getTodoPath } from '../todo';
+
+describe('todo', () => {
+  let sabinDir: string;
+
+  beforeEach(async () => {
+    sabinDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(sabinDir, { recursive: true, force: true });
+  });
+
+  describe('parseTodo', () => {
+    it('should number top-level bullets and keep nested lines', () => {
+      const items = parseTodo('# TODO\n\n- Implement feature X\n    - Add API endpoint\n      - Validate input\n    - Add tests\n* Fix typo\n');
+
+      expect(items).toEqual([
+        {
+          number: 1,
+          text: 'Implement feature X',
+          children: ['- Add API endpoint', '  - Validate input', '- Add tests'],
+          line: 2,
+          endLine: 5
+        },
+        { number: 2, text: 'Fix typo', children: [], line: 6, endLine: 6 }
+      ]);
+    });
+
+    it('should end an item at a heading or paragraph', () => {
+      const items = parseTodo('- First\n\n## Later\n  indented text\n- Second\n');
+
+      expect(items.map(i => [i.text, i.children])).toEqual([['First', []], ['Second', []]]);
+    });
+  });
+
+  describe('addTodo', () => {
+    it('should create the inbox and append items', async () => {
+      await addTodo(sabinDir, 'First');
+      const item = await addTodo(sabinDir, '  Second  ');
+
+      expect(item.number).toBe(2);
+      expect(await fs.readFile(getTodoPath(sabinDir), 'utf8')).toBe('# TODO\n\n- First\n- Second\n');
+    });
+
+    it('should reject empty text', async () => {
+      await expect(addTodo(sabinDir, '  ')).rejects.toMatchObject({ code: 'INVALID_TODO' });
+    });
+  });
+
+  describe('removeTodo', () => {
+    it('should remove an item with its nested lines', async () => {
+      await fs.writeFile(getTodoPath(sabinDir), '# TODO\n\n- One\n  - Detail\n- Two\n');
+
+      const removed = await removeTodo(sabinDir, 1);
+
+      expect(removed.text).toBe('One');
+      expect(await fs.readFile(getTodoPath(sabinDir), 'utf8')).toBe('# TODO\n\n- Two\n');
+      expect((await readTodo(sabinDir)).map(i => i.number)).toEqual([1]);
+    });
+
+    it('should throw TodoItemNotFoundError for bad numbers', async () => {
+      await expect(removeTodo(sabinDir, 1)).rejects.toThrow('TODO item not found at index: 1');
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { checkTransition } from '../transitions';
+import { resolvePlanPath } from '../plans';
+import { SabinConfig, Task } from '../types';
+
+describe('transitions', () => {
+  let testDir: string;
+  let sabinDir: string;
+
+  const baseConfig: SabinConfig = { projectPrefix: 'TASK', taskNumberPadding: 4 };
+
+  function makeTask(overrides: Partial<Task> = {}): Task {
+    return {
+      id: 'TASK-0001',
+      status: 'open',
+      title: 'Test Task',
+      content: '',
+      path: path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'),
+      ...overrides
+    };
+  }
+
+  beforeEach(async () => {
+    testDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-test-'));
+    sabinDir = path.join(testDir, '.sabin');
+    await fs.mkdir(path.join(sabinDir, 'plans'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('resolvePlanPath', () => {
+    it('should resolve paths relative to the project root', async () => {
+      await fs.writeFile(path.join(sabinDir, 'plans', 'plan.md'), '# Plan');
+
+      expect(await resolvePlanPath(sabinDir, '.sabin/plans/plan.md')).toBe(path.join(sabinDir, 'plans', 'plan.md'));
+    });
+
+    it('should resolve paths relative to the .sabin directory', async () => {
+      await fs.writeFile(path.join(sabinDir, 'plans', 'plan.md'), '# Plan');
+
+      expect(await resolvePlanPath(sabinDir, 'plans/plan.md')).toBe(path.join(sabinDir, 'plans', 'plan.md'));
+    });
+
+    it('should return null for missing files', async () => {
+      expect(await resolvePlanPath(sabinDir, 'plans/missing.md')).toBeNull();
+    });
+  });
+
+  describe('checkTransition', () => {
+    it('should allow any move when no rules are configured', async () => {
+      await expect(checkTransition(makeTask(), 'completed', baseConfig, { sabinDir })).resolves.toBeUndefined();
+    });
+
+    it('should enforce the transition table', async () => {
+      const config = { ...baseConfig, transitions: { open: ['in_progress'], in_progress: ['review', 'open'] } };
+
+      await expect(checkTransition(makeTask(), 'in_progress', config, { sabinDir })).resolves.toBeUndefined();
+      await expect(checkTransition(makeTask(), 'completed', config, { sabinDir })).rejects.toMatchObject({
+        code: 'INVALID_TRANSITION',
+        message: 'Cannot move TASK-0001 from open to completed: allowed targets are: in_progress'
+      });
+    });
+
+    it('should block moves out of statuses missing from the table', async () => {
+      const config = { ...baseConfig, transitions: { open: ['ready'] } };
+
+      await expect(checkTransition(makeTask({ status: 'review' }), 'open', config, { sabinDir }))
+        .rejects.toThrow('allowed targets are: none');
+    });
+
+    it('should always allow re-applying the current status', async () => {
+      const config = { ...baseConfig, transitions: {} };
+
+      await expect(checkTransition(makeTask(), 'open', config, { sabinDir })).resolves.toBeUndefined();
+    });
+
+    describe('default guards', () => {
+      it('should require a plan for ready and a finished plan for completed', async () => {
+        await fs.writeFile(path.join(sabinDir, 'plans', 'plan.md'), '- [x] Done\n- [ ] Todo\n');
+
+        await expect(checkTransition(makeTask(), 'ready', baseConfig, { sabinDir }))
+          .rejects.toThrow('Cannot move TASK-0001 from open to ready: task has no plan');
+        await expect(checkTransition(makeTask({ plan: '.sabin/plans/plan.md' }), 'completed', baseConfig, { sabinDir }))
+          .rejects.toThrow('Cannot move TASK-0001 from open to completed: plan has 1 unchecked item(s)');
+      });
+
+      it('should let config.json replace them per status', async () => {
+        const config = { ...baseConfig, guards: { ready: [] } };
+
+        await expect(checkTransition(makeTask(), 'ready', config, { sabinDir })).resolves.toBeUndefined();
+        await expect(checkTransition(makeTask({ status: 'ready', plan: '.sabin/plans/missing.md' }), 'completed', config, { sabinDir }))
+          .resolves.toBeUndefined();
+      });
+    });
+
+    describe('plan-exists guard', () => {
+      const config = { ...baseConfig, guards: { ready: ['plan-exists'] } };
+
+      it('should block tasks without a plan', async () => {
+        await expect(checkTransition(makeTask(), 'ready', config, { sabinDir }))
+          .rejects.toThrow('Cannot move TASK-0001 from open to ready: task has no plan');
+      });
+
+      it('should block tasks whose plan file is missing', async () => {
+        await expect(checkTransition(makeTask({ plan: '.sabin/plans/missing.md' }), 'ready', config, { sabinDir }))
+          .rejects.toThrow('plan file not found: .sabin/plans/missing.md');
+      });
+
+      it('should allow tasks with an existing plan', async () => {
+        await fs.writeFile(path.join(sabinDir, 'plans', 'plan.md'), '# Plan');
+
+        await expect(checkTransition(makeTask({ plan: '.sabin/plans/plan.md' }), 'ready', config, { sabinDir }))
+          .resolves.toBeUndefined();
+      });
+    });
+
+    describe('plan-complete guard', () => {
+      const config = { ...baseConfig, guards: { completed: ['plan-complete'] } };
+
+      it('should block completion while the plan has unchecked items', async () => {
+        await fs.writeFile(path.join(sabinDir, 'plans', 'plan.md'), '- [x] Done\n- [ ] Todo\n- [ ] Also todo\n');
+
+        await expect(checkTransition(makeTask({ plan: '.sabin/plans/plan.md' }), 'completed', config, { sabinDir }))
+          .rejects.toThrow('plan has 2 unchecked item(s)');
+      });
+
+      it('should allow completion when every item is checked', async () => {
+        await fs.writeFile(path.join(sabinDir, 'plans', 'plan.md'), '- [x] Done\n');
+
+        await expect(checkTransition(makeTask({ plan: '.sabin/plans/plan.md' }), 'completed', config, { sabinDir }))
+          .resolves.toBeUndefined();
+      });
+
+      it('should allow completion of tasks without a plan', async () => {
+        await expect(checkTransition(makeTask(), 'completed', config, { sabinDir })).resolves.toBeUndefined();
+      });
+    });
+
+    it('should reject unknown guard names', async () => {
+      const config = { ...baseConfig, guards: { ready: ['no-such-guard'] } };
+
+      await expect(checkTransition(makeTask(), 'ready', config, { sabinDir })).rejects.toMatchObject({ code: 'UNKNOWN_GUARD' });
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+import { Task } from './types';
+import { resolvePlanPath } from './plans';
+import { ChecklistItemNotFoundError } from './errors';
+
+export interface ChecklistItem {
+  /** Zero-based position among all checklist items in the document */
+  index: number;
+  checked: boolean;
+  text: string;
+  /** Zero-based line number of the item */
+  line: number;
+}
+
+export interface TaskChecklistItem extends ChecklistItem {
+  /** Zero-based position among the items of the task body and its plan, body first */
+  index: number;
+  /** Whether the item is in the task body or the linked plan */
+  source: 'task' | 'plan';
+  /** Position within its own document, as parseChecklist numbers it */
+  documentIndex: number;
+}
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+const CHECKLIST_PATTERN = /^\s*[-*+]\s+\[([ xX])\]\s?(.*?)\r?$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Parse markdown task list items (`- [ ]` / `- [x]`) from a document.
+ * Items inside fenced code blocks are examples, not tasks, and are skipped.
+ */
+export function parseChecklist(content: string): ChecklistItem[] {
+  const items: ChecklistItem[] = [];
+  let inFence = false;
+
+  content.split('\n').forEach((lineText, line) => {
+    if (FENCE_PATTERN.test(lineText)) {
+      inFence = !inFence;
+      return;
+    }
+
+    const match = inFence ? null : lineText.match(CHECKLIST_PATTERN);
+    if (match) {
+      items.push({
+        index: items.length,
+        checked: match[1] !== ' ',
+        text: match[2].trim(),
+        line
+      });
+    }
+  });
+
+  return items;
+}
+
+/**
+ * Count the checked items of a checklist
+ */
+export function getChecklistProgress(items: ChecklistItem[]): ChecklistProgress {
+  return { done: items.filter(item => item.checked).length, total: items.length };
+}
+
+/**
+ * Check or uncheck the item at a zero-based index, leaving the rest
+ * of the document untouched. Throws ChecklistItemNotFoundError when
+ * there is no such item.
+ */
+export function setChecklistItem(content: string, index: number, checked: boolean): string {
+  const items = parseChecklist(content);
+  const item = items[index];
+  if (!item) {
+    throw new ChecklistItemNotFoundError(index, items.length);
+  }
+
+  const lines = content.split('\n');
+  lines[item.line] = lines[item.line].replace(/\[[ xX]\]/, checked ? '[x]' : '[ ]');
+  return lines.join('\n');
+}
+
+/**
+ * Read the checklist items of a task body followed by those of its linked plan.
+ * A plan link that does not resolve contributes no items.
+ */
+export async function readTaskChecklist(task: Task, sabinDir: string): Promise<TaskChecklistItem[]> {
+  const items: TaskChecklistItem[] = parseChecklist(task.content)
+    .map(item => ({ ...item, source: 'task', documentIndex: item.index }));
+
+  const planPath = task.plan ? await resolvePlanPath(sabinDir, task.plan) : null;
+  if (planPath) {
+    for (const item of parseChecklist(await fs.readFile(planPath, 'utf8'))) {
+      items.push({ ...item, index: items.length, source: 'plan', documentIndex: item.index });
+    }
+  }
+
+  return items;
+}
@@ -1,6 +1,8 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { SabinConfig } from './types';
+import { validateConfig, SABIN_CONFIG_SCHEMA, JsonSchema } from './configSchema';
+import { SabinError, InvalidConfigError } from './errors';
 
 const DEFAULT_CONFIG: SabinConfig = {
   projectPrefix: 'TASK',
@@ -15,24 +17,52 @@ function getConfigPath(sabinDir: string = '.sabin'): string {
 }
 
 /**
- * Read the config file, returning default config if it doesn't exist
+ * Read the config file, returning default config if it doesn't exist.
+ * Throws InvalidConfigError when it is not valid JSON or does not match the schema.
  */
 export async function readConfig(sabinDir: string = '.sabin'): Promise<SabinConfig> {
+  const config = await readConfigFile(sabinDir);
+  if (!config) {
+    return getDefaultConfig();
+  }
+
+  const problems = validateConfig(config);
+  if (problems.length > 0) {
+    throw new InvalidConfigError(getConfigPath(sabinDir), problems);
+  }
+
+  // Merge with defaults to handle missing fields
+  return {
+    ...DEFAULT_CONFIG,
+    ...config
+  } as SabinConfig;
+}
+
+/**
+ * Read the config file as written, without defaults or schema checks,
+ * so settings can be edited even when some of them are invalid.
+ * Returns undefined if it doesn't exist or can't be read.
+ */
+export async function readConfigFile(sabinDir: string = '.sabin'): Promise<Record<string, unknown> | undefined> {
   const configPath = getConfigPath(sabinDir);
 
+  let content: string;
   try {
-    const content = await fs.readFile(configPath, 'utf8');
-    const config = JSON.parse(content);
+    content = await fs.readFile(configPath, 'utf8');
+  } catch {
+    return undefined;
+  }
 
-    // Merge with defaults to handle missing fields
-    return {
-      ...DEFAULT_CONFIG,
-      ...config
-    };
-  } catch (error) {
-    // If file doesn't exist or can't be read, return default config
-    return DEFAULT_CONFIG;
+  let config: unknown;
+  try {
+    config = JSON.parse(content);
+  } catch (error: any) {
+    throw new InvalidConfigError(configPath, [`not valid JSON: ${error.message}`]);
+  }
+  if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+    throw new InvalidConfigError(configPath, ['config must be an object']);
   }
+  return config as Record<string, unknown>;
 }
 
 /**
@@ -50,3 +80,78 @@ export async function writeConfig(config: SabinConfig, sabinDir: string = '.sabi
 export function getDefaultConfig(): SabinConfig {
   return { ...DEFAULT_CONFIG };
 }
+
+/**
+ * Get a setting by key, e.g. `projectPrefix`, `transitions.open` or
+ * `statuses[0].name` (`statuses.0.name` works too)
+ */
+export function getConfigValue(config: object, key: string): unknown {
+  let value: any = config;
+  for (const segment of parseConfigKey(key)) {
+    if (typeof value !== 'object' || value === null || !Object.prototype.hasOwnProperty.call(value, segment)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Set a setting by key in place, creating objects and arrays along the way
+ */
+export function setConfigValue(config: object, key: string, value: unknown): void {
+  const segments = parseConfigKey(key);
+  let target: any = config;
+  segments.slice(0, -1).forEach((segment, i) => {
+    if (target[segment] === undefined) {
+      target[segment] = /^\d+$/.test(segments[i + 1]) ? [] : {};
+    } else if (typeof target[segment] !== 'object' || target[segment] === null) {
+      throw new SabinError(`Cannot set ${key}: ${segments.slice(0, i + 1).join('.')} is not an object or array`, 'INVALID_CONFIG_KEY');
+    }
+    target = target[segment];
+  });
+  target[segments[segments.length - 1]] = value;
+}
+
+/**
+ * Remove a setting by key in place. Returns false if it wasn't set.
+ */
+export function unsetConfigValue(config: object, key: string): boolean {
+  const segments = parseConfigKey(key);
+  const parent: any = segments.length > 1 ? getConfigValue(config, segments.slice(0, -1).join('.')) : config;
+  const last = segments[segments.length - 1];
+  if (typeof parent !== 'object' || parent === null || !Object.prototype.hasOwnProperty.call(parent, last)) {
+    return false;
+  }
+
+  if (Array.isArray(parent)) {
+    parent.splice(Number(last), 1);
+  } else {
+    delete parent[last];
+  }
+  return true;
+}
+
+/**
+ * Get the part of the config schema that describes a key, if it is known
+ */
+export function getConfigKeySchema(key: string): JsonSchema | undefined {
+  let schema: JsonSchema | undefined = SABIN_CONFIG_SCHEMA;
+  for (const segment of parseConfigKey(key)) {
+    if (schema?.type === 'array') {
+      schema = /^\d+$/.test(segment) ? schema.items : undefined;
+    } else {
+      schema = schema?.properties?.[segment]
+        ?? (typeof schema?.additionalProperties === 'object' ? schema.additionalProperties : undefined);
+    }
+  }
+  return schema;
+}
+
+function parseConfigKey(key: string): string[] {
+  const segments = key.replace(/\[(\d+)\]/g, '.$1').split('.');
+  if (segments.some(s => !s || s === '__proto__' || s === 'constructor' || s === 'prototype')) {
+    throw new SabinError(`Invalid config key: ${key}`, 'INVALID_CONFIG_KEY');
+  }
+  return segments;
+}
@@ -0,0 +1,197 @@
+import { SabinConfig } from './types';
+import { STATUS_COLORS, getStatuses } from './statuses';
+import { TRANSITION_GUARDS } from './transitions';
+
+/**
+ * JSON Schema (draft-07) for `.sabin/config.json`, mirroring SabinConfig.
+ * Settings left out are filled in from the defaults, so nothing is required.
+ */
+export const SABIN_CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Sabin config',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    projectPrefix: {
+      description: 'Prefix of generated task IDs, e.g. TASK for TASK-0001',
+      type: 'string',
+      pattern: '^[A-Za-z0-9][A-Za-z0-9_-]*$'
+    },
+    taskNumberPadding: {
+      description: 'Number of digits generated task numbers are padded to',
+      type: 'integer',
+      minimum: 1
+    },
+    schemaVersion: {
+      description: 'Version of the .sabin layout, upgraded by `sabin migrate`',
+      type: 'integer',
+      minimum: 0
+    },
+    statuses: {
+      description: 'Ordered workflow statuses',
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['id', 'name', 'folder'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          name: { type: 'string', minLength: 1 },
+          color: { type: 'string', enum: [...STATUS_COLORS] },
+          icon: { type: 'string' },
+          folder: { type: 'string', pattern: '^[A-Za-z0-9_-]+$' }
+        }
+      }
+    },
+    transitions: {
+      description: 'Allowed status changes, keyed by the current status',
+      type: 'object',
+      additionalProperties: { type: 'array', items: { type: 'string' } }
+    },
+    guards: {
+      description: 'Guards that must pass before a task enters a status, keyed by target status',
+      type: 'object',
+      additionalProperties: { type: 'array', items: { type: 'string', enum: Object.keys(TRANSITION_GUARDS) } }
+    },
+    readyStatus: {
+      description: 'Status `sabin task next` picks tasks from, ready by default',
+      type: 'string',
+      minLength: 1
+    },
+    inProgressStatus: {
+      description: 'Status `sabin task next --start` moves tasks to, in_progress by default',
+      type: 'string',
+      minLength: 1
+    }
+  }
+};
+
+/** The subset of JSON Schema the config schema is written in */
+export interface JsonSchema {
+  $schema?: string;
+  title?: string;
+  description?: string;
+  type?: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  minimum?: number;
+  minLength?: number;
+  pattern?: string;
+}
+
+/**
+ * Check a parsed config.json against the schema, and that status IDs are
+ * unique and transitions, guards and the ready and in-progress statuses
+ * only name configured statuses.
+ * Returns one message per problem, e.g. `taskNumberPadding must be an integer`,
+ * or an empty list when the config is valid.
+ */
+export function validateConfig(value: unknown): string[] {
+  const problems: string[] = [];
+  check(value, SABIN_CONFIG_SCHEMA, '', problems);
+  if (problems.length === 0) {
+    checkStatusReferences(value as SabinConfig, problems);
+  }
+  return problems;
+}
+
+function checkStatusReferences(config: SabinConfig, problems: string[]): void {
+  const ids = new Set<string>();
+  getStatuses(config).forEach((status, i) => {
+    if (ids.has(status.id)) {
+      problems.push(`statuses[${i}].id ${status.id} is used by an earlier status`);
+    }
+    ids.add(status.id);
+  });
+
+  for (const [from, targets] of Object.entries(config.transitions || {})) {
+    if (!ids.has(from)) {
+      problems.push(`transitions.${from} names unknown status ${from}`);
+    }
+    targets.forEach((to, i) => {
+      if (!ids.has(to)) {
+        problems.push(`transitions.${from}[${i}] names unknown status ${to}`);
+      }
+    });
+  }
+  for (const to of Object.keys(config.guards || {})) {
+    if (!ids.has(to)) {
+      problems.push(`guards.${to} names unknown status ${to}`);
+    }
+  }
+  for (const key of ['readyStatus', 'inProgressStatus'] as const) {
+    const status = config[key];
+    if (status !== undefined && !ids.has(status)) {
+      problems.push(`${key} names unknown status ${status}`);
+    }
+  }
+}
+
+function check(value: unknown, schema: JsonSchema, at: string, problems: string[]): void {
+  const name = at || 'config';
+
+  if (schema.type && !hasType(value, schema.type)) {
+    problems.push(`${name} must be ${schema.type === 'integer' || schema.type === 'array' || schema.type === 'object' ? 'an' : 'a'} ${schema.type}`);
+    return;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    problems.push(`${name} must be one of: ${schema.enum.join(', ')}`);
+  }
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    problems.push(`${name} must be at least ${schema.minimum}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      problems.push(`${name} must not be empty`);
+    } else if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+      problems.push(`${name} must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => check(item, schema.items!, `${at}[${i}]`, problems));
+  }
+
+  if (isObject(value)) {
+    const child = (key: string) => at ? `${at}.${key}` : key;
+
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        problems.push(`${child(key)} is required`);
+      }
+    }
+    for (const [key, item] of Object.entries(value)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        check(item, propertySchema, child(key), problems);
+      } else if (schema.additionalProperties === false) {
+        problems.push(`${child(key)} is not a known setting`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        check(item, schema.additionalProperties, child(key), problems);
+      }
+    }
+  }
+}
+
+function hasType(value: unknown, type: NonNullable<JsonSchema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,110 @@
+import { Task, SabinConfig } from './types';
+import { isCompletedStatus } from './statuses';
+import { UnknownDependencyError, DependencyCycleError } from './errors';
+
+export interface DependencyNode {
+  id: string;
+  /** Undefined when the ID does not match any task */
+  task?: Task;
+  children: DependencyNode[];
+  /** Set when the node repeats an ID already on the path, ending the branch */
+  cycle?: boolean;
+}
+
+export type DependencyDirection = 'upstream' | 'downstream';
+
+/**
+ * Check that a task's dependencies exist among the other tasks and that
+ * adding them does not create a cycle. Throws on the first problem found.
+ */
+export function validateDependencies(task: Task, tasks: Task[]): void {
+  const others = tasks.filter(t => t.id !== task.id);
+  const ids = new Set(others.map(t => t.id));
+
+  for (const dependencyId of task.dependsOn || []) {
+    if (dependencyId !== task.id && !ids.has(dependencyId)) {
+      throw new UnknownDependencyError(task.id, dependencyId);
+    }
+  }
+
+  const cycle = findDependencyCycle([...others, task], task.id);
+  if (cycle) {
+    throw new DependencyCycleError(cycle);
+  }
+}
+
+/**
+ * Find a dependency cycle, returned as the IDs along it with the first ID
+ * repeated at the end, or null when the graph is acyclic.
+ * Only paths starting at `startId` are followed when it is given.
+ */
+export function findDependencyCycle(tasks: Task[], startId?: string): string[] | null {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const done = new Set<string>();
+
+  const visit = (id: string, trail: string[]): string[] | null => {
+    const start = trail.indexOf(id);
+    if (start !== -1) {
+      return [...trail.slice(start), id];
+    }
+    if (done.has(id)) {
+      return null;
+    }
+
+    for (const dependencyId of byId.get(id)?.dependsOn || []) {
+      const cycle = visit(dependencyId, [...trail, id]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+
+    done.add(id);
+    return null;
+  };
+
+  for (const id of startId ? [startId] : tasks.map(t => t.id)) {
+    const cycle = visit(id, []);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the IDs of a task's dependencies that are not completed yet.
+ * Unknown IDs count as blocking.
+ */
+export function getBlockingDependencies(task: Task, tasks: Task[], config?: SabinConfig): string[] {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+
+  return (task.dependsOn || []).filter(id => {
+    const dependency = byId.get(id);
+    return !dependency || !isCompletedStatus(dependency.status, config);
+  });
+}
+
+/**
+ * Build the tree of tasks a task depends on (upstream) or
+ * that depend on it (downstream)
+ */
+export function buildDependencyTree(taskId: string, tasks: Task[], direction: DependencyDirection): DependencyNode {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+
+  const childIds = (id: string): string[] => direction === 'upstream'
+    ? byId.get(id)?.dependsOn || []
+    : tasks.filter(t => t.dependsOn?.includes(id)).map(t => t.id);
+
+  const build = (id: string, trail: string[]): DependencyNode => {
+    if (trail.includes(id)) {
+      return { id, task: byId.get(id), children: [], cycle: true };
+    }
+    return {
+      id,
+      task: byId.get(id),
+      children: childIds(id).map(childId => build(childId, [...trail, id]))
+    };
+  };
+
+  return build(taskId, []);
+}
@@ -0,0 +1,368 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Task, SabinConfig, StatusDefinition } from './types';
+import { parseTask, writeTask, getNextTaskNumber } from './markdown';
+import { parseFrontmatter } from './frontmatter';
+import { readConfig, getDefaultConfig } from './config';
+import { getStatuses, getStatusDefinition, getStatusFolders, getLegacyStatusReplacement } from './statuses';
+import { resolvePlanPath } from './plans';
+import { findDependencyCycle } from './dependencies';
+import { withLock } from './lock';
+import { findLegacyTaskFiles } from './migrate';
+
+export type ProblemCode =
+  | 'MISSING_CONFIG'
+  | 'LEGACY_LAYOUT'
+  | 'INVALID_CONFIG'
+  | 'BROKEN_LINK'
+  | 'UNREADABLE_TASK'
+  | 'INVALID_STATUS'
+  | 'NONSTANDARD_FRONTMATTER'
+  | 'MISPLACED_TASK'
+  | 'DUPLICATE_ID'
+  | 'MISSING_PLAN'
+  | 'UNKNOWN_DEPENDENCY'
+  | 'DEPENDENCY_CYCLE'
+  | 'UNKNOWN_PARENT';
+
+export interface SabinProblem {
+  code: ProblemCode;
+  message: string;
+  /** File the problem was found in */
+  path?: string;
+  taskId?: string;
+  /** Whether fixSabinDir can repair it */
+  fixable: boolean;
+}
+
+export interface ValidateOptions {
+  /** Path of the `.sabin` link file that pointed at the directory, if any */
+  linkPath?: string;
+}
+
+interface TaskFile {
+  path: string;
+  folder: string;
+  id: string;
+  task?: Task;
+  data?: Record<string, unknown>;
+  /** Why the file could not be parsed */
+  error?: string;
+}
+
+/** Fixes run in this order, re-validating in between, since each may move or rename files */
+const FIX_ORDER: ProblemCode[] = ['INVALID_STATUS', 'NONSTANDARD_FRONTMATTER', 'DUPLICATE_ID', 'MISPLACED_TASK'];
+
+/**
+ * Check a .sabin directory for problems: missing or invalid config,
+ * tasks left in a legacy layout, unreadable task files, unknown statuses, files in the wrong status folder,
+ * duplicate IDs, missing plans and broken task references
+ */
+export async function validateSabinDir(sabinDir: string, options: ValidateOptions = {}): Promise<SabinProblem[]> {
+  const problems: SabinProblem[] = [];
+  const configPath = path.join(sabinDir, 'config.json');
+
+  try {
+    await fs.access(configPath);
+  } catch {
+    if (options.linkPath) {
+      problems.push({
+        code: 'BROKEN_LINK',
+        message: `${options.linkPath} points to ${sabinDir}, which has no config.json`,
+        path: options.linkPath,
+        fixable: false
+      });
+    } else {
+      problems.push({ code: 'MISSING_CONFIG', message: 'config.json not found', path: configPath, fixable: false });
+    }
+  }
+
+  // The remaining checks run against the defaults when the config is invalid
+  let config = getDefaultConfig();
+  try {
+    config = await readConfig(sabinDir);
+  } catch (error: any) {
+    problems.push({ code: 'INVALID_CONFIG', message: error.message, path: configPath, fixable: false });
+  }
+
+  const legacyFiles = (await findLegacyTaskFiles(sabinDir)).filter(file => file.folder.startsWith('tickets'));
+  if (legacyFiles.length > 0) {
+    problems.push({
+      code: 'LEGACY_LAYOUT',
+      message: `${legacyFiles.length} task(s) in the legacy tickets/ layout. Run "sabin migrate" to move them to tasks/`,
+      path: path.join(sabinDir, 'tickets'),
+      fixable: false
+    });
+  }
+
+  const statuses = getStatuses(config);
+  const files = await scanTaskFiles(sabinDir, config);
+  const tasks = files.filter(f => f.task).map(f => f.task!);
+
+  for (const file of files) {
+    if (!file.task || !file.data) {
+      problems.push({
+        code: 'UNREADABLE_TASK',
+        message: `Frontmatter could not be parsed: ${file.error}`,
+        path: file.path,
+        taskId: file.id,
+        fixable: false
+      });
+      continue;
+    }
+    const { task, data } = file;
+
+    const definition = getStatusDefinition(task.status, config);
+    if (!definition) {
+      const normalized = normalizeStatus(task.status, statuses);
+      problems.push({
+        code: 'INVALID_STATUS',
+        message: normalized
+          ? `Status "${task.status}" should be written as "${normalized.id}"`
+          : `Unknown status "${task.status}". Must be one of: ${statuses.map(s => s.id).join(', ')}`,
+        path: file.path,
+        taskId: task.id,
+        fixable: !!normalized
+      });
+    } else if (definition.folder !== file.folder) {
+      problems.push({
+        code: 'MISPLACED_TASK',
+        message: `Status "${task.status}" belongs in ${definition.folder}/ but the file is in ${file.folder}/`,
+        path: file.path,
+        taskId: task.id,
+        fixable: true
+      });
+    }
+
+    const issues = frontmatterIssues(data);
+    if (issues.length > 0) {
+      problems.push({
+        code: 'NONSTANDARD_FRONTMATTER',
+        message: `Frontmatter needs normalizing: ${issues.join(', ')}`,
+        path: file.path,
+        taskId: task.id,
+        fixable: true
+      });
+    }
+
+    if (task.plan && !await resolvePlanPath(sabinDir, task.plan)) {
+      problems.push({
+        code: 'MISSING_PLAN',
+        message: `Plan file not found: ${task.plan}`,
+        path: file.path,
+        taskId: task.id,
+        fixable: false
+      });
+    }
+  }
+
+  const ids = new Set(files.map(f => f.id));
+  for (const task of tasks) {
+    for (const dependencyId of task.dependsOn || []) {
+      if (!ids.has(dependencyId)) {
+        problems.push({
+          code: 'UNKNOWN_DEPENDENCY',
+          message: `Depends on unknown task: ${dependencyId}`,
+          path: task.path,
+          taskId: task.id,
+          fixable: false
+        });
+      }
+    }
+    if (task.parent && !ids.has(task.parent)) {
+      problems.push({
+        code: 'UNKNOWN_PARENT',
+        message: `Parent task not found: ${task.parent}`,
+        path: task.path,
+        taskId: task.id,
+        fixable: false
+      });
+    }
+  }
+
+  const cycle = findDependencyCycle(tasks);
+  if (cycle) {
+    problems.push({
+      code: 'DEPENDENCY_CYCLE',
+      message: `Dependency cycle: ${cycle.join(' -> ')}`,
+      taskId: cycle[0],
+      fixable: false
+    });
+  }
+
+  const byId = new Map<string, TaskFile[]>();
+  for (const file of files) {
+    byId.set(file.id, [...(byId.get(file.id) || []), file]);
+  }
+  for (const [id, copies] of byId) {
+    for (const copy of copies.slice(1)) {
+      problems.push({
+        code: 'DUPLICATE_ID',
+        message: `${id} also exists in ${copies[0].folder}/`,
+        path: copy.path,
+        taskId: id,
+        fixable: true
+      });
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Repair every fixable problem: normalize statuses and frontmatter,
+ * renumber duplicate IDs and move files to the folder their status maps to.
+ * Returns the problems that were fixed.
+ */
+export async function fixSabinDir(sabinDir: string, options: ValidateOptions = {}): Promise<SabinProblem[]> {
+  const fixed: SabinProblem[] = [];
+  const config = await readConfig(sabinDir);
+
+  for (const code of FIX_ORDER) {
+    const problems = (await validateSabinDir(sabinDir, options))
+      .filter(problem => problem.code === code && problem.fixable);
+
+    for (const problem of problems) {
+      await applyFix(sabinDir, config, problem);
+      fixed.push(problem);
+    }
+  }
+
+  return fixed;
+}
+
+async function applyFix(sabinDir: string, config: SabinConfig, problem: SabinProblem): Promise<void> {
+  const filePath = problem.path!;
+  const tasksDir = path.join(sabinDir, 'tasks');
+
+  switch (problem.code) {
+    case 'INVALID_STATUS':
+    case 'NONSTANDARD_FRONTMATTER': {
+      // parseTask already normalizes ID lists and defaults the status
+      const task = await parseTask(filePath);
+      const normalized = normalizeStatus(task.status, getStatuses(config));
+      if (normalized) {
+        task.status = normalized.id;
+      }
+      task.title = task.title ? String(task.title) : `Task ${task.id}`;
+      if (task.extra && 'id' in task.extra) {
+        delete task.extra.id;
+      }
+      await writeTask(task);
+      break;
+    }
+
+    case 'DUPLICATE_ID': {
+      await withLock(path.join(sabinDir, '.lock'), async () => {
+        // Also number past files in folders getNextTaskNumber does not scan
+        const pattern = new RegExp(`^${config.projectPrefix}-(\\d+)$`);
+        const numbers = (await scanTaskFiles(sabinDir, config))
+          .map(file => file.id.match(pattern))
+          .map(match => match ? parseInt(match[1], 10) : 0);
+        const next = Math.max(parseInt(await getNextTaskNumber(tasksDir, config), 10), ...numbers.map(n => n + 1));
+        const nextNumber = String(next).padStart(config.taskNumberPadding, '0');
+        await fs.rename(filePath, path.join(path.dirname(filePath), `${config.projectPrefix}-${nextNumber}.md`));
+      });
+      break;
+    }
+
+    case 'MISPLACED_TASK': {
+      const task = await parseTask(filePath);
+      const definition = getStatusDefinition(task.status, config)!;
+      const newDir = path.join(tasksDir, definition.folder);
+      const newPath = path.join(newDir, path.basename(filePath));
+
+      await fs.mkdir(newDir, { recursive: true });
+      try {
+        // Never overwrite: a file with the same name there is a duplicate, renumbered on the next run
+        await fs.copyFile(filePath, newPath, fs.constants.COPYFILE_EXCL);
+        await fs.unlink(filePath);
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Read every markdown file in every subfolder of tasks/, including folders
+ * no configured status maps to, so stray files are found too
+ */
+async function scanTaskFiles(sabinDir: string, config: SabinConfig): Promise<TaskFile[]> {
+  const tasksDir = path.join(sabinDir, 'tasks');
+  let folders: string[];
+
+  try {
+    const entries = await fs.readdir(tasksDir, { withFileTypes: true });
+    const present = entries.filter(e => e.isDirectory()).map(e => e.name);
+    // Configured folders first, so the copy in the expected place is kept for duplicates
+    folders = [
+      ...getStatusFolders(config).filter(f => present.includes(f)),
+      ...present.filter(f => !getStatusFolders(config).includes(f)).sort()
+    ];
+  } catch {
+    return [];
+  }
+
+  const files: TaskFile[] = [];
+  for (const folder of folders) {
+    const names = (await fs.readdir(path.join(tasksDir, folder))).filter(f => f.endsWith('.md')).sort();
+
+    for (const name of names) {
+      const filePath = path.join(tasksDir, folder, name);
+      const file: TaskFile = { path: filePath, folder, id: path.basename(name, '.md') };
+
+      try {
+        file.data = parseFrontmatter(await fs.readFile(filePath, 'utf8')).data;
+        file.task = await parseTask(filePath);
+      } catch (error: any) {
+        file.data = undefined;
+        file.task = undefined;
+        file.error = error.message;
+      }
+      files.push(file);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Find the configured status a loosely written one refers to,
+ * e.g. "In Progress" or "in-progress" for in_progress, or the one
+ * that replaced a legacy status, e.g. completed for resolved
+ */
+function normalizeStatus(status: string, statuses: StatusDefinition[]): StatusDefinition | undefined {
+  const key = (value: string) => value.toLowerCase().replace(/[\s-]+/g, '_');
+  const replacement = getLegacyStatusReplacement(status);
+  return statuses.find(s => key(s.id) === key(status) || key(s.name) === key(status))
+    || statuses.find(s => s.id === replacement);
+}
+
+/**
+ * Describe frontmatter that parses but is not in the form Sabin writes
+ */
+function frontmatterIssues(data: Record<string, unknown>): string[] {
+  const issues: string[] = [];
+
+  if (data.status === undefined) {
+    issues.push('missing status');
+  }
+  if (typeof data.title !== 'string' || !data.title) {
+    issues.push('missing title');
+  }
+  if ('id' in data) {
+    issues.push('redundant id field');
+  }
+  if (data.dependsOn !== undefined && (!Array.isArray(data.dependsOn) || data.dependsOn.some(id => typeof id !== 'string'))) {
+    issues.push('dependsOn is not a list of IDs');
+  }
+  if (data.parent !== undefined && typeof data.parent !== 'string') {
+    issues.push('parent is not an ID');
+  }
+
+  return issues;
+}
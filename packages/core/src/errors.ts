@@ -1,3 +1,6 @@
+import { StatusDefinition } from './types';
+import { DEFAULT_STATUSES, getLegacyStatusReplacement } from './statuses';
+
 export class SabinError extends Error {
   constructor(message: string, public code: string) {
     super(message);
@@ -11,14 +14,110 @@ export class TaskNotFoundError extends SabinError {
   }
 }
 
+export class AmbiguousTaskIdError extends SabinError {
+  constructor(taskId: string, readonly candidates: string[]) {
+    super(`Task ID "${taskId}" is ambiguous. Matches: ${candidates.join(', ')}`, 'AMBIGUOUS_TASK_ID');
+  }
+}
+
+export class TaskAlreadyExistsError extends SabinError {
+  constructor(taskId: string, statusDir: string) {
+    super(`Task ${taskId} already exists in ${statusDir}/`, 'TASK_ALREADY_EXISTS');
+  }
+}
+
+export class InvalidTaskIdError extends SabinError {
+  constructor(taskId: string, reason: string = 'Task ID cannot be empty.') {
+    super(`Invalid task ID: "${taskId}". ${reason}`, 'INVALID_TASK_ID');
+  }
+}
+
 export class InvalidTaskStatusError extends SabinError {
-  constructor(status: string) {
-    super(`Invalid task status: ${status}. Must be one of: open, ready, in_progress, review, completed, resolved`, 'INVALID_STATUS');
+  constructor(status: string, statuses: StatusDefinition[] = DEFAULT_STATUSES) {
+    let message = `Invalid task status: ${status}. Must be one of: ${statuses.map(s => s.id).join(', ')}`;
+    const replacement = getLegacyStatusReplacement(status);
+    if (replacement && statuses.some(s => s.id === replacement)) {
+      message += `. "${status}" is from an older version of Sabin; run "sabin migrate" to convert it to "${replacement}"`;
+    }
+    super(message, 'INVALID_STATUS');
+  }
+}
+
+export class InvalidTransitionError extends SabinError {
+  constructor(taskId: string, from: string, to: string, reason: string) {
+    super(`Cannot move ${taskId} from ${from} to ${to}: ${reason}`, 'INVALID_TRANSITION');
+  }
+}
+
+export class UnknownDependencyError extends SabinError {
+  constructor(taskId: string, dependencyId: string) {
+    super(`Task ${taskId} depends on unknown task: ${dependencyId}`, 'UNKNOWN_DEPENDENCY');
+  }
+}
+
+export class DependencyCycleError extends SabinError {
+  constructor(cycle: string[]) {
+    super(`Dependency cycle detected: ${cycle.join(' -> ')}`, 'DEPENDENCY_CYCLE');
+  }
+}
+
+export class InvalidParentError extends SabinError {
+  constructor(taskId: string, reason: string) {
+    super(`Invalid parent for ${taskId}: ${reason}`, 'INVALID_PARENT');
+  }
+}
+
+export class InvalidTaskFieldError extends SabinError {
+  constructor(field: string, reason: string) {
+    super(`Cannot edit field "${field}": ${reason}`, 'INVALID_TASK_FIELD');
+  }
+}
+
+export class InvalidFilterError extends SabinError {
+  constructor(term: string, reason: string) {
+    super(`Invalid filter "${term}": ${reason}`, 'INVALID_FILTER');
+  }
+}
+
+export class PlanNotFoundError extends SabinError {
+  constructor(plan: string) {
+    super(`Plan file not found: ${plan}`, 'PLAN_NOT_FOUND');
+  }
+}
+
+export class PlanAlreadyExistsError extends SabinError {
+  constructor(plan: string) {
+    super(`Plan already exists: ${plan}`, 'PLAN_ALREADY_EXISTS');
+  }
+}
+
+export class ResearchNotFoundError extends SabinError {
+  constructor(name: string) {
+    super(`Research note not found: ${name}`, 'RESEARCH_NOT_FOUND');
+  }
+}
+
+export class ResearchAlreadyExistsError extends SabinError {
+  constructor(name: string) {
+    super(`Research note already exists: ${name}`, 'RESEARCH_ALREADY_EXISTS');
+  }
+}
+
+export class ChecklistItemNotFoundError extends SabinError {
+  constructor(index: number, total: number) {
+    // Items are numbered from 1 wherever they are shown
+    super(`Checklist item not found: #${index + 1} (the checklist has ${total} item(s))`, 'CHECKLIST_ITEM_NOT_FOUND');
+  }
+}
+
+export class LockTimeoutError extends SabinError {
+  constructor(lockPath: string) {
+    super(`Timed out waiting for lock: ${lockPath}. Remove it if no other sabin process is running.`, 'LOCK_TIMEOUT');
   }
 }
 
 export class TodoItemNotFoundError extends SabinError {
-  constructor(index: number) {
+  constructor(index: number | string) {
     super(`TODO item not found at index: ${index}`, 'TODO_ITEM_NOT_FOUND');
   }
 }
@@ -29,6 +128,12 @@ export class SabinDirectoryNotFoundError extends SabinError {
   }
 }
 
+export class InvalidConfigError extends SabinError {
+  constructor(configPath: string, public problems: string[]) {
+    super(`Invalid config ${configPath}:\n  ${problems.join('\n  ')}`, 'INVALID_CONFIG');
+  }
+}
+
 export function handleError(error: unknown): void {
   if (error instanceof SabinError) {
     console.error(`\x1b[31m[${error.code}]\x1b[0m ${error.message}`);
@@ -43,6 +148,6 @@ export function handleError(error: unknown): void {
   process.exit(1);
 }
 
-export function isValidStatus(status: string): boolean {
-  return ['open', 'ready', 'in_progress', 'review', 'completed', 'resolved'].includes(status);
+export function isValidStatus(status: string, statuses: StatusDefinition[] = DEFAULT_STATUSES): boolean {
+  return statuses.some(s => s.id === status);
 }
\ No newline at end of file
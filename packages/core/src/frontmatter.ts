@@ -0,0 +1,66 @@
+import { isDeepStrictEqual } from 'util';
+import { Document, parseDocument } from 'yaml';
+
+const FRONTMATTER_PATTERN = /^---\r?\n([\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/;
+
+// Prefer single-quoted strings and never fold long values across lines
+const STRINGIFY_OPTIONS = { lineWidth: 0, singleQuote: true };
+
+export interface FrontmatterFile {
+  /** Parsed frontmatter fields, in file order */
+  data: Record<string, unknown>;
+  /** Frontmatter YAML exactly as it appears in the file */
+  raw: string;
+  /** Markdown body following the closing delimiter */
+  body: string;
+}
+
+/**
+ * Split a markdown file into its YAML frontmatter and body.
+ * Throws when the frontmatter is not valid YAML.
+ */
+export function parseFrontmatter(source: string): FrontmatterFile {
+  const match = source.match(FRONTMATTER_PATTERN);
+  if (!match) {
+    return { data: {}, raw: '', body: source };
+  }
+
+  const raw = match[1] || '';
+  const document = parseDocument(raw);
+  if (document.errors.length > 0) {
+    throw document.errors[0];
+  }
+
+  const data = document.toJS() ?? {};
+  return {
+    data: typeof data === 'object' && !Array.isArray(data) ? data : {},
+    raw,
+    body: source.slice(match[0].length)
+  };
+}
+
+/**
+ * Render frontmatter fields and a body back into a markdown file.
+ * When the original YAML is given, only keys whose values changed are
+ * rewritten, so comments, key order and formatting survive untouched.
+ */
+export function stringifyFrontmatter(data: Record<string, unknown>, body: string, raw = ''): string {
+  const document = raw.trim() ? parseDocument(raw) : new Document({});
+  const current = (document.toJS() ?? {}) as Record<string, unknown>;
+
+  for (const key of Object.keys(current)) {
+    if (!(key in data)) {
+      document.delete(key);
+    }
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (!isDeepStrictEqual(current[key], value)) {
+      document.set(key, value);
+    }
+  }
+
+  const yaml = Object.keys(data).length > 0 ? document.toString(STRINGIFY_OPTIONS) : '';
+  const text = body.endsWith('\n') ? body : `${body}\n`;
+  return yaml ? `---\n${yaml}---\n${text}` : text;
+}
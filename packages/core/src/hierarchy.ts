@@ -0,0 +1,79 @@
+import { Task, SabinConfig } from './types';
+import { isCompletedStatus } from './statuses';
+import { InvalidParentError } from './errors';
+
+export interface TaskTreeNode {
+  task: Task;
+  children: TaskTreeNode[];
+  /** Number of descendants below this task */
+  total: number;
+  /** Number of descendants in a completed status */
+  completed: number;
+}
+
+/**
+ * Check that a task's parent exists and that the parent chain
+ * does not loop back to the task. Throws InvalidParentError otherwise.
+ */
+export function validateParent(task: Task, tasks: Task[]): void {
+  if (!task.parent) {
+    return;
+  }
+
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  byId.set(task.id, task);
+
+  if (task.parent !== task.id && !byId.has(task.parent)) {
+    throw new InvalidParentError(task.id, `parent task not found: ${task.parent}`);
+  }
+
+  // Walk up the parent chain until it ends or repeats
+  const chain = [task.id];
+  let parentId: string | undefined = task.parent;
+  while (parentId && !chain.includes(parentId)) {
+    chain.push(parentId);
+    parentId = byId.get(parentId)?.parent;
+  }
+
+  if (parentId === task.id) {
+    throw new InvalidParentError(task.id, `parent cycle: ${[...chain, task.id].join(' -> ')}`);
+  }
+}
+
+/**
+ * Arrange tasks into parent/child trees with completion roll-ups.
+ * Tasks whose parent is missing are treated as roots.
+ */
+export function buildTaskTree(tasks: Task[], config?: SabinConfig): TaskTreeNode[] {
+  const ids = new Set(tasks.map(t => t.id));
+  const childrenOf = new Map<string, Task[]>();
+
+  for (const task of tasks) {
+    if (task.parent && ids.has(task.parent)) {
+      const siblings = childrenOf.get(task.parent) || [];
+      siblings.push(task);
+      childrenOf.set(task.parent, siblings);
+    }
+  }
+
+  const build = (task: Task, trail: Set<string>): TaskTreeNode => {
+    const path = new Set(trail).add(task.id);
+    const children = (childrenOf.get(task.id) || [])
+      .filter(child => !path.has(child.id))
+      .map(child => build(child, path));
+
+    return {
+      task,
+      children,
+      total: children.reduce((sum, child) => sum + 1 + child.total, 0),
+      completed: children.reduce(
+        (sum, child) => sum + (isCompletedStatus(child.task.status, config) ? 1 : 0) + child.completed,
+        0
+      )
+    };
+  };
+
+  return tasks
+    .filter(task => !task.parent || !ids.has(task.parent))
+    .map(task => build(task, new Set()));
+}
@@ -0,0 +1,138 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { withLock } from './lock';
+
+const execFileAsync = promisify(execFile);
+
+/** Changes recorded without a change of status */
+export type HistoryAction = 'archive' | 'delete' | 'restore';
+
+export interface HistoryEntry {
+  taskId: string;
+  /** ISO 8601 time of the change */
+  timestamp: string;
+  /** Previous status, or null when the task was created */
+  from: string | null;
+  to: string;
+  /** Who made the change, from SABIN_ACTOR or git config */
+  actor?: string;
+  /** Linked project the change was made from */
+  workingDir?: string;
+  /** Set when the task was archived, deleted or restored; from and to are then its unchanged status */
+  action?: HistoryAction;
+}
+
+/**
+ * Get the path to the status history log
+ */
+export function getHistoryPath(sabinDir: string): string {
+  return path.join(sabinDir, 'history.jsonl');
+}
+
+/**
+ * Lock held while the history log is written. It is separate from the lock
+ * task IDs are allocated under, so a rename holding that one can still write.
+ */
+function getHistoryLockPath(sabinDir: string): string {
+  return path.join(sabinDir, '.history.lock');
+}
+
+/**
+ * Append a status change to the history log
+ */
+export async function appendHistory(sabinDir: string, entry: HistoryEntry): Promise<void> {
+  await fs.mkdir(sabinDir, { recursive: true });
+  await withLock(getHistoryLockPath(sabinDir), () =>
+    fs.appendFile(getHistoryPath(sabinDir), JSON.stringify(entry) + '\n')
+  );
+}
+
+/**
+ * Read the history log, optionally only the entries for one task.
+ * Returns an empty list when nothing has been recorded yet.
+ */
+export async function readHistory(sabinDir: string, taskId?: string): Promise<HistoryEntry[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(getHistoryPath(sabinDir), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const entries: HistoryEntry[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Skip lines left behind by interrupted writes
+    }
+  }
+
+  return taskId ? entries.filter(entry => entry.taskId === taskId) : entries;
+}
+
+/**
+ * Point the recorded history of a task at its new ID after a rename.
+ * The log is rewritten under the history lock, so no entry appended
+ * in the meantime is lost.
+ */
+export async function renameHistory(sabinDir: string, oldId: string, newId: string): Promise<void> {
+  await withLock(getHistoryLockPath(sabinDir), () => rewriteHistory(sabinDir, oldId, newId));
+}
+
+async function rewriteHistory(sabinDir: string, oldId: string, newId: string): Promise<void> {
+  let content: string;
+  try {
+    content = await fs.readFile(getHistoryPath(sabinDir), 'utf8');
+  } catch {
+    return;
+  }
+
+  let changed = false;
+  const lines = content.split('\n').map(line => {
+    try {
+      const entry: HistoryEntry = JSON.parse(line);
+      if (entry.taskId === oldId) {
+        changed = true;
+        return JSON.stringify({ ...entry, taskId: newId });
+      }
+    } catch {
+      // Keep blank and unreadable lines as they are
+    }
+    return line;
+  });
+
+  if (changed) {
+    await fs.writeFile(getHistoryPath(sabinDir), lines.join('\n'));
+  }
+}
+
+/**
+ * Work out who is making changes: SABIN_ACTOR if set,
+ * otherwise the git user name and email
+ */
+export async function resolveActor(cwd?: string): Promise<string | undefined> {
+  if (process.env.SABIN_ACTOR) {
+    return process.env.SABIN_ACTOR;
+  }
+
+  const gitConfig = async (key: string): Promise<string> => {
+    try {
+      const { stdout } = await execFileAsync('git', ['config', key], { cwd });
+      return stdout.trim();
+    } catch {
+      return '';
+    }
+  };
+
+  const [name, email] = await Promise.all([gitConfig('user.name'), gitConfig('user.email')]);
+  if (name && email) {
+    return `${name} <${email}>`;
+  }
+  return name || email || undefined;
+}
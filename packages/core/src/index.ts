@@ -1,6 +1,28 @@
 export * from './types';
 export * from './markdown';
+export * from './frontmatter';
 export * from './errors';
 export * from './config';
+export * from './configSchema';
+export * from './statuses';
+export * from './transitions';
+export * from './dependencies';
+export * from './hierarchy';
+export * from './history';
+export * from './lock';
+export * from './trash';
+export * from './plans';
+export * from './research';
+export * from './checklist';
+export * from './todo';
+export * from './priority';
+export * from './stats';
 export * from './sabinResolver';
-export * from './workingDir';
\ No newline at end of file
+export * from './workingDir';
+export * from './taskIdResolver';
+export * from './taskQuery';
+export * from './search';
+export * from './taskFields';
+export * from './doctor';
+export * from './migrate';
+export * from './taskRepository';
\ No newline at end of file
@@ -0,0 +1,94 @@
+import fs from 'fs/promises';
+import { Stats } from 'fs';
+import { randomBytes } from 'crypto';
+import { LockTimeoutError } from './errors';
+
+export interface LockOptions {
+  /** How long to keep retrying before giving up, in milliseconds */
+  timeout?: number;
+  /** Age after which a lock left behind by a crashed process is removed, in milliseconds */
+  staleAfter?: number;
+  /** Delay between attempts, in milliseconds */
+  retryDelay?: number;
+}
+
+/**
+ * Run a function while holding an exclusive lock file.
+ * The lock is created with O_EXCL, so only one process across all
+ * projects sharing the .sabin directory can hold it at a time.
+ */
+export async function withLock<T>(lockPath: string, fn: () => Promise<T>, options: LockOptions = {}): Promise<T> {
+  const { timeout = 10000, staleAfter = 30000, retryDelay = 25 } = options;
+  const deadline = Date.now() + timeout;
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(String(process.pid));
+      await handle.close();
+      break;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const stale = await getStaleLock(lockPath, staleAfter);
+    if (stale) {
+      await removeStaleLock(lockPath, stale);
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new LockTimeoutError(lockPath);
+    }
+    await new Promise(resolve => setTimeout(resolve, retryDelay + Math.random() * retryDelay));
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.rm(lockPath, { force: true });
+  }
+}
+
+async function getStaleLock(lockPath: string, staleAfter: number): Promise<Stats | undefined> {
+  try {
+    const stats = await fs.stat(lockPath);
+    return Date.now() - stats.mtimeMs > staleAfter ? stats : undefined;
+  } catch {
+    // Released between our attempt and the check
+    return undefined;
+  }
+}
+
+/**
+ * Move a stale lock aside under a unique name before deleting it. The rename
+ * is atomic, so when several waiters find the same stale lock only one of
+ * them moves it. A waiter that finds it moved a newer lock, taken by another
+ * waiter after the check, puts that lock back.
+ */
+async function removeStaleLock(lockPath: string, stale: Stats): Promise<void> {
+  const movedPath = `${lockPath}.${process.pid}.${randomBytes(4).toString('hex')}.stale`;
+  try {
+    await fs.rename(lockPath, movedPath);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      return;
+    }
+    throw error;
+  }
+
+  const moved = await fs.stat(movedPath);
+  if (moved.ino !== stale.ino || moved.mtimeMs !== stale.mtimeMs) {
+    try {
+      // link, unlike rename, never replaces a lock taken in the meantime
+      await fs.link(movedPath, lockPath);
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+  await fs.rm(movedPath, { force: true });
+}
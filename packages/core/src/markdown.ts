@@ -1,32 +1,73 @@
-import matter from 'gray-matter';
 import fs from 'fs/promises';
 import path from 'path';
 import { Task, SabinConfig } from './types';
 import { readConfig } from './config';
+import { getStatusFolders } from './statuses';
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter';
+import { TASK_BINS, getBinDir } from './trash';
+
+/** Frontmatter fields mapped onto Task properties; everything else is kept in `extra` */
+export const TASK_FIELDS = ['status', 'title', 'plan', 'workingDir', 'dependsOn', 'parent'] as const;
 
 export async function parseTask(filePath: string): Promise<Task> {
   const content = await fs.readFile(filePath, 'utf8');
-  const { data, content: body } = matter(content);
+  const { data, raw, body } = parseFrontmatter(content);
+
+  const extra = Object.fromEntries(
+    Object.entries(data).filter(([key]) => !(TASK_FIELDS as readonly string[]).includes(key))
+  );
 
   return {
-    status: data.status || 'open',
-    title: data.title,
-    plan: data.plan,
+    id: path.basename(filePath, '.md'),
+    status: (data.status as string) || 'open',
+    title: data.title as string,
+    plan: data.plan as string | undefined,
+    workingDir: data.workingDir as string | undefined,
+    dependsOn: parseIdList(data.dependsOn),
+    parent: data.parent === undefined || data.parent === null ? undefined : String(data.parent),
+    extra: Object.keys(extra).length > 0 ? extra : undefined,
+    rawFrontmatter: raw || undefined,
     content: body,
     path: filePath
   };
 }
 
-export async function writeTask(task: Task): Promise<void> {
-  const { path: taskPath, content, ...frontmatter } = task;
+/**
+ * Normalize a frontmatter ID list, accepting a single ID or a YAML list
+ */
+function parseIdList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const ids = Array.isArray(value) ? value : [value];
+  return ids.map(id => String(id).trim()).filter(Boolean);
+}
+
+export interface WriteTaskOptions {
+  /** Fail with EEXIST instead of overwriting an existing file */
+  exclusive?: boolean;
+}
+
+export async function writeTask(task: Task, options: WriteTaskOptions = {}): Promise<void> {
+  // The ID comes from the filename and is never stored in frontmatter
+  const frontmatter: Record<string, unknown> = {};
+  for (const field of TASK_FIELDS) {
+    frontmatter[field] = task[field];
+  }
+  Object.assign(frontmatter, task.extra);
 
   // Remove undefined values from frontmatter
   const cleanFrontmatter = Object.fromEntries(
     Object.entries(frontmatter).filter(([_, value]) => value !== undefined)
   );
 
-  const fileContent = matter.stringify(content, cleanFrontmatter);
-  await fs.writeFile(taskPath, fileContent);
+  const fileContent = stringifyFrontmatter(cleanFrontmatter, task.content, task.rawFrontmatter);
+  if (options.exclusive) {
+    await fs.writeFile(task.path, fileContent, { flag: 'wx' });
+  } else {
+    await fs.writeFile(task.path, fileContent);
+  }
+  task.rawFrontmatter = fileContent.startsWith('---\n') ? parseFrontmatter(fileContent).raw : undefined;
 }
 
 export async function getNextTaskNumber(tasksDir: string, config?: SabinConfig): Promise<string> {
@@ -34,20 +75,27 @@ export async function getNextTaskNumber(tasksDir: string, config?: SabinConfig):
   const sabinDir = path.dirname(tasksDir);
   const actualConfig = config || await readConfig(sabinDir);
 
-  const openDir = path.join(tasksDir, 'open');
-  const completedDir = path.join(tasksDir, 'completed');
-
   let maxNumber = 0;
 
-  try {
-    const openFiles = await fs.readdir(openDir);
-    const completedFiles = await fs.readdir(completedDir);
-    const allFiles = [...openFiles, ...completedFiles];
+  // Create regex pattern based on configured prefix
+  const pattern = new RegExp(`^${actualConfig.projectPrefix}-(\\d+)\\.md$`);
 
-    // Create regex pattern based on configured prefix
-    const pattern = new RegExp(`^${actualConfig.projectPrefix}-(\\d+)\\.md$`);
+  // Archived and trashed tasks keep their IDs so they can be restored
+  const dirs = [
+    ...getStatusFolders(actualConfig).map(folder => path.join(tasksDir, folder)),
+    ...TASK_BINS.map(bin => getBinDir(sabinDir, bin))
+  ];
 
-    for (const file of allFiles) {
+  for (const dir of dirs) {
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      // Directories might not exist yet
+      continue;
+    }
+
+    for (const file of files) {
       const match = file.match(pattern);
       if (match) {
         const num = parseInt(match[1], 10);
@@ -56,9 +104,7 @@ export async function getNextTaskNumber(tasksDir: string, config?: SabinConfig):
         }
       }
     }
-  } catch (error) {
-    // Directories might not exist yet
   }
 
   return String(maxNumber + 1).padStart(actualConfig.taskNumberPadding, '0');
-}
\ No newline at end of file
+}
@@ -0,0 +1,235 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Task, SabinConfig } from './types';
+import { parseTask, writeTask } from './markdown';
+import { getDefaultConfig, writeConfig, readConfigFile } from './config';
+import { getStatuses, getStatusDefinition, getStatusFolders, getLegacyStatusReplacement } from './statuses';
+import { getPlansDir } from './plans';
+import { getResearchDir } from './research';
+import { SabinError } from './errors';
+
+/**
+ * Version of the .sabin layout this release reads and writes, recorded as
+ * `schemaVersion` in config.json. Layouts without one are version 0:
+ * tasks in `tickets/open` and `tickets/resolved`, with a `resolved` status.
+ */
+export const SCHEMA_VERSION = 1;
+
+export interface MigrationStep {
+  /** What was done, or would be done in a dry run */
+  description: string;
+  path?: string;
+}
+
+export interface MigrationResult {
+  fromVersion: number;
+  toVersion: number;
+  steps: MigrationStep[];
+  /** Files left in place because their ID is taken or they could not be read */
+  skipped: MigrationStep[];
+}
+
+export interface MigrateOptions {
+  /** Work out the steps without changing anything */
+  dryRun?: boolean;
+}
+
+interface LegacyTaskFile {
+  path: string;
+  /** Folder the file was found in, relative to the .sabin directory */
+  folder: string;
+}
+
+/**
+ * Read the layout version recorded in config.json, 0 when there is none
+ */
+export async function getSchemaVersion(sabinDir: string): Promise<number> {
+  const config = await readConfigFile(sabinDir);
+  return typeof config?.schemaVersion === 'number' ? config.schemaVersion : 0;
+}
+
+/**
+ * Find task files in folders of older layouts: any subfolder of `tickets/`,
+ * and `tasks/resolved/`, where completed tasks were once kept
+ */
+export async function findLegacyTaskFiles(sabinDir: string): Promise<LegacyTaskFile[]> {
+  const folders = [path.join('tasks', 'resolved')];
+  try {
+    const entries = await fs.readdir(path.join(sabinDir, 'tickets'), { withFileTypes: true });
+    folders.push(...entries.filter(e => e.isDirectory()).map(e => path.join('tickets', e.name)).sort());
+  } catch {
+    // No tickets/ folder
+  }
+
+  const files: LegacyTaskFile[] = [];
+  for (const folder of folders) {
+    let names: string[];
+    try {
+      names = await fs.readdir(path.join(sabinDir, folder));
+    } catch {
+      continue;
+    }
+    for (const name of names.filter(n => n.endsWith('.md')).sort()) {
+      files.push({ path: path.join(sabinDir, folder, name), folder });
+    }
+  }
+  return files;
+}
+
+/**
+ * Upgrade a .sabin directory to the current layout: move tasks out of
+ * legacy folders into `tasks/<folder>`, convert legacy statuses, create
+ * missing folders and record the schema version in config.json.
+ * Tasks are never overwritten; a file whose ID is taken is left in place
+ * and reported as skipped, and the schema version is not recorded until
+ * a later run has nothing left to skip.
+ */
+export async function migrateSabinDir(sabinDir: string, options: MigrateOptions = {}): Promise<MigrationResult> {
+  const rawConfig = await readConfigFile(sabinDir);
+  const fromVersion = typeof rawConfig?.schemaVersion === 'number' ? rawConfig.schemaVersion : 0;
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new SabinError(
+      `config.json has schemaVersion ${fromVersion}, but this version of Sabin only supports up to ${SCHEMA_VERSION}`,
+      'UNSUPPORTED_SCHEMA_VERSION'
+    );
+  }
+
+  const result: MigrationResult = { fromVersion, toVersion: fromVersion, steps: [], skipped: [] };
+  if (fromVersion === SCHEMA_VERSION) {
+    return result;
+  }
+
+  let legacyFiles = await findLegacyTaskFiles(sabinDir);
+  const config: SabinConfig = rawConfig
+    ? { ...getDefaultConfig(), ...rawConfig }
+    : { ...getDefaultConfig(), ...inferNumbering(legacyFiles.map(f => path.basename(f.path, '.md'))) };
+  // A configured status may still use one of the legacy folders
+  legacyFiles = legacyFiles.filter(f => !getStatusFolders(config).some(folder => f.folder === path.join('tasks', folder)));
+  const statuses = getStatuses(config);
+  const tasksDir = path.join(sabinDir, 'tasks');
+  const step = (description: string, filePath?: string) => result.steps.push({ description, path: filePath });
+
+  if (!rawConfig) {
+    step(`Create config.json with prefix ${config.projectPrefix}`, path.join(sabinDir, 'config.json'));
+  }
+
+  for (const dir of [...getStatusFolders(config).map(f => path.join(tasksDir, f)), getPlansDir(sabinDir), getResearchDir(sabinDir)]) {
+    if (!await exists(dir)) {
+      step(`Create ${path.relative(sabinDir, dir)}/`, dir);
+      if (!options.dryRun) {
+        await fs.mkdir(dir, { recursive: true });
+      }
+    }
+  }
+
+  // Tasks in legacy folders, then tasks in the current folders that still use a legacy status
+  const currentFiles: LegacyTaskFile[] = [];
+  for (const folder of getStatusFolders(config)) {
+    let names: string[] = [];
+    try {
+      names = await fs.readdir(path.join(tasksDir, folder));
+    } catch {
+      // Created above, or about to be
+    }
+    for (const name of names.filter(n => n.endsWith('.md')).sort()) {
+      currentFiles.push({ path: path.join(tasksDir, folder, name), folder: path.join('tasks', folder) });
+    }
+  }
+
+  // Paths written so far, so a dry run reports clashes between legacy folders too
+  const movedTo = new Set<string>();
+  for (const file of [...legacyFiles, ...currentFiles]) {
+    const isLegacyFolder = legacyFiles.includes(file);
+    let task: Task;
+    try {
+      task = await parseTask(file.path);
+    } catch (error: any) {
+      result.skipped.push({ description: `Could not read ${path.relative(sabinDir, file.path)}: ${error.message}`, path: file.path });
+      continue;
+    }
+    const replacement = getLegacyStatusReplacement(task.status);
+    const status = replacement && getStatusDefinition(replacement, config) ? replacement : task.status;
+    if (!isLegacyFolder && status === task.status) {
+      continue;
+    }
+
+    // Unknown statuses are kept for `sabin doctor` to report; the file goes where its old folder suggests
+    const definition = getStatusDefinition(status, config)
+      || (path.basename(file.folder) === 'resolved' ? statuses.find(s => s.folder === 'completed') : undefined)
+      || statuses[0];
+    const newPath = path.join(tasksDir, definition.folder, path.basename(file.path));
+    const change = status !== task.status ? ` (status ${task.status} -> ${status})` : '';
+    const description = newPath === file.path
+      ? `Change the status of ${task.id} from ${task.status} to ${status}`
+      : `Move ${path.relative(sabinDir, file.path)} to tasks/${definition.folder}/${change}`;
+
+    if (newPath !== file.path && (await exists(newPath) || movedTo.has(newPath))) {
+      result.skipped.push({
+        description: `${task.id} already exists in tasks/${definition.folder}/; left ${path.relative(sabinDir, file.path)} in place`,
+        path: file.path
+      });
+      continue;
+    }
+
+    movedTo.add(newPath);
+    step(description, file.path);
+    if (!options.dryRun) {
+      await writeTask({ ...task, status, path: newPath }, { exclusive: newPath !== file.path });
+      if (newPath !== file.path) {
+        await fs.unlink(file.path);
+      }
+    }
+  }
+
+  if (!options.dryRun) {
+    // Only folders that are now empty are removed
+    for (const folder of [...new Set(legacyFiles.map(f => f.folder)), 'tickets']) {
+      await fs.rmdir(path.join(sabinDir, folder)).catch(() => undefined);
+    }
+  }
+
+  // Skipped files stay in the legacy folders, so the version is only
+  // recorded once they are resolved and the migration is run again
+  if (result.skipped.length > 0) {
+    if (!rawConfig && !options.dryRun) {
+      await writeConfig(config, sabinDir);
+    }
+    return result;
+  }
+
+  step(`Record schemaVersion ${SCHEMA_VERSION} in config.json`, path.join(sabinDir, 'config.json'));
+  if (!options.dryRun) {
+    await writeConfig({ ...(rawConfig || config), schemaVersion: SCHEMA_VERSION } as SabinConfig, sabinDir);
+  }
+
+  result.toVersion = SCHEMA_VERSION;
+  return result;
+}
+
+/**
+ * Guess the prefix and number padding from the IDs of legacy files,
+ * e.g. TICKET and 4 for TICKET-0001, using the most common prefix
+ */
+function inferNumbering(ids: string[]): Partial<SabinConfig> {
+  const counts = new Map<string, { count: number; padding: number }>();
+  for (const id of ids) {
+    const match = id.match(/^([A-Za-z][A-Za-z0-9]*)-(\d+)$/);
+    if (match) {
+      const entry = counts.get(match[1]) || { count: 0, padding: match[2].length };
+      entry.count++;
+      counts.set(match[1], entry);
+    }
+  }
+
+  const [prefix, entry] = [...counts].sort((a, b) => b[1].count - a[1].count)[0] || [];
+  return prefix ? { projectPrefix: prefix, taskNumberPadding: entry.padding } : {};
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
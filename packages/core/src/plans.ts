@@ -0,0 +1,106 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Task } from './types';
+
+/**
+ * Resolve a task's `plan` field to an existing file.
+ *
+ * Plan paths are usually written relative to the project root
+ * (`.sabin/plans/x.md`), but paths relative to the .sabin directory
+ * (`plans/x.md`) and absolute paths are accepted too.
+ * Returns null when no candidate exists.
+ */
+export async function resolvePlanPath(sabinDir: string, plan: string): Promise<string | null> {
+  const candidates = path.isAbsolute(plan)
+    ? [plan]
+    : [path.resolve(path.dirname(sabinDir), plan), path.resolve(sabinDir, plan)];
+
+  for (const candidate of candidates) {
+    try {
+      const stat = await fs.stat(candidate);
+      if (stat.isFile()) {
+        return candidate;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the path to the plans directory
+ */
+export function getPlansDir(sabinDir: string): string {
+  return path.join(sabinDir, 'plans');
+}
+
+/**
+ * Name a plan file after its task, e.g. `TASK-0001-add-login-page.md`
+ */
+export function getPlanFileName(task: Task): string {
+  const slug = slugify(task.title || '');
+  return slug ? `${task.id}-${slug}.md` : `${task.id}.md`;
+}
+
+/**
+ * Turn a title into a lowercase, dash-separated file name part of at most 50 characters
+ */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Format a plan path the way task frontmatter stores it:
+ * relative to the project root, e.g. `.sabin/plans/x.md`
+ */
+export function formatPlanLink(sabinDir: string, planPath: string): string {
+  return path.relative(path.dirname(sabinDir), planPath).split(path.sep).join('/');
+}
+
+/**
+ * Scaffold a plan for a task with the standard sections:
+ * Overview, Current State, Desired End State, Phases and Success Criteria
+ */
+export function renderPlanTemplate(task: Task): string {
+  return `# Implementation Plan: ${task.title} (${task.id})
+
+## Overview
+
+<!-- What we're building and why -->
+
+## Current State
+
+<!-- What exists now, with file references -->
+
+## Desired End State
+
+<!-- What success looks like and how to verify it -->
+
+### What We're NOT Doing
+
+<!-- Out of scope, to prevent scope creep -->
+
+## Phases
+
+### Phase 1: <!-- name -->
+
+#### Changes
+
+<!-- Files to change and the specific changes -->
+
+#### Success Criteria
+
+- [ ] <!-- e.g. tests pass -->
+
+## Success Criteria
+
+- [ ] <!-- Overall criteria for completing the task -->
+`;
+}
@@ -0,0 +1,66 @@
+import { Task, SabinConfig } from './types';
+import { getBlockingDependencies } from './dependencies';
+import { getReadyStatus } from './statuses';
+
+/** Named priorities, most urgent first; `P0`-`P3` and `0`-`3` rank the same */
+export const PRIORITY_LEVELS = ['critical', 'high', 'medium', 'low'] as const;
+
+/** Rank of tasks without a priority, or with one Sabin does not recognize */
+const DEFAULT_RANK = PRIORITY_LEVELS.indexOf('medium');
+
+export interface FindNextTaskOptions {
+  /** Status to pick from, the configured ready status by default */
+  status?: string;
+  /** Working directory of the current project; tasks claimed by others are skipped */
+  workingDir?: string;
+  config?: SabinConfig;
+}
+
+/**
+ * Rank a task's `priority` frontmatter field, lower is more urgent.
+ * Accepts critical/high/medium/low, P0-P3 or a number.
+ */
+export function getPriorityRank(task: Task): number {
+  const value = task.extra?.priority;
+
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string') {
+    const name = value.trim().toLowerCase();
+    const level = PRIORITY_LEVELS.indexOf(name as typeof PRIORITY_LEVELS[number]);
+    if (level !== -1) {
+      return level;
+    }
+    const numbered = name.match(/^p?(\d+)$/);
+    if (numbered) {
+      return parseInt(numbered[1], 10);
+    }
+  }
+
+  return DEFAULT_RANK;
+}
+
+/**
+ * Order tasks by priority, then by ID so older tasks come first
+ */
+export function comparePriority(a: Task, b: Task): number {
+  return getPriorityRank(a) - getPriorityRank(b)
+    || a.id.localeCompare(b.id, undefined, { numeric: true });
+}
+
+/**
+ * Pick the most urgent task in a status whose dependencies are completed
+ * and that no other working directory has claimed. Returns null when none qualifies.
+ */
+export function findNextTask(tasks: Task[], options: FindNextTaskOptions = {}): Task | null {
+  const status = options.status || getReadyStatus(options.config);
+
+  const candidates = tasks
+    .filter(task => task.status === status)
+    .filter(task => !task.workingDir || task.workingDir === options.workingDir)
+    .filter(task => getBlockingDependencies(task, tasks, options.config).length === 0)
+    .sort(comparePriority);
+
+  return candidates[0] || null;
+}
@@ -0,0 +1,170 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { parseFrontmatter, stringifyFrontmatter } from './frontmatter';
+import { slugify } from './plans';
+import { SabinError, ResearchNotFoundError, ResearchAlreadyExistsError } from './errors';
+
+export interface ResearchNote {
+  /** File name without the .md extension */
+  name: string;
+  title: string;
+  /** IDs of the tasks the note is linked to in its `tasks` frontmatter */
+  tasks: string[];
+  content: string;
+  path: string;
+}
+
+/**
+ * Get the path to the research notes directory
+ */
+export function getResearchDir(sabinDir: string): string {
+  return path.join(sabinDir, 'research');
+}
+
+/**
+ * Read every research note, sorted by file name.
+ * Returns an empty list when the research directory does not exist.
+ */
+export async function listResearch(sabinDir: string): Promise<ResearchNote[]> {
+  const researchDir = getResearchDir(sabinDir);
+  let files: string[];
+
+  try {
+    files = (await fs.readdir(researchDir)).filter(f => f.endsWith('.md')).sort();
+  } catch {
+    return [];
+  }
+
+  const notes: ResearchNote[] = [];
+  for (const file of files) {
+    const filePath = path.join(researchDir, file);
+    const name = path.basename(file, '.md');
+    const source = await fs.readFile(filePath, 'utf8');
+
+    let data: Record<string, unknown> = {};
+    let content = source;
+    try {
+      ({ data, body: content } = parseFrontmatter(source));
+    } catch {
+      // Notes are free-form; treat unparsable frontmatter as part of the body
+    }
+
+    const heading = content.match(/^#\s+(.+)$/m);
+    notes.push({
+      name,
+      title: typeof data.title === 'string' ? data.title : heading ? heading[1].trim() : name,
+      tasks: toIdList(data.tasks ?? data.task),
+      content,
+      path: filePath
+    });
+  }
+
+  return notes;
+}
+
+/**
+ * Find the research notes that reference a task, either through their
+ * `tasks` frontmatter or by mentioning its ID in the text
+ */
+export async function findResearchForTask(sabinDir: string, taskId: string): Promise<ResearchNote[]> {
+  return (await listResearch(sabinDir)).filter(note => referencesTask(note, taskId));
+}
+
+/**
+ * Group notes by the tasks they reference, for looking up many tasks at once.
+ * Tasks without notes are left out.
+ */
+export function groupResearchByTask(notes: ResearchNote[], taskIds: string[]): Map<string, ResearchNote[]> {
+  const groups = new Map<string, ResearchNote[]>();
+
+  for (const taskId of taskIds) {
+    const linked = notes.filter(note => referencesTask(note, taskId));
+    if (linked.length > 0) {
+      groups.set(taskId, linked);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Find a note by file name, with or without the .md extension, or by path.
+ * Throws ResearchNotFoundError when there is no such note.
+ */
+export async function getResearch(sabinDir: string, name: string): Promise<ResearchNote> {
+  const notes = await listResearch(sabinDir);
+  const note = notes.find(n => n.name === path.basename(name, '.md'))
+    ?? notes.find(n => n.path === path.resolve(name));
+
+  if (!note) {
+    throw new ResearchNotFoundError(name);
+  }
+  return note;
+}
+
+/**
+ * Write a new note for a topic, named after it and linked to the given
+ * tasks in its frontmatter. Never overwrites an existing note.
+ */
+export async function createResearch(sabinDir: string, topic: string, taskIds: string[] = []): Promise<ResearchNote> {
+  const name = slugify(topic);
+  if (!name) {
+    throw new SabinError(`Research topic needs at least one letter or digit: "${topic}"`, 'INVALID_RESEARCH_TOPIC');
+  }
+
+  const researchDir = getResearchDir(sabinDir);
+  const filePath = path.join(researchDir, `${name}.md`);
+  const data: Record<string, unknown> = { title: topic.trim() };
+  if (taskIds.length > 0) {
+    data.tasks = taskIds;
+  }
+  data.created = new Date().toISOString().slice(0, 10);
+  const content = renderResearchTemplate(topic.trim());
+
+  await fs.mkdir(researchDir, { recursive: true });
+  try {
+    await fs.writeFile(filePath, stringifyFrontmatter(data, content), { flag: 'wx' });
+  } catch (error: any) {
+    if (error.code === 'EEXIST') {
+      throw new ResearchAlreadyExistsError(`${name}.md`);
+    }
+    throw error;
+  }
+
+  return { name, title: topic.trim(), tasks: taskIds, content, path: filePath };
+}
+
+function renderResearchTemplate(topic: string): string {
+  return `
+# ${topic}
+
+## Question
+
+<!-- What we need to find out, and for which task -->
+
+## Findings
+
+<!-- What we learned, with file references and code examples -->
+
+## Sources
+
+<!-- Links, docs and files consulted -->
+`;
+}
+
+function referencesTask(note: ResearchNote, taskId: string): boolean {
+  const mention = new RegExp(`(^|[^\\w-])${escapeRegExp(taskId)}(?![\\w-])`);
+  return note.tasks.includes(taskId) || mention.test(note.content);
+}
+
+function toIdList(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  const ids = Array.isArray(value) ? value : [value];
+  return ids.map(id => String(id).trim()).filter(Boolean);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
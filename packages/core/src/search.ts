@@ -0,0 +1,88 @@
+import fs from 'fs/promises';
+import { Task } from './types';
+import { resolvePlanPath } from './plans';
+
+export type SearchSource = 'title' | 'content' | 'plan';
+
+export interface SearchMatch {
+  source: SearchSource;
+  /** One-based line number within the source */
+  line: number;
+  /** The matching line, shortened around the first match */
+  snippet: string;
+  /** Start and end offsets of every match within the snippet */
+  highlights: [number, number][];
+}
+
+export interface SearchResult {
+  task: Task;
+  matches: SearchMatch[];
+}
+
+export interface SearchOptions {
+  /** Search linked plan files too; plan paths are resolved against this .sabin directory */
+  sabinDir?: string;
+  /** Characters of context kept on each side of the first match */
+  context?: number;
+}
+
+/**
+ * Search task titles, bodies and linked plans for text, ignoring case.
+ * Tasks whose title matches come first, then those with the most matches.
+ */
+export async function searchTasks(tasks: Task[], text: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+  const query = text.trim().toLowerCase();
+  if (!query) {
+    return [];
+  }
+
+  const context = options.context ?? 40;
+  const results: SearchResult[] = [];
+
+  for (const task of tasks) {
+    const matches = [
+      ...findMatches('title', task.title || '', query, context),
+      ...findMatches('content', task.content, query, context)
+    ];
+
+    if (options.sabinDir && task.plan) {
+      const planPath = await resolvePlanPath(options.sabinDir, task.plan);
+      if (planPath) {
+        matches.push(...findMatches('plan', await fs.readFile(planPath, 'utf8'), query, context));
+      }
+    }
+
+    if (matches.length > 0) {
+      results.push({ task, matches });
+    }
+  }
+
+  const titleMatch = (result: SearchResult) => result.matches.some(m => m.source === 'title') ? 1 : 0;
+  return results.sort((a, b) => titleMatch(b) - titleMatch(a) || b.matches.length - a.matches.length);
+}
+
+function findMatches(source: SearchSource, text: string, query: string, context: number): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+
+  text.split('\n').forEach((lineText, index) => {
+    const first = lineText.toLowerCase().indexOf(query);
+    if (first === -1) {
+      return;
+    }
+
+    const from = Math.max(0, first - context);
+    const to = Math.min(lineText.length, first + query.length + context);
+    const prefix = from > 0 ? '…' : '';
+    const snippet = prefix + lineText.slice(from, to) + (to < lineText.length ? '…' : '');
+
+    const highlights: [number, number][] = [];
+    const lower = snippet.toLowerCase();
+    for (let at = lower.indexOf(query); at !== -1; at = lower.indexOf(query, at + query.length)) {
+      highlights.push([at, at + query.length]);
+    }
+
+    matches.push({ source, line: index + 1, snippet, highlights });
+  });
+
+  return matches;
+}
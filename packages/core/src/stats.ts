@@ -0,0 +1,219 @@
+import { Task, SabinConfig } from './types';
+import { HistoryEntry } from './history';
+import { getStatuses, isCompletedStatus } from './statuses';
+
+export interface FlowStatsOptions {
+  /** Only count completions and status visits that end at or after this time */
+  since?: Date;
+  /** Only count completions and status visits that end at or before this time */
+  until?: Date;
+  config?: SabinConfig;
+  /**
+   * ISO times at which completed tasks were finished, keyed by task ID, for
+   * tasks the history has no completion entry for (e.g. file modification times)
+   */
+  completedAt?: Record<string, string>;
+}
+
+export interface DurationSummary {
+  count: number;
+  /** Mean duration in hours, or null when there is nothing to measure */
+  averageHours: number | null;
+  medianHours: number | null;
+}
+
+export interface StatusCycleTime extends DurationSummary {
+  status: string;
+  name: string;
+}
+
+export interface WeeklyThroughput {
+  /** Monday the week starts on (UTC), as YYYY-MM-DD */
+  week: string;
+  completed: number;
+}
+
+export interface WorkInProgress {
+  /** Linked project the tasks are claimed by, or null for unclaimed tasks */
+  workingDir: string | null;
+  count: number;
+  byStatus: Record<string, number>;
+}
+
+export interface FlowStats {
+  since?: string;
+  until?: string;
+  /** Time from creation to completion, for tasks completed in the period */
+  leadTime: DurationSummary;
+  /** Time spent per visit to each status, for visits that ended in the period */
+  cycleTime: StatusCycleTime[];
+  throughput: WeeklyThroughput[];
+  /** Current tasks past the first status that are not completed */
+  wip: WorkInProgress[];
+}
+
+const HOUR = 60 * 60 * 1000;
+const WEEK = 7 * 24 * HOUR;
+
+/**
+ * Compute lead time, cycle time per status, weekly throughput and
+ * work in progress from the tasks and their status history
+ */
+export function computeFlowStats(tasks: Task[], history: HistoryEntry[], options: FlowStatsOptions = {}): FlowStats {
+  const { since, until, config } = options;
+  const statuses = getStatuses(config);
+  const inPeriod = (time: number) =>
+    (!since || time >= since.getTime()) && (!until || time <= until.getTime());
+
+  const entriesByTask = new Map<string, HistoryEntry[]>();
+  for (const entry of history) {
+    const entries = entriesByTask.get(entry.taskId) || [];
+    entries.push(entry);
+    entriesByTask.set(entry.taskId, entries);
+  }
+
+  const visits = new Map<string, number[]>();
+  const completions = new Map<string, number>();
+  const leadTimes: number[] = [];
+
+  for (const [taskId, entries] of entriesByTask) {
+    entries.sort((a, b) => Date.parse(a.timestamp) - Date.parse(b.timestamp));
+
+    // A visit ends at the next status change; time spent archived or in the trash is left out
+    let visit: { status: string; start: number; elapsed: number } | undefined;
+    for (const entry of entries) {
+      const time = Date.parse(entry.timestamp);
+      if (entry.action) {
+        if (visit && entry.action === 'restore') {
+          visit.start = time;
+        } else if (visit && !isNaN(visit.start)) {
+          visit.elapsed += time - visit.start;
+          visit.start = NaN;
+        }
+        continue;
+      }
+
+      if (visit && inPeriod(time) && !isCompletedStatus(visit.status, config)) {
+        const durations = visits.get(visit.status) || [];
+        durations.push(visit.elapsed + (isNaN(visit.start) ? 0 : time - visit.start));
+        visits.set(visit.status, durations);
+      }
+      visit = { status: entry.to, start: time, elapsed: 0 };
+    }
+
+    const last = entries.filter(entry => !entry.action).pop();
+    if (last && isCompletedStatus(last.to, config)) {
+      completions.set(taskId, Date.parse(last.timestamp));
+    }
+  }
+
+  // The task file has the final say on whether a task is still completed
+  for (const task of tasks) {
+    if (!isCompletedStatus(task.status, config)) {
+      completions.delete(task.id);
+    } else if (!completions.has(task.id) && options.completedAt?.[task.id]) {
+      completions.set(task.id, Date.parse(options.completedAt[task.id]));
+    }
+  }
+
+  for (const [taskId, completed] of completions) {
+    if (!inPeriod(completed)) {
+      completions.delete(taskId);
+      continue;
+    }
+    const created = entriesByTask.get(taskId)?.find(entry => entry.from === null);
+    if (created) {
+      leadTimes.push(completed - Date.parse(created.timestamp));
+    }
+  }
+
+  const cycleTime = statuses
+    .filter(status => !isCompletedStatus(status.id, config))
+    .map(status => ({ status: status.id, name: status.name }));
+  for (const status of visits.keys()) {
+    if (!cycleTime.some(s => s.status === status)) {
+      // Statuses since removed from the config
+      cycleTime.push({ status, name: status });
+    }
+  }
+
+  return {
+    since: since?.toISOString(),
+    until: until?.toISOString(),
+    leadTime: summarize(leadTimes),
+    cycleTime: cycleTime.map(s => ({ ...s, ...summarize(visits.get(s.status) || []) })),
+    throughput: countByWeek([...completions.values()], since, until),
+    wip: countWorkInProgress(tasks, statuses[0]?.id, config)
+  };
+}
+
+/**
+ * Get the Monday (UTC) of the week a time falls in, as YYYY-MM-DD
+ */
+export function getWeekStart(time: number): string {
+  const date = new Date(time);
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - (date.getUTCDay() + 6) % 7);
+  return date.toISOString().slice(0, 10);
+}
+
+function summarize(durations: number[]): DurationSummary {
+  if (durations.length === 0) {
+    return { count: 0, averageHours: null, medianHours: null };
+  }
+
+  const sorted = [...durations].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const average = sorted.reduce((sum, duration) => sum + duration, 0) / sorted.length;
+
+  return { count: sorted.length, averageHours: toHours(average), medianHours: toHours(median) };
+}
+
+function toHours(duration: number): number {
+  return Math.round(duration / HOUR * 100) / 100;
+}
+
+/**
+ * Count completions per week, including weeks without any between the
+ * first and last week of the period
+ */
+function countByWeek(completions: number[], since?: Date, until?: Date): WeeklyThroughput[] {
+  if (completions.length === 0 && (!since || !until)) {
+    return [];
+  }
+
+  const counts = new Map<string, number>();
+  for (const time of completions) {
+    const week = getWeekStart(time);
+    counts.set(week, (counts.get(week) || 0) + 1);
+  }
+
+  const first = Date.parse(getWeekStart(since ? since.getTime() : Math.min(...completions)));
+  const last = Date.parse(getWeekStart(until ? until.getTime() : Math.max(...completions)));
+  const weeks: WeeklyThroughput[] = [];
+  for (let time = first; time <= last; time += WEEK) {
+    const week = getWeekStart(time);
+    weeks.push({ week, completed: counts.get(week) || 0 });
+  }
+  return weeks;
+}
+
+function countWorkInProgress(tasks: Task[], firstStatus: string | undefined, config?: SabinConfig): WorkInProgress[] {
+  const groups = new Map<string | null, WorkInProgress>();
+
+  for (const task of tasks) {
+    if (task.status === firstStatus || isCompletedStatus(task.status, config)) {
+      continue;
+    }
+    const workingDir = task.workingDir || null;
+    const group = groups.get(workingDir) || { workingDir, count: 0, byStatus: {} };
+    group.count++;
+    group.byStatus[task.status] = (group.byStatus[task.status] || 0) + 1;
+    groups.set(workingDir, group);
+  }
+
+  return [...groups.values()].sort((a, b) =>
+    b.count - a.count || (a.workingDir || '').localeCompare(b.workingDir || '')
+  );
+}
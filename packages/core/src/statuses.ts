@@ -0,0 +1,76 @@
+import { SabinConfig, StatusDefinition } from './types';
+
+export const DEFAULT_STATUSES: StatusDefinition[] = [
+  { id: 'open', name: 'Open', color: 'yellow', icon: 'circle-outline', folder: 'open' },
+  { id: 'ready', name: 'Ready', color: 'blue', icon: 'play', folder: 'open' },
+  { id: 'in_progress', name: 'In Progress', color: 'cyan', icon: 'sync', folder: 'open' },
+  { id: 'review', name: 'Review', color: 'magenta', icon: 'eye', folder: 'open' },
+  { id: 'completed', name: 'Completed', color: 'green', icon: 'check', folder: 'completed' }
+];
+
+/** Colors a status can be shown in, the foreground colors chalk provides */
+export const STATUS_COLORS = [
+  'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white', 'gray', 'grey',
+  'blackBright', 'redBright', 'greenBright', 'yellowBright', 'blueBright', 'magentaBright', 'cyanBright', 'whiteBright'
+] as const;
+
+export type StatusColor = typeof STATUS_COLORS[number];
+
+/** Statuses older versions of Sabin wrote, mapped to the status that replaced them */
+const LEGACY_STATUSES = new Map<string, string>([
+  ['resolved', 'completed']
+]);
+
+/**
+ * Get the status that replaced one written by an older version of Sabin,
+ * e.g. completed for resolved
+ */
+export function getLegacyStatusReplacement(status: string): string | undefined {
+  return LEGACY_STATUSES.get(status.toLowerCase());
+}
+
+/**
+ * Get the ordered workflow statuses, falling back to the defaults
+ * when the config does not declare any
+ */
+export function getStatuses(config?: SabinConfig): StatusDefinition[] {
+  if (config?.statuses && config.statuses.length > 0) {
+    return config.statuses;
+  }
+  return DEFAULT_STATUSES;
+}
+
+/**
+ * Look up the definition for a status ID
+ */
+export function getStatusDefinition(status: string, config?: SabinConfig): StatusDefinition | undefined {
+  return getStatuses(config).find(s => s.id === status);
+}
+
+/**
+ * Get the distinct tasks/ subfolders used by the configured statuses
+ */
+export function getStatusFolders(config?: SabinConfig): string[] {
+  return [...new Set(getStatuses(config).map(s => s.folder))];
+}
+
+/**
+ * Get the status tasks wait in until they are picked up, ready unless the config names another
+ */
+export function getReadyStatus(config?: SabinConfig): string {
+  return config?.readyStatus || 'ready';
+}
+
+/**
+ * Get the status of tasks being worked on, in_progress unless the config names another
+ */
+export function getInProgressStatus(config?: SabinConfig): string {
+  return config?.inProgressStatus || 'in_progress';
+}
+
+/**
+ * Whether a status counts as done, i.e. its tasks live in the completed folder
+ */
+export function isCompletedStatus(status: string, config?: SabinConfig): boolean {
+  return getStatusDefinition(status, config)?.folder === 'completed';
+}
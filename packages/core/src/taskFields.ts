@@ -0,0 +1,87 @@
+import { parse } from 'yaml';
+import { Task, SabinConfig } from './types';
+import { getStatusDefinition, getStatuses } from './statuses';
+import { InvalidTaskFieldError, InvalidTaskStatusError } from './errors';
+
+const FIELD_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Set a frontmatter field on a task from its string form.
+ * `dependsOn` takes a comma-separated list; fields Sabin does not know
+ * are parsed as YAML scalars, so `estimate=3` is stored as a number.
+ */
+export function setTaskField(task: Task, field: string, value: string): void {
+  const trimmed = value.trim();
+
+  switch (field) {
+    case 'id':
+      throw new InvalidTaskFieldError(field, 'the ID is the file name and cannot be changed here');
+    case 'status':
+      throw new InvalidTaskFieldError(field, 'use "sabin task update" to change the status');
+    case 'title':
+    case 'plan':
+    case 'workingDir':
+    case 'parent':
+      if (!trimmed) {
+        throw new InvalidTaskFieldError(field, 'value cannot be empty');
+      }
+      task[field] = trimmed;
+      return;
+    case 'dependsOn': {
+      const ids = [...new Set(trimmed.split(',').map(id => id.trim()).filter(Boolean))];
+      if (ids.length === 0) {
+        throw new InvalidTaskFieldError(field, 'value cannot be empty');
+      }
+      task.dependsOn = ids;
+      return;
+    }
+  }
+
+  if (!FIELD_NAME_PATTERN.test(field)) {
+    throw new InvalidTaskFieldError(field, 'not a valid field name');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = parse(value);
+  } catch {
+    parsed = value;
+  }
+  task.extra = { ...task.extra, [field]: parsed ?? value };
+}
+
+/**
+ * Remove a frontmatter field from a task. Removing a field that is not set does nothing.
+ */
+export function unsetTaskField(task: Task, field: string): void {
+  switch (field) {
+    case 'id':
+    case 'status':
+    case 'title':
+      throw new InvalidTaskFieldError(field, 'the field is required');
+    case 'plan':
+    case 'workingDir':
+    case 'parent':
+    case 'dependsOn':
+      task[field] = undefined;
+      return;
+  }
+
+  if (task.extra && field in task.extra) {
+    const rest = { ...task.extra };
+    delete rest[field];
+    task.extra = Object.keys(rest).length > 0 ? rest : undefined;
+  }
+}
+
+/**
+ * Check the fields every task needs: a non-empty title and a configured status
+ */
+export function validateTaskFields(task: Task, config?: SabinConfig): void {
+  if (typeof task.title !== 'string' || !task.title.trim()) {
+    throw new InvalidTaskFieldError('title', 'the field is required');
+  }
+  if (typeof task.status !== 'string' || !getStatusDefinition(task.status, config)) {
+    throw new InvalidTaskStatusError(String(task.status), getStatuses(config));
+  }
+}
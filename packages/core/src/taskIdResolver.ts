@@ -0,0 +1,76 @@
+import { SabinConfig } from './types';
+import { TaskNotFoundError, AmbiguousTaskIdError, InvalidTaskIdError } from './errors';
+
+/**
+ * Resolve user input to one of the known task IDs.
+ *
+ * Accepts, in order of precedence:
+ *   - exact IDs (TASK-0042, JIRA-123), case-insensitively
+ *   - bare or unpadded numbers (42, TASK-42 -> TASK-0042)
+ *   - unique ID prefixes (JIRA-12 -> JIRA-123)
+ *
+ * Throws TaskNotFoundError when nothing matches and
+ * AmbiguousTaskIdError when a prefix matches several tasks.
+ */
+export function resolveTaskId(input: string, taskIds: string[], config: SabinConfig): string {
+  const query = input.trim();
+  const lower = query.toLowerCase();
+
+  if (taskIds.includes(query)) {
+    return query;
+  }
+
+  const exact = taskIds.filter(id => id.toLowerCase() === lower);
+  if (exact.length === 1) {
+    return exact[0];
+  }
+
+  // Expand bare numbers and unpadded prefixed numbers (TASK-42) to the
+  // configured padding. Zero-padded input like TASK-004 is left to prefix matching.
+  const bareMatch = query.match(/^\d+$/);
+  const prefixedMatch = query.match(new RegExp(`^${escapeRegExp(config.projectPrefix)}-([1-9]\\d*)$`, 'i'));
+  const digits = bareMatch ? bareMatch[0] : prefixedMatch?.[1];
+  if (digits) {
+    const padded = `${config.projectPrefix}-${String(parseInt(digits, 10)).padStart(config.taskNumberPadding, '0')}`;
+    if (taskIds.includes(padded)) {
+      return padded;
+    }
+  }
+
+  const candidates = taskIds.filter(id => id.toLowerCase().startsWith(lower));
+  if (query && candidates.length === 1) {
+    return candidates[0];
+  }
+  if (query && candidates.length > 1) {
+    throw new AmbiguousTaskIdError(input, candidates.sort());
+  }
+
+  throw new TaskNotFoundError(input);
+}
+
+/**
+ * Replace whole mentions of a task ID in text. Mentions that are part of a
+ * longer ID or name, such as TASK-00310 or a plan file TASK-0031-login.md, are kept.
+ */
+export function replaceTaskId(text: string, oldId: string, newId: string): string {
+  const pattern = new RegExp(`(?<![\\w-])${escapeRegExp(oldId)}(?![\\w-])`, 'g');
+  return text.replace(pattern, () => newId);
+}
+
+/**
+ * Check that a new task ID can be used as the name of its task file:
+ * letters, digits, `.`, `_` and `-`, starting with a letter or digit.
+ * Throws InvalidTaskIdError for empty IDs and IDs with path separators or `..`.
+ */
+export function assertValidTaskId(id: string): void {
+  if (!id) {
+    throw new InvalidTaskIdError(id);
+  }
+  if (!/^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(id) || id.includes('..')) {
+    throw new InvalidTaskIdError(id, 'Use letters, digits, ".", "_" and "-", starting with a letter or digit.');
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
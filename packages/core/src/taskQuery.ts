@@ -0,0 +1,135 @@
+import { Task, SabinConfig } from './types';
+import { TASK_FIELDS } from './markdown';
+import { getStatusDefinition, getStatuses } from './statuses';
+import { InvalidFilterError, InvalidTaskStatusError } from './errors';
+
+export interface TaskFilterTerm {
+  /** Field to match, or undefined for free text matched against the title and body */
+  field?: string;
+  /** `:` matches whole values, `~` matches substrings */
+  operator: ':' | '~';
+  /** The term matches when any of these values does */
+  values: string[];
+  negated: boolean;
+}
+
+const TERM_PATTERN = /^([A-Za-z_][\w-]*)([:~])(.*)$/s;
+
+/**
+ * Parse a filter expression such as
+ * `status:ready,in_progress workingDir:api title~auth -status:completed`.
+ *
+ * Terms are separated by whitespace and must all match. Comma-separated
+ * values match any of them, `-` negates a term and double quotes keep
+ * spaces in a value (`title~"login page"`). A term without a field matches
+ * text in the title or body. Status values are checked against the config
+ * when one is given.
+ */
+export function parseTaskFilter(expression: string, config?: SabinConfig): TaskFilterTerm[] {
+  return tokenize(expression).map(token => {
+    const negated = token.startsWith('-') && token.length > 1;
+    const body = negated ? token.slice(1) : token;
+    const match = body.match(TERM_PATTERN);
+
+    if (!match) {
+      return { operator: '~', values: [body], negated };
+    }
+
+    const [, field, operator, rawValue] = match;
+    const values = rawValue.split(',').map(value => value.trim()).filter(Boolean);
+    if (values.length === 0) {
+      throw new InvalidFilterError(token, 'missing value');
+    }
+
+    if (field === 'status' && operator === ':' && config) {
+      const unknown = values.find(value => !getStatusDefinition(value, config));
+      if (unknown) {
+        throw new InvalidTaskStatusError(unknown, getStatuses(config));
+      }
+    }
+
+    return { field, operator: operator as ':' | '~', values, negated };
+  });
+}
+
+/**
+ * Check a task against parsed filter terms
+ */
+export function matchesTaskFilter(task: Task, terms: TaskFilterTerm[]): boolean {
+  return terms.every(term => {
+    const fieldValues = term.field ? getFieldValues(task, term.field) : [task.title, task.content];
+    const matched = term.values.some(value => fieldValues.some(fieldValue =>
+      term.operator === ':' ? equalsIgnoreCase(fieldValue, value) : includesIgnoreCase(fieldValue, value)
+    ));
+    return matched !== term.negated;
+  });
+}
+
+/**
+ * Keep the tasks matching a filter expression
+ */
+export function filterTasks(tasks: Task[], expression: string, config?: SabinConfig): Task[] {
+  const terms = parseTaskFilter(expression, config);
+  return tasks.filter(task => matchesTaskFilter(task, terms));
+}
+
+/**
+ * Split on whitespace outside double quotes, dropping the quotes
+ */
+function tokenize(expression: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quoted = false;
+  let started = false;
+
+  for (const char of expression) {
+    if (char === '"') {
+      quoted = !quoted;
+      started = true;
+    } else if (/\s/.test(char) && !quoted) {
+      if (started) {
+        tokens.push(current);
+      }
+      current = '';
+      started = false;
+    } else {
+      current += char;
+      started = true;
+    }
+  }
+
+  if (quoted) {
+    throw new InvalidFilterError(expression, 'unclosed quote');
+  }
+  if (started) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+/**
+ * Get the values of a field as strings; lists give one value per item
+ */
+function getFieldValues(task: Task, field: string): string[] {
+  let value: unknown;
+  if (field === 'id' || field === 'content' || (TASK_FIELDS as readonly string[]).includes(field)) {
+    value = task[field as keyof Task];
+  } else if (field === 'body') {
+    value = task.content;
+  } else {
+    value = task.extra?.[field];
+  }
+
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(item => String(item));
+}
+
+function equalsIgnoreCase(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function includesIgnoreCase(text: string, search: string): boolean {
+  return text.toLowerCase().includes(search.toLowerCase());
+}
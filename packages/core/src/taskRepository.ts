@@ -0,0 +1,755 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Task, SabinConfig, StatusDefinition } from './types';
+import { parseTask, writeTask, getNextTaskNumber } from './markdown';
+import { readConfig } from './config';
+import { getStatuses, getStatusDefinition, getStatusFolders, getInProgressStatus, isCompletedStatus } from './statuses';
+import { checkTransition } from './transitions';
+import { validateDependencies } from './dependencies';
+import { validateParent } from './hierarchy';
+import { HistoryEntry, HistoryAction, appendHistory, readHistory, renameHistory, resolveActor } from './history';
+import { withLock } from './lock';
+import { resolveTaskId, replaceTaskId, assertValidTaskId } from './taskIdResolver';
+import { getResearchDir } from './research';
+import {
+  resolvePlanPath,
+  getPlansDir,
+  getPlanFileName,
+  formatPlanLink,
+  renderPlanTemplate
+} from './plans';
+import { TaskChecklistItem, readTaskChecklist, setChecklistItem } from './checklist';
+import { readTodo, removeTodo } from './todo';
+import { findNextTask } from './priority';
+import { FlowStats, FlowStatsOptions, computeFlowStats } from './stats';
+import {
+  TaskBin,
+  TASK_BINS,
+  RemovedTask,
+  getBinDir,
+  getRemovedMetadataPath,
+  readRemovedMetadata,
+  writeRemovedMetadata
+} from './trash';
+import {
+  TaskAlreadyExistsError,
+  InvalidTaskStatusError,
+  PlanNotFoundError,
+  PlanAlreadyExistsError,
+  ChecklistItemNotFoundError,
+  TodoItemNotFoundError
+} from './errors';
+
+export interface TaskRepositoryOptions {
+  /**
+   * Working directory of the current project relative to the .sabin parent.
+   * Only set for projects linked to a shared .sabin directory.
+   */
+  workingDir?: string;
+  /**
+   * Name recorded in the status history.
+   * Resolved from SABIN_ACTOR or git config when omitted.
+   */
+  actor?: string;
+}
+
+export interface CreateTaskInput {
+  title: string;
+  content?: string;
+  /** Custom task ID (e.g. JIRA-123). Generated from the config prefix when omitted. */
+  taskId?: string;
+  /** IDs of existing tasks the new task depends on */
+  dependsOn?: string[];
+  /** ID of an existing task the new task is a child of */
+  parent?: string;
+}
+
+export interface MoveTaskOptions {
+  /** Skip the configured transition table and guards */
+  force?: boolean;
+}
+
+export interface NextTaskOptions {
+  /** Move the picked task to the in-progress status, claiming it for this working directory */
+  start?: boolean;
+}
+
+export interface TaskPlan {
+  task: Task;
+  /** Absolute path of the plan file */
+  planPath: string;
+}
+
+export interface TaskChecklist {
+  task: Task;
+  items: TaskChecklistItem[];
+}
+
+export interface TaskRenameResult {
+  task: Task;
+  /** ID the task had before the rename */
+  previousId: string;
+  /** Other files whose references to the old ID were rewritten */
+  updated: string[];
+}
+
+export interface TaskMoveResult {
+  task: Task;
+  /** Status the task had before the update */
+  previousStatus: string;
+  /** Status folder the task file was read from */
+  from: string;
+  /** Status folder the task file lives in after the update */
+  to: string;
+}
+
+/** Lock file in the .sabin directory guarding task ID allocation */
+const LOCK_FILE = '.lock';
+
+/**
+ * Owns all reads and writes of task files in a .sabin directory.
+ * Shared by the CLI and the VS Code extension so both behave identically.
+ */
+export class TaskRepository {
+  readonly tasksDir: string;
+  private config: SabinConfig | null = null;
+  private actor: Promise<string | undefined> | null = null;
+
+  constructor(readonly sabinDir: string, private readonly options: TaskRepositoryOptions = {}) {
+    this.tasksDir = path.join(sabinDir, 'tasks');
+  }
+
+  /**
+   * Read the config, caching it for the lifetime of the repository
+   */
+  async getConfig(): Promise<SabinConfig> {
+    if (!this.config) {
+      this.config = await readConfig(this.sabinDir);
+    }
+    return this.config;
+  }
+
+  /**
+   * Get the ordered workflow statuses from the config
+   */
+  async getStatuses(): Promise<StatusDefinition[]> {
+    return getStatuses(await this.getConfig());
+  }
+
+  /**
+   * List all tasks, optionally filtered by status
+   */
+  async list(status?: string): Promise<Task[]> {
+    const tasks: Task[] = [];
+
+    for (const dir of getStatusFolders(await this.getConfig())) {
+      const dirPath = path.join(this.tasksDir, dir);
+      let files: string[];
+
+      try {
+        files = await fs.readdir(dirPath);
+      } catch {
+        // Directory might not exist
+        continue;
+      }
+
+      for (const file of files.filter(f => f.endsWith('.md'))) {
+        const task = await parseTask(path.join(dirPath, file));
+        if (!status || task.status === status) {
+          tasks.push(task);
+        }
+      }
+    }
+
+    return tasks;
+  }
+
+  /**
+   * Get a single task by ID
+   */
+  async get(taskId: string): Promise<Task> {
+    const taskPath = await this.findTaskPath(taskId);
+    return parseTask(taskPath);
+  }
+
+  /**
+   * Create a new task in the first configured status,
+   * generating the next ID unless one is given
+   */
+  async create(input: CreateTaskInput): Promise<Task> {
+    const config = await this.getConfig();
+    const initialStatus = getStatuses(config)[0];
+
+    const customId = input.taskId?.trim();
+    if (input.taskId !== undefined) {
+      assertValidTaskId(customId!);
+    }
+
+    const taskDir = path.join(this.tasksDir, initialStatus.folder);
+    await fs.mkdir(taskDir, { recursive: true });
+
+    const task: Task = {
+      id: '',
+      status: initialStatus.id,
+      title: input.title,
+      content: input.content || '',
+      path: ''
+    };
+
+    if (this.options.workingDir) {
+      task.workingDir = this.options.workingDir;
+    }
+
+    if (input.dependsOn && input.dependsOn.length > 0) {
+      task.dependsOn = input.dependsOn;
+    }
+    if (input.parent) {
+      task.parent = input.parent;
+    }
+
+    // Hold the lock while picking an ID so creators in other linked
+    // projects cannot allocate the same one
+    await withLock(path.join(this.sabinDir, LOCK_FILE), async () => {
+      // IDs of archived and trashed tasks stay taken so they can be restored
+      const takenIn = customId && await this.findIdFolder(customId, config);
+      if (customId && takenIn) {
+        throw new TaskAlreadyExistsError(customId, takenIn);
+      }
+
+      let nextNumber = customId ? 0 : parseInt(await getNextTaskNumber(this.tasksDir, config), 10);
+
+      for (;;) {
+        task.id = customId || `${config.projectPrefix}-${String(nextNumber).padStart(config.taskNumberPadding, '0')}`;
+        task.title = input.title || `Task ${task.id}`;
+        task.path = path.join(taskDir, `${task.id}.md`);
+        await this.validateLinks(task);
+
+        try {
+          // Exclusive create, so an existing file is never overwritten
+          await writeTask(task, { exclusive: true });
+          return;
+        } catch (error: any) {
+          if (error.code !== 'EEXIST') {
+            throw error;
+          }
+          if (customId) {
+            throw new TaskAlreadyExistsError(customId, initialStatus.folder);
+          }
+          nextNumber++;
+        }
+      }
+    });
+
+    await this.recordStatusChange(task.id, null, task.status);
+    return task;
+  }
+
+  /**
+   * Write a modified task back to its file, validating its dependencies and parent
+   */
+  async update(task: Task): Promise<Task> {
+    await this.validateLinks(task);
+    await writeTask(task);
+    return task;
+  }
+
+  /**
+   * Change a task's status, moving its file to the folder the status maps to.
+   * The configured transition rules are enforced unless `force` is set.
+   */
+  async move(taskId: string, newStatus: string, options: MoveTaskOptions = {}): Promise<TaskMoveResult> {
+    const config = await this.getConfig();
+    const definition = getStatusDefinition(newStatus, config);
+    if (!definition) {
+      throw new InvalidTaskStatusError(newStatus, getStatuses(config));
+    }
+
+    const currentPath = await this.findTaskPath(taskId);
+    const task = await parseTask(currentPath);
+    const previousStatus = task.status;
+
+    if (!options.force) {
+      await checkTransition(task, definition.id, config, { sabinDir: this.sabinDir });
+    }
+
+    task.status = definition.id;
+
+    // Record which linked project picked the task up
+    if (definition.id === getInProgressStatus(config) && this.options.workingDir) {
+      task.workingDir = this.options.workingDir;
+    }
+
+    const from = path.basename(path.dirname(currentPath));
+    const to = definition.folder;
+
+    if (from !== to) {
+      const newDir = path.join(this.tasksDir, to);
+      await fs.mkdir(newDir, { recursive: true });
+
+      task.path = path.join(newDir, path.basename(currentPath));
+      await writeTask(task);
+      await fs.unlink(currentPath);
+    } else {
+      await writeTask(task);
+    }
+
+    if (previousStatus !== task.status) {
+      await this.recordStatusChange(task.id, previousStatus, task.status);
+    }
+
+    return { task, previousStatus, from, to };
+  }
+
+  /**
+   * Give a task a new ID. The file is renamed, and references to the old ID are
+   * rewritten in task bodies, `dependsOn` and `parent` fields, plans, research
+   * notes and the status history. IDs used in any status folder, the archive
+   * or the trash are refused.
+   */
+  async rename(taskId: string, newId: string): Promise<TaskRenameResult> {
+    const id = newId.trim();
+    assertValidTaskId(id);
+    const config = await this.getConfig();
+
+    return withLock(path.join(this.sabinDir, LOCK_FILE), async () => {
+      const currentPath = await this.findTaskPath(taskId);
+      const previousId = path.basename(currentPath, '.md');
+
+      const takenIn = await this.findIdFolder(id, config);
+      if (takenIn) {
+        throw new TaskAlreadyExistsError(id, takenIn);
+      }
+
+      const newPath = path.join(path.dirname(currentPath), `${id}.md`);
+      await fs.rename(currentPath, newPath);
+
+      const updated: string[] = [];
+      for (const task of await this.list()) {
+        const content = replaceTaskId(task.content, previousId, id);
+        const dependsOn = task.dependsOn?.map(dependency => dependency === previousId ? id : dependency);
+        const parent = task.parent === previousId ? id : task.parent;
+
+        if (content !== task.content || parent !== task.parent || task.dependsOn?.includes(previousId)) {
+          await writeTask({ ...task, content, dependsOn, parent });
+          if (task.path !== newPath) {
+            updated.push(task.path);
+          }
+        }
+      }
+
+      for (const dir of [getPlansDir(this.sabinDir), getResearchDir(this.sabinDir)]) {
+        updated.push(...await this.replaceInNotes(dir, previousId, id));
+      }
+      await renameHistory(this.sabinDir, previousId, id);
+
+      return { task: await parseTask(newPath), previousId, updated };
+    });
+  }
+
+  /**
+   * Pick the most urgent ready task whose dependencies are completed and that
+   * no other working directory has claimed, or null when there is none.
+   * With `start`, the pick and the move to the in-progress status happen under the lock,
+   * so two agents never start the same task.
+   */
+  async next(options: NextTaskOptions = {}): Promise<Task | null> {
+    const pick = async (): Promise<Task | null> => {
+      const config = await this.getConfig();
+      const task = findNextTask(await this.list(), { workingDir: this.options.workingDir, config });
+      if (!task || !options.start) {
+        return task;
+      }
+      return (await this.move(task.id, getInProgressStatus(config))).task;
+    };
+
+    return options.start ? withLock(path.join(this.sabinDir, LOCK_FILE), pick) : pick();
+  }
+
+  /**
+   * Scaffold a plan in plans/ from the standard template and link it to the task.
+   * Fails if the task already links an existing plan or the file exists.
+   */
+  async createPlan(taskId: string): Promise<TaskPlan> {
+    const task = await this.get(taskId);
+    if (task.plan && await resolvePlanPath(this.sabinDir, task.plan)) {
+      throw new PlanAlreadyExistsError(task.plan);
+    }
+
+    const plansDir = getPlansDir(this.sabinDir);
+    const planPath = path.join(plansDir, getPlanFileName(task));
+    await fs.mkdir(plansDir, { recursive: true });
+
+    try {
+      await fs.writeFile(planPath, renderPlanTemplate(task), { flag: 'wx' });
+    } catch (error: any) {
+      if (error.code === 'EEXIST') {
+        throw new PlanAlreadyExistsError(formatPlanLink(this.sabinDir, planPath));
+      }
+      throw error;
+    }
+
+    task.plan = formatPlanLink(this.sabinDir, planPath);
+    await writeTask(task);
+    return { task, planPath };
+  }
+
+  /**
+   * Point a task's `plan` field at an existing file, given as an absolute path
+   * or relative to the project root or the .sabin directory
+   */
+  async linkPlan(taskId: string, plan: string): Promise<TaskPlan> {
+    const task = await this.get(taskId);
+    const planPath = await resolvePlanPath(this.sabinDir, plan);
+    if (!planPath) {
+      throw new PlanNotFoundError(plan);
+    }
+
+    task.plan = formatPlanLink(this.sabinDir, planPath);
+    await writeTask(task);
+    return { task, planPath };
+  }
+
+  /**
+   * Find the plan file linked to a task, or null when the task has no plan.
+   * Throws PlanNotFoundError when the linked file is missing.
+   */
+  async getPlan(taskId: string): Promise<TaskPlan | null> {
+    const task = await this.get(taskId);
+    if (!task.plan) {
+      return null;
+    }
+
+    const planPath = await resolvePlanPath(this.sabinDir, task.plan);
+    if (!planPath) {
+      throw new PlanNotFoundError(task.plan);
+    }
+    return { task, planPath };
+  }
+
+  /**
+   * Get the checklist items of a task body and its linked plan
+   */
+  async getChecklist(taskId: string): Promise<TaskChecklist> {
+    const task = await this.get(taskId);
+    return { task, items: await readTaskChecklist(task, this.sabinDir) };
+  }
+
+  /**
+   * Check or uncheck a checklist item, numbered from zero across the task
+   * body and then its plan, and write the file it belongs to
+   */
+  async setChecklistItem(taskId: string, index: number, checked: boolean): Promise<TaskChecklistItem> {
+    const { task, items } = await this.getChecklist(taskId);
+    const item = items[index];
+    if (!item) {
+      throw new ChecklistItemNotFoundError(index, items.length);
+    }
+
+    if (item.source === 'task') {
+      task.content = setChecklistItem(task.content, item.documentIndex, checked);
+      await writeTask(task);
+    } else {
+      const planPath = (await resolvePlanPath(this.sabinDir, task.plan!))!;
+      const content = await fs.readFile(planPath, 'utf8');
+      await fs.writeFile(planPath, setChecklistItem(content, item.documentIndex, checked));
+    }
+
+    return { ...item, checked };
+  }
+
+  /**
+   * Turn a TODO.md item into a new task titled after it, with its nested
+   * lines as the body, then remove the item from the inbox
+   */
+  async extractTodo(number: number): Promise<Task> {
+    const item = (await readTodo(this.sabinDir)).find(i => i.number === number);
+    if (!item) {
+      throw new TodoItemNotFoundError(number);
+    }
+
+    const task = await this.create({
+      title: item.text,
+      content: item.children.length > 0 ? `${item.children.join('\n')}\n` : undefined
+    });
+    await removeTodo(this.sabinDir, number);
+    return task;
+  }
+
+  /**
+   * Get the recorded status changes of a task, oldest first
+   */
+  async getHistory(taskId: string): Promise<HistoryEntry[]> {
+    return readHistory(this.sabinDir, taskId);
+  }
+
+  /**
+   * Compute flow metrics from the tasks and the status history. Completed tasks
+   * without a recorded completion count as finished when their file was last modified.
+   */
+  async getStats(options: Pick<FlowStatsOptions, 'since' | 'until'> = {}): Promise<FlowStats> {
+    const [tasks, history, config] = await Promise.all([
+      this.list(),
+      readHistory(this.sabinDir),
+      this.getConfig()
+    ]);
+
+    const completedAt: Record<string, string> = {};
+    for (const task of tasks.filter(t => isCompletedStatus(t.status, config))) {
+      completedAt[task.id] = (await fs.stat(task.path)).mtime.toISOString();
+    }
+
+    return computeFlowStats(tasks, history, { ...options, config, completedAt });
+  }
+
+  /**
+   * Move a task to `.sabin/archive/`, taking it off the board but keeping it as a record
+   */
+  async archive(taskId: string): Promise<RemovedTask> {
+    return this.removeTo('archive', taskId);
+  }
+
+  /**
+   * Move a task to `.sabin/trash/`, from where it can be restored
+   */
+  async delete(taskId: string): Promise<RemovedTask> {
+    return this.removeTo('trash', taskId);
+  }
+
+  /**
+   * Move an archived or trashed task back to the folder its status maps to.
+   * The trash is searched before the archive.
+   */
+  async restore(taskId: string): Promise<Task> {
+    return withLock(path.join(this.sabinDir, LOCK_FILE), async () => {
+      const config = await this.getConfig();
+      const removed = await this.listRemoved();
+      const resolved = resolveTaskId(taskId, [...new Set(removed.map(r => r.task.id))], config);
+      const { task, metadata } = removed.find(r => r.task.id === resolved)!;
+
+      const existing = (await this.listTaskFiles()).get(task.id);
+      if (existing) {
+        throw new TaskAlreadyExistsError(task.id, path.basename(path.dirname(existing)));
+      }
+
+      const folder = getStatusDefinition(task.status, config)?.folder || metadata?.folder || 'open';
+      const newDir = path.join(this.tasksDir, folder);
+      const newPath = path.join(newDir, path.basename(task.path));
+
+      await fs.mkdir(newDir, { recursive: true });
+      await fs.rename(task.path, newPath);
+      await fs.rm(getRemovedMetadataPath(task.path), { force: true });
+      await this.recordStatusChange(task.id, task.status, task.status, 'restore');
+
+      task.path = newPath;
+      return task;
+    });
+  }
+
+  /**
+   * List the tasks in the trash and the archive, or in one bin
+   */
+  async listRemoved(bin?: TaskBin): Promise<RemovedTask[]> {
+    const removed: RemovedTask[] = [];
+
+    for (const current of bin ? [bin] : TASK_BINS) {
+      const binDir = getBinDir(this.sabinDir, current);
+      let files: string[];
+
+      try {
+        files = (await fs.readdir(binDir)).filter(f => f.endsWith('.md')).sort();
+      } catch {
+        // Nothing removed yet
+        continue;
+      }
+
+      for (const file of files) {
+        const taskPath = path.join(binDir, file);
+        removed.push({
+          bin: current,
+          task: await parseTask(taskPath),
+          metadata: await readRemovedMetadata(taskPath)
+        });
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Get the next available task number for the configured prefix
+   */
+  async getNextTaskNumber(): Promise<string> {
+    const config = await this.getConfig();
+    return getNextTaskNumber(this.tasksDir, config);
+  }
+
+  /**
+   * Resolve an exact ID, number or unique prefix to the ID of an existing task
+   */
+  async resolveId(input: string): Promise<string> {
+    const files = await this.listTaskFiles();
+    return resolveTaskId(input, [...files.keys()], await this.getConfig());
+  }
+
+  /**
+   * Find the file for a task ID, number or unique prefix
+   */
+  private async findTaskPath(taskId: string): Promise<string> {
+    const files = await this.listTaskFiles();
+    const resolved = resolveTaskId(taskId, [...files.keys()], await this.getConfig());
+    return files.get(resolved)!;
+  }
+
+  /**
+   * Map every task ID to its file path across the status folders
+   */
+  private async listTaskFiles(): Promise<Map<string, string>> {
+    const files = new Map<string, string>();
+
+    for (const dir of getStatusFolders(await this.getConfig())) {
+      const dirPath = path.join(this.tasksDir, dir);
+      let entries: string[];
+
+      try {
+        entries = await fs.readdir(dirPath);
+      } catch {
+        // Directory might not exist
+        continue;
+      }
+
+      for (const file of entries.filter(f => f.endsWith('.md'))) {
+        const id = path.basename(file, '.md');
+        if (!files.has(id)) {
+          files.set(id, path.join(dirPath, file));
+        }
+      }
+    }
+
+    return files;
+  }
+
+  /**
+   * Append a status change to the history log, or with `action`,
+   * a removal or restore that left the status as it was
+   */
+  private async recordStatusChange(taskId: string, from: string | null, to: string, action?: HistoryAction): Promise<void> {
+    await appendHistory(this.sabinDir, {
+      taskId,
+      timestamp: new Date().toISOString(),
+      from,
+      to,
+      actor: await this.getActor(),
+      workingDir: this.options.workingDir,
+      action
+    });
+  }
+
+  /**
+   * Resolve the actor once per repository
+   */
+  private getActor(): Promise<string | undefined> {
+    if (!this.actor) {
+      this.actor = this.options.actor !== undefined
+        ? Promise.resolve(this.options.actor)
+        : resolveActor();
+    }
+    return this.actor;
+  }
+
+  /**
+   * Move a task file into a bin, recording where it came from next to it.
+   * A task removed earlier under the same ID is never overwritten.
+   */
+  private async removeTo(bin: TaskBin, taskId: string): Promise<RemovedTask> {
+    return withLock(path.join(this.sabinDir, LOCK_FILE), async () => {
+      const currentPath = await this.findTaskPath(taskId);
+      const task = await parseTask(currentPath);
+      const binDir = getBinDir(this.sabinDir, bin);
+      const newPath = path.join(binDir, path.basename(currentPath));
+      if (await this.exists(newPath)) {
+        throw new TaskAlreadyExistsError(task.id, bin);
+      }
+
+      const metadata = {
+        taskId: task.id,
+        removedAt: new Date().toISOString(),
+        folder: path.basename(path.dirname(currentPath)),
+        status: task.status,
+        actor: await this.getActor(),
+        workingDir: this.options.workingDir
+      };
+
+      await fs.mkdir(binDir, { recursive: true });
+      await fs.rename(currentPath, newPath);
+      await writeRemovedMetadata(newPath, metadata);
+      await this.recordStatusChange(task.id, task.status, task.status, bin === 'archive' ? 'archive' : 'delete');
+
+      task.path = newPath;
+      return { bin, task, metadata };
+    });
+  }
+
+  /**
+   * Rewrite mentions of a task ID in the markdown files of a directory,
+   * returning the paths of the files that changed
+   */
+  private async replaceInNotes(dir: string, oldId: string, newId: string): Promise<string[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(dir);
+    } catch {
+      // No plans or research notes yet
+      return [];
+    }
+
+    const updated: string[] = [];
+    for (const file of files.filter(f => f.endsWith('.md'))) {
+      const filePath = path.join(dir, file);
+      const content = await fs.readFile(filePath, 'utf8');
+      const replaced = replaceTaskId(content, oldId, newId);
+      if (replaced !== content) {
+        await fs.writeFile(filePath, replaced);
+        updated.push(filePath);
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Validate the dependencies and parent a task refers to
+   */
+  private async validateLinks(task: Task): Promise<void> {
+    if (!task.dependsOn?.length && !task.parent) {
+      return;
+    }
+
+    const tasks = await this.list();
+    validateDependencies(task, tasks);
+    validateParent(task, tasks);
+  }
+
+  /**
+   * Find the status folder or bin that already holds a task file with this ID
+   */
+  private async findIdFolder(id: string, config: SabinConfig): Promise<string | undefined> {
+    const folders = [
+      ...getStatusFolders(config).map(folder => ({ name: folder, dir: path.join(this.tasksDir, folder) })),
+      ...TASK_BINS.map(bin => ({ name: bin, dir: getBinDir(this.sabinDir, bin) }))
+    ];
+    for (const { name, dir } of folders) {
+      if (await this.exists(path.join(dir, `${id}.md`))) {
+        return name;
+      }
+    }
+    return undefined;
+  }
+
+  private async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
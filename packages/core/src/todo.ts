@@ -0,0 +1,119 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { SabinError, TodoItemNotFoundError } from './errors';
+
+export interface TodoItem {
+  /** Position in the inbox, numbered from 1 as `sabin todo list` shows it */
+  number: number;
+  text: string;
+  /** Nested lines below the item, with the common indentation removed */
+  children: string[];
+  /** Zero-based line of the item */
+  line: number;
+  /** Zero-based line of the item's last nested line */
+  endLine: number;
+}
+
+// Only top-level bullets are items; indented ones belong to the item above
+const ITEM_PATTERN = /^[-*+]\s+(.*?)\r?$/;
+
+/**
+ * Get the path to the TODO.md quick-capture inbox
+ */
+export function getTodoPath(sabinDir: string): string {
+  return path.join(sabinDir, 'TODO.md');
+}
+
+/**
+ * Parse the top-level bullets of a TODO.md file with their nested lines
+ */
+export function parseTodo(content: string): TodoItem[] {
+  const items: TodoItem[] = [];
+  let current: TodoItem | undefined;
+
+  content.split('\n').forEach((text, line) => {
+    const match = text.match(ITEM_PATTERN);
+    if (match) {
+      current = { number: items.length + 1, text: match[1].trim(), children: [], line, endLine: line };
+      items.push(current);
+    } else if (current && /^\s+\S/.test(text)) {
+      current.children.push(text.replace(/\r$/, ''));
+      current.endLine = line;
+    } else if (text.trim()) {
+      // A heading or paragraph ends the item
+      current = undefined;
+    }
+  });
+
+  for (const item of items) {
+    const indent = Math.min(...item.children.map(child => child.match(/^\s*/)![0].length));
+    item.children = item.children.map(child => child.slice(indent));
+  }
+
+  return items;
+}
+
+/**
+ * Read the items in TODO.md. Returns an empty list when there is no inbox yet.
+ */
+export async function readTodo(sabinDir: string): Promise<TodoItem[]> {
+  try {
+    return parseTodo(await fs.readFile(getTodoPath(sabinDir), 'utf8'));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Append an item to TODO.md, creating the file when needed
+ */
+export async function addTodo(sabinDir: string, text: string): Promise<TodoItem> {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new SabinError('TODO text cannot be empty', 'INVALID_TODO');
+  }
+
+  const todoPath = getTodoPath(sabinDir);
+  let content: string;
+  try {
+    content = await fs.readFile(todoPath, 'utf8');
+  } catch {
+    content = '# TODO\n\n';
+  }
+
+  if (content && !content.endsWith('\n')) {
+    content += '\n';
+  }
+  content += `- ${trimmed}\n`;
+
+  await fs.mkdir(sabinDir, { recursive: true });
+  await fs.writeFile(todoPath, content);
+
+  const items = parseTodo(content);
+  return items[items.length - 1];
+}
+
+/**
+ * Remove an item and its nested lines from TODO.md.
+ * Throws TodoItemNotFoundError when there is no item with that number.
+ */
+export async function removeTodo(sabinDir: string, number: number): Promise<TodoItem> {
+  const todoPath = getTodoPath(sabinDir);
+  let content = '';
+  try {
+    content = await fs.readFile(todoPath, 'utf8');
+  } catch {
+    // No inbox, so no item to remove
+  }
+
+  const item = parseTodo(content).find(i => i.number === number);
+  if (!item) {
+    throw new TodoItemNotFoundError(number);
+  }
+
+  const lines = content.split('\n');
+  lines.splice(item.line, item.endLine - item.line + 1);
+  await fs.writeFile(todoPath, lines.join('\n'));
+
+  return item;
+}
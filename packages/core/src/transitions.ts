@@ -0,0 +1,95 @@
+import fs from 'fs/promises';
+import { Task, SabinConfig } from './types';
+import { resolvePlanPath } from './plans';
+import { parseChecklist } from './checklist';
+import { SabinError, InvalidTransitionError } from './errors';
+
+export interface TransitionGuardContext {
+  sabinDir: string;
+}
+
+/**
+ * A check run before a task enters a status.
+ * Resolves to the reason the move is blocked, or undefined to allow it.
+ */
+export type TransitionGuard = (task: Task, context: TransitionGuardContext) => Promise<string | undefined>;
+
+export const TRANSITION_GUARDS: Record<string, TransitionGuard> = {
+  /** The task must link a plan file that exists */
+  'plan-exists': async (task, { sabinDir }) => {
+    if (!task.plan) {
+      return 'task has no plan';
+    }
+    if (!await resolvePlanPath(sabinDir, task.plan)) {
+      return `plan file not found: ${task.plan}`;
+    }
+    return undefined;
+  },
+
+  /** Every checklist item in the linked plan must be checked */
+  'plan-complete': async (task, { sabinDir }) => {
+    const planPath = task.plan ? await resolvePlanPath(sabinDir, task.plan) : null;
+    if (!planPath) {
+      return undefined;
+    }
+
+    const content = await fs.readFile(planPath, 'utf8');
+    const unchecked = parseChecklist(content).filter(item => !item.checked).length;
+    if (unchecked > 0) {
+      return `plan has ${unchecked} unchecked item(s)`;
+    }
+    return undefined;
+  }
+};
+
+/** Guards that apply unless config.json sets its own for the target status */
+export const DEFAULT_GUARDS: Record<string, string[]> = {
+  ready: ['plan-exists'],
+  completed: ['plan-complete']
+};
+
+/**
+ * Get the guards for each target status: the defaults, with the
+ * configured list replacing them for each status config.json names.
+ * An empty list turns the guards for that status off.
+ */
+export function getGuards(config?: SabinConfig): Record<string, string[]> {
+  return { ...DEFAULT_GUARDS, ...config?.guards };
+}
+
+/**
+ * Check that a task may move to a new status under the configured
+ * transition table and guards. Throws InvalidTransitionError when it may not.
+ */
+export async function checkTransition(
+  task: Task,
+  newStatus: string,
+  config: SabinConfig,
+  context: TransitionGuardContext
+): Promise<void> {
+  const from = task.status;
+
+  // Re-applying the current status is always allowed
+  if (from === newStatus) {
+    return;
+  }
+
+  if (config.transitions) {
+    const allowed = config.transitions[from] || [];
+    if (!allowed.includes(newStatus)) {
+      throw new InvalidTransitionError(task.id, from, newStatus, `allowed targets are: ${allowed.join(', ') || 'none'}`);
+    }
+  }
+
+  for (const guardName of getGuards(config)[newStatus] || []) {
+    const guard = TRANSITION_GUARDS[guardName];
+    if (!guard) {
+      throw new SabinError(`Unknown transition guard: ${guardName}`, 'UNKNOWN_GUARD');
+    }
+
+    const reason = await guard(task, context);
+    if (reason) {
+      throw new InvalidTransitionError(task.id, from, newStatus, reason);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Task } from './types';
+
+/** Folders in the .sabin directory that hold tasks removed from the board */
+export type TaskBin = 'trash' | 'archive';
+
+/** Bins in the order they are searched when restoring */
+export const TASK_BINS: TaskBin[] = ['trash', 'archive'];
+
+export interface RemovedTaskMetadata {
+  taskId: string;
+  /** ISO 8601 time the task was removed */
+  removedAt: string;
+  /** Status folder the task file was removed from */
+  folder: string;
+  status: string;
+  /** Who removed it, from SABIN_ACTOR or git config */
+  actor?: string;
+  /** Linked project it was removed from */
+  workingDir?: string;
+}
+
+export interface RemovedTask {
+  bin: TaskBin;
+  task: Task;
+  /** Undefined when the file was put in the bin by hand */
+  metadata?: RemovedTaskMetadata;
+}
+
+/**
+ * Get the path to a bin, e.g. `.sabin/trash`
+ */
+export function getBinDir(sabinDir: string, bin: TaskBin): string {
+  return path.join(sabinDir, bin);
+}
+
+/**
+ * Get the path of the metadata file kept next to a removed task file
+ */
+export function getRemovedMetadataPath(taskPath: string): string {
+  return taskPath.replace(/\.md$/, '.json');
+}
+
+export async function writeRemovedMetadata(taskPath: string, metadata: RemovedTaskMetadata): Promise<void> {
+  await fs.writeFile(getRemovedMetadataPath(taskPath), JSON.stringify(metadata, null, 2) + '\n');
+}
+
+/**
+ * Read the metadata of a removed task, or undefined when it is missing or unreadable
+ */
+export async function readRemovedMetadata(taskPath: string): Promise<RemovedTaskMetadata | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(getRemovedMetadataPath(taskPath), 'utf8'));
+  } catch {
+    return undefined;
+  }
+}
@@ -1,13 +1,56 @@
+/** A status ID declared in the config's `statuses` list */
+export type TaskStatus = string;
+
 export interface Task {
-  status: 'open' | 'ready' | 'in_progress' | 'review' | 'completed';
+  id: string;
+  status: TaskStatus;
   title: string;
   plan?: string;
   workingDir?: string;
+  /** IDs of tasks that must be completed before this one can start */
+  dependsOn?: string[];
+  /** ID of the parent task this task is broken out of */
+  parent?: string;
+  /** Frontmatter fields Sabin does not manage itself, in file order */
+  extra?: Record<string, unknown>;
+  /** Frontmatter YAML as read from disk, used to preserve comments and key order on write */
+  rawFrontmatter?: string;
   content: string;
   path: string;
 }
 
+export interface StatusDefinition {
+  /** Value stored in a task's `status` frontmatter field */
+  id: string;
+  /** Display name used for columns and badges */
+  name: string;
+  /** Color name, used by chalk in the CLI and as a CSS color in the webview */
+  color?: string;
+  /** Codicon name used in the VS Code tree view */
+  icon?: string;
+  /** Subfolder of tasks/ that tasks with this status are stored in */
+  folder: string;
+}
+
 export interface SabinConfig {
   projectPrefix: string;
   taskNumberPadding: number;
+  /** Version of the .sabin layout, upgraded by `sabin migrate`. Missing in layouts older than version 1. */
+  schemaVersion?: number;
+  /** Ordered workflow statuses. Defaults to open, ready, in_progress, review, completed. */
+  statuses?: StatusDefinition[];
+  /**
+   * Allowed status changes, keyed by the current status.
+   * When set, only the listed from -> to pairs are allowed.
+   */
+  transitions?: Record<string, string[]>;
+  /**
+   * Built-in guards that must pass before a task enters a status, keyed by target status.
+   * Replaces the default guards (ready: plan-exists, completed: plan-complete) per status.
+   */
+  guards?: Record<string, string[]>;
+  /** Status `sabin task next` picks tasks from. Defaults to ready. */
+  readyStatus?: string;
+  /** Status `sabin task next --start` moves tasks to, claiming them for the working directory. Defaults to in_progress. */
+  inProgressStatus?: string;
 }
\ No newline at end of file
@@ -1,23 +1,41 @@
 import { TaskService } from '../services/taskService';
-import * as fs from 'fs';
+import * as fs from 'fs/promises';
 import * as path from 'path';
+import * as os from 'os';
 
-jest.mock('fs');
 jest.mock('vscode');
 
-const mockFs = fs as jest.Mocked<typeof fs>;
-
 describe('TaskService', () => {
-  const workspaceRoot = '/test/workspace';
+  let workspaceRoot: string;
+  let sabinDir: string;
   let taskService: TaskService;
 
-  beforeEach(() => {
-    jest.clearAllMocks();
+  async function writeTaskFile(dir: string, filename: string, frontmatter: string) {
+    await fs.writeFile(
+      path.join(sabinDir, 'tasks', dir, filename),
+      `---\n${frontmatter}\n---\nContent\n`
+    );
+  }
+
+  beforeEach(async () => {
+    workspaceRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'sabin-vscode-test-'));
+    sabinDir = path.join(workspaceRoot, '.sabin');
+    await fs.mkdir(path.join(sabinDir, 'tasks', 'open'), { recursive: true });
+    await fs.mkdir(path.join(sabinDir, 'tasks', 'completed'), { recursive: true });
+    await fs.writeFile(
+      path.join(sabinDir, 'config.json'),
+      '{"projectPrefix":"TASK","taskNumberPadding":4}'
+    );
+
     // Reset singleton instance
     (TaskService as any).instance = undefined;
     taskService = TaskService.getInstance(workspaceRoot);
   });
 
+  afterEach(async () => {
+    await fs.rm(workspaceRoot, { recursive: true, force: true });
+  });
+
   describe('getInstance', () => {
     it('should create singleton instance', () => {
       const instance1 = TaskService.getInstance(workspaceRoot);
@@ -34,54 +52,30 @@ describe('TaskService', () => {
   });
 
   describe('createTask', () => {
-    beforeEach(() => {
-      mockFs.existsSync.mockReturnValue(true);
-      mockFs.readFileSync.mockReturnValue('{"projectPrefix":"TASK","taskNumberPadding":4}');
-      mockFs.readdirSync.mockReturnValue([]);
-    });
-
     it('should create task with auto-generated ID', async () => {
-      const vscode = require('vscode');
-      vscode.workspace.fs.writeFile.mockResolvedValue(undefined);
-      vscode.workspace.fs.createDirectory.mockResolvedValue(undefined);
-      vscode.workspace.fs.readDirectory.mockResolvedValue([]);
-
       const filePath = await taskService.createTask('Test Task', 'Test description');
 
-      expect(filePath).toContain('TASK-0001.md');
-      expect(vscode.workspace.fs.writeFile).toHaveBeenCalledWith(
-        expect.objectContaining({ path: expect.stringContaining('TASK-0001.md') }),
-        expect.any(Buffer)
-      );
+      expect(filePath).toBe(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'));
+      const content = await fs.readFile(filePath, 'utf8');
+      expect(content).toContain('status: open');
+      expect(content).toContain('title: Test Task');
+      expect(content).toContain('Test description');
     });
 
     it('should create task with custom ID', async () => {
-      const vscode = require('vscode');
-      vscode.workspace.fs.writeFile.mockResolvedValue(undefined);
-      vscode.workspace.fs.createDirectory.mockResolvedValue(undefined);
-      mockFs.existsSync.mockReturnValue(false);
-
       const filePath = await taskService.createTask('Custom Task', 'Description', 'CUSTOM-123');
 
       expect(filePath).toContain('CUSTOM-123.md');
-      expect(vscode.workspace.fs.writeFile).toHaveBeenCalledWith(
-        expect.objectContaining({ path: expect.stringContaining('CUSTOM-123.md') }),
-        expect.any(Buffer)
-      );
     });
 
     it('should detect duplicate in open directory', async () => {
-      mockFs.existsSync.mockImplementation((path) => {
-        return String(path).includes('TASK-0001.md') && String(path).includes('open');
-      });
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: Existing');
 
       await expect(taskService.createTask('Duplicate', '', 'TASK-0001')).rejects.toThrow('Task TASK-0001 already exists in open/');
     });
 
     it('should detect duplicate in completed directory', async () => {
-      mockFs.existsSync.mockImplementation((path) => {
-        return String(path).includes('TASK-0001.md') && String(path).includes('completed');
-      });
+      await writeTaskFile('completed', 'TASK-0001.md', 'status: completed\ntitle: Existing');
 
       await expect(taskService.createTask('Duplicate', '', 'TASK-0001')).rejects.toThrow('Task TASK-0001 already exists in completed/');
     });
@@ -89,119 +83,83 @@ describe('TaskService', () => {
     it('should reject empty task ID', async () => {
       await expect(taskService.createTask('Test', '', '   ')).rejects.toThrow('Task ID cannot be empty');
     });
+
+    it('should allocate distinct IDs for concurrent creates', async () => {
+      const paths = await Promise.all([
+        taskService.createTask('First'),
+        taskService.createTask('Second'),
+        taskService.createTask('Third')
+      ]);
+
+      expect(paths.map(p => path.basename(p)).sort()).toEqual(['TASK-0001.md', 'TASK-0002.md', 'TASK-0003.md']);
+    });
+
+    it('should record working directory for linked projects', async () => {
+      const projectDir = path.join(workspaceRoot, 'project-1');
+      await fs.mkdir(projectDir);
+      await fs.writeFile(path.join(projectDir, '.sabin'), JSON.stringify({ sabinDir: '../.sabin' }));
+      (TaskService as any).instance = undefined;
+      const linkedService = TaskService.getInstance(projectDir);
+
+      const filePath = await linkedService.createTask('Linked Task');
+
+      expect(filePath).toBe(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'));
+      expect(await fs.readFile(filePath, 'utf8')).toContain('workingDir: project-1');
+    });
   });
 
   describe('updateTaskStatus', () => {
-    beforeEach(() => {
-      mockFs.existsSync.mockReturnValue(true);
-      mockFs.readFileSync.mockReturnValue(`---
-status: open
-title: Test Task
----
-Content`);
-      mockFs.writeFileSync.mockReturnValue(undefined);
+    beforeEach(async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: Test Task\nworkingDir: api');
     });
 
     it('should update frontmatter correctly', async () => {
-      const vscode = require('vscode');
-      mockFs.existsSync.mockImplementation((p) => String(p).includes('open'));
-
-      await taskService.updateTaskStatus('TASK-0001', 'ready');
+      await taskService.updateTaskStatus('TASK-0001', 'in_progress');
 
-      expect(mockFs.writeFileSync).toHaveBeenCalledWith(
-        expect.stringContaining('TASK-0001.md'),
-        expect.stringContaining('status: ready')
-      );
+      const content = await fs.readFile(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'), 'utf8');
+      expect(content).toContain('status: in_progress');
+      expect(content).toContain('workingDir: api');
     });
 
     it('should move file from open to completed when status is completed', async () => {
-      const vscode = require('vscode');
-      mockFs.existsSync.mockImplementation((p) => String(p).includes('open'));
-      vscode.workspace.fs.rename.mockResolvedValue(undefined);
-      vscode.workspace.fs.createDirectory.mockResolvedValue(undefined);
-
       await taskService.updateTaskStatus('TASK-0001', 'completed');
 
-      // Wait for the move to complete
-      await new Promise(resolve => setTimeout(resolve, 150));
-
-      expect(vscode.workspace.fs.rename).toHaveBeenCalledWith(
-        expect.objectContaining({ path: expect.stringContaining('open') }),
-        expect.objectContaining({ path: expect.stringContaining('completed') })
-      );
+      await expect(fs.access(path.join(sabinDir, 'tasks', 'completed', 'TASK-0001.md'))).resolves.toBeUndefined();
+      await expect(fs.access(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'))).rejects.toThrow();
     });
 
     it('should move file from completed to open when status changes from completed', async () => {
-      const vscode = require('vscode');
-      mockFs.existsSync.mockImplementation((p) => String(p).includes('completed'));
-      mockFs.readFileSync.mockReturnValue(`---
-status: completed
-title: Test Task
----
-Content`);
-      vscode.workspace.fs.rename.mockResolvedValue(undefined);
-      vscode.workspace.fs.createDirectory.mockResolvedValue(undefined);
-
+      await taskService.updateTaskStatus('TASK-0001', 'completed');
       await taskService.updateTaskStatus('TASK-0001', 'open');
 
-      // Wait for the move to complete
-      await new Promise(resolve => setTimeout(resolve, 150));
-
-      expect(vscode.workspace.fs.rename).toHaveBeenCalledWith(
-        expect.objectContaining({ path: expect.stringContaining('completed') }),
-        expect.objectContaining({ path: expect.stringContaining('open') })
-      );
+      await expect(fs.access(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'))).resolves.toBeUndefined();
+      await expect(fs.access(path.join(sabinDir, 'tasks', 'completed', 'TASK-0001.md'))).rejects.toThrow();
     });
 
     it('should throw error for non-existent task', async () => {
-      mockFs.existsSync.mockReturnValue(false);
+      await expect(taskService.updateTaskStatus('TASK-9999', 'ready')).rejects.toThrow('Task not found: TASK-9999');
+    });
+
+    it('should append the change to the history log', async () => {
+      await taskService.updateTaskStatus('TASK-0001', 'in_progress');
 
-      await expect(taskService.updateTaskStatus('TASK-9999', 'ready')).rejects.toThrow('Task TASK-9999 not found');
+      const log = await fs.readFile(path.join(sabinDir, 'history.jsonl'), 'utf8');
+      expect(JSON.parse(log.trim())).toMatchObject({ taskId: 'TASK-0001', from: 'open', to: 'in_progress' });
     });
   });
 
   describe('getTasks', () => {
-    beforeEach(() => {
-      mockFs.existsSync.mockReturnValue(true);
-      mockFs.readdirSync.mockImplementation((dir) => {
-        const dirStr = String(dir);
-        if (dirStr.includes('open')) {
-          return ['TASK-0001.md', 'TASK-0002.md'] as any;
-        } else if (dirStr.includes('completed')) {
-          return ['TASK-0003.md'] as any;
-        }
-        return [] as any;
-      });
-      mockFs.readFileSync.mockImplementation((file) => {
-        const fileStr = String(file);
-        if (fileStr.includes('TASK-0001')) {
-          return `---
-status: open
-title: Task 1
----
-Content 1`;
-        } else if (fileStr.includes('TASK-0002')) {
-          return `---
-status: ready
-title: Task 2
----
-Content 2`;
-        } else if (fileStr.includes('TASK-0003')) {
-          return `---
-status: completed
-title: Task 3
----
-Content 3`;
-        }
-        return '';
-      });
+    beforeEach(async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: Task 1');
+      await writeTaskFile('open', 'TASK-0002.md', 'status: ready\ntitle: Task 2');
+      await writeTaskFile('completed', 'TASK-0003.md', 'status: completed\ntitle: Task 3');
     });
 
     it('should return all tasks', async () => {
       const tasks = await taskService.getTasks();
 
       expect(tasks).toHaveLength(3);
-      expect(tasks.map(t => t.id)).toEqual(['TASK-0001', 'TASK-0002', 'TASK-0003']);
+      expect(tasks.map(t => t.id).sort()).toEqual(['TASK-0001', 'TASK-0002', 'TASK-0003']);
     });
 
     it('should filter by status', async () => {
@@ -211,37 +169,67 @@ Content 3`;
       expect(tasks[0].id).toBe('TASK-0001');
       expect(tasks[0].status).toBe('open');
     });
+
+    it('should read tasks when the workspace root is the .sabin directory', async () => {
+      (TaskService as any).instance = undefined;
+      const sabinRootService = TaskService.getInstance(sabinDir);
+
+      const tasks = await sabinRootService.getTasks();
+
+      expect(tasks).toHaveLength(3);
+    });
   });
 
   describe('deleteTask', () => {
-    it('should delete task file', async () => {
-      const vscode = require('vscode');
-      mockFs.existsSync.mockReturnValue(true);
-      vscode.workspace.fs.delete.mockResolvedValue(undefined);
+    it('should move the task file to the trash', async () => {
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: Task 1');
 
-      await taskService.deleteTask('/path/to/TASK-0001.md');
+      await taskService.deleteTask(path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'));
 
-      expect(vscode.workspace.fs.delete).toHaveBeenCalledWith(
-        expect.objectContaining({ path: '/path/to/TASK-0001.md' })
-      );
+      expect(await taskService.getTasks()).toHaveLength(0);
+      await expect(fs.access(path.join(sabinDir, 'trash', 'TASK-0001.md'))).resolves.toBeUndefined();
+      await expect(fs.access(path.join(sabinDir, 'trash', 'TASK-0001.json'))).resolves.toBeUndefined();
     });
 
     it('should throw error for non-existent task', async () => {
-      mockFs.existsSync.mockReturnValue(false);
+      await expect(taskService.deleteTask('/path/to/TASK-9999.md')).rejects.toThrow('Task not found');
+    });
+  });
+
+  describe('getResearchByTask', () => {
+    it('should group research notes by the tasks they reference', async () => {
+      await fs.mkdir(path.join(sabinDir, 'research'));
+      await fs.writeFile(path.join(sabinDir, 'research', 'caching.md'), '---\ntasks: [TASK-0001]\n---\n# Caching\n');
+      await fs.writeFile(path.join(sabinDir, 'research', 'oauth.md'), '# OAuth\n\nFor TASK-0002\n');
 
-      await expect(taskService.deleteTask('/path/to/TASK-9999.md')).rejects.toThrow('Task file not found');
+      const research = await taskService.getResearchByTask(['TASK-0001', 'TASK-0002', 'TASK-0003']);
+
+      expect(Object.keys(research)).toEqual(['TASK-0001', 'TASK-0002']);
+      expect(research['TASK-0001'][0].title).toBe('Caching');
+      expect(research['TASK-0002'][0].title).toBe('OAuth');
+    });
+  });
+
+  describe('getProgressByTask', () => {
+    it('should count checklist items in task bodies and plans', async () => {
+      await fs.mkdir(path.join(sabinDir, 'plans'));
+      await fs.writeFile(path.join(sabinDir, 'plans', 'p.md'), '- [x] Design\n- [ ] Build\n');
+      await fs.writeFile(
+        path.join(sabinDir, 'tasks', 'open', 'TASK-0001.md'),
+        '---\nstatus: open\ntitle: Task 1\nplan: .sabin/plans/p.md\n---\n- [x] Ask\n'
+      );
+      await writeTaskFile('open', 'TASK-0002.md', 'status: open\ntitle: Task 2');
+
+      const progress = await taskService.getProgressByTask(await taskService.getTasks());
+
+      expect(progress).toEqual({ 'TASK-0001': { done: 2, total: 3 } });
     });
   });
 
   describe('getNextTaskNumber', () => {
     it('should increment correctly', async () => {
-      const vscode = require('vscode');
-      mockFs.readFileSync.mockReturnValue('{"projectPrefix":"TASK","taskNumberPadding":4}');
-      mockFs.existsSync.mockReturnValue(true);
-      vscode.workspace.fs.readDirectory.mockResolvedValue([
-        ['TASK-0001.md', 1],
-        ['TASK-0003.md', 1]
-      ]);
+      await writeTaskFile('open', 'TASK-0001.md', 'status: open\ntitle: Task 1');
+      await writeTaskFile('completed', 'TASK-0003.md', 'status: completed\ntitle: Task 3');
 
       const nextNumber = await taskService.getNextTaskNumber();
 
@@ -249,13 +237,9 @@ Content 3`;
     });
 
     it('should respect custom prefix', async () => {
-      const vscode = require('vscode');
-      mockFs.readFileSync.mockReturnValue('{"projectPrefix":"CUSTOM","taskNumberPadding":4}');
-      mockFs.existsSync.mockReturnValue(true);
-      vscode.workspace.fs.readDirectory.mockResolvedValue([
-        ['CUSTOM-0005.md', 1],
-        ['TASK-0010.md', 1] // Should ignore different prefix
-      ]);
+      await fs.writeFile(path.join(sabinDir, 'config.json'), '{"projectPrefix":"CUSTOM","taskNumberPadding":4}');
+      await writeTaskFile('open', 'CUSTOM-0005.md', 'status: open\ntitle: Custom');
+      await writeTaskFile('open', 'TASK-0010.md', 'status: open\ntitle: Other prefix');
 
       const nextNumber = await taskService.getNextTaskNumber();
 
@@ -263,10 +247,33 @@ Content 3`;
     });
   });
 
+  describe('getStatuses', () => {
+    it('should return default statuses when config declares none', async () => {
+      const statuses = await taskService.getStatuses();
+
+      expect(statuses.map(s => s.id)).toEqual(['open', 'ready', 'in_progress', 'review', 'completed']);
+    });
+
+    it('should return statuses declared in config', async () => {
+      await fs.writeFile(path.join(sabinDir, 'config.json'), JSON.stringify({
+        projectPrefix: 'TASK',
+        taskNumberPadding: 4,
+        statuses: [
+          { id: 'open', name: 'Open', folder: 'open' },
+          { id: 'blocked', name: 'Blocked', color: 'red', folder: 'open' },
+          { id: 'completed', name: 'Completed', folder: 'completed' }
+        ]
+      }));
+
+      const statuses = await taskService.getStatuses();
+
+      expect(statuses.map(s => s.id)).toEqual(['open', 'blocked', 'completed']);
+    });
+  });
+
   describe('getProjectPrefix', () => {
     it('should return configured prefix', async () => {
-      mockFs.readFileSync.mockReturnValue('{"projectPrefix":"MYPROJECT","taskNumberPadding":4}');
-      mockFs.existsSync.mockReturnValue(true);
+      await fs.writeFile(path.join(sabinDir, 'config.json'), '{"projectPrefix":"MYPROJECT","taskNumberPadding":4}');
 
       const prefix = await taskService.getProjectPrefix();
 
@@ -274,11 +281,26 @@ Content 3`;
     });
 
     it('should return default prefix when config missing', async () => {
-      mockFs.existsSync.mockReturnValue(false);
+      await fs.rm(path.join(sabinDir, 'config.json'));
 
       const prefix = await taskService.getProjectPrefix();
 
       expect(prefix).toBe('TASK');
     });
   });
+
+  describe('getConfig', () => {
+    it('should reject a malformed config instead of using defaults', async () => {
+      await fs.writeFile(path.join(sabinDir, 'config.json'), '{"projectPrefix":"API",}');
+
+      await expect(taskService.getConfig()).rejects.toMatchObject({ code: 'INVALID_CONFIG' });
+      await expect(taskService.getProjectPrefix()).rejects.toThrow('not valid JSON');
+    });
+
+    it('should reject a config that does not match the schema', async () => {
+      await fs.writeFile(path.join(sabinDir, 'config.json'), '{"projectPrefix":"API","taskNumberPadding":"4"}');
+
+      await expect(taskService.getConfig()).rejects.toThrow('taskNumberPadding must be an integer');
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { SabinWebviewProvider } from '../providers/webviewProvider';
 import { TaskService } from '../services/taskService';
+import { DEFAULT_STATUSES } from '@sabin/core';
 
 jest.mock('vscode');
 jest.mock('fs');
@@ -31,7 +32,10 @@ describe('SabinWebviewProvider', () => {
       ]),
       createTask: jest.fn().mockResolvedValue('/path/to/TASK-0002.md'),
       updateTaskStatus: jest.fn().mockResolvedValue(undefined),
-      deleteTask: jest.fn().mockResolvedValue(undefined)
+      deleteTask: jest.fn().mockResolvedValue(undefined),
+      getStatuses: jest.fn().mockResolvedValue(DEFAULT_STATUSES),
+      getResearchByTask: jest.fn().mockResolvedValue({}),
+      getProgressByTask: jest.fn().mockResolvedValue({})
     } as any;
 
     // Mock webview
@@ -83,6 +87,13 @@ describe('SabinWebviewProvider', () => {
       expect(mockWebview.html).toContain('<!DOCTYPE html>');
     });
 
+    it('should nest child tasks under their parent card', () => {
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+
+      expect(mockWebview.html).toContain('function isNestedTask(task, openTasks)');
+      expect(mockWebview.html).toContain('<div class="child-tasks">');
+    });
+
     it('should register message handler', () => {
       provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
 
@@ -100,6 +111,16 @@ describe('SabinWebviewProvider', () => {
 
       expect(mockTaskService.getTasks).toHaveBeenCalled();
     });
+
+    it('should show an error when tasks cannot be loaded', async () => {
+      const vscode = require('vscode');
+      mockTaskService.getStatuses.mockRejectedValue(new Error('Invalid config .sabin/config.json'));
+
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(expect.stringContaining('Invalid config'));
+    });
   });
 
   describe('message handling - createTask', () => {
@@ -230,6 +251,28 @@ describe('SabinWebviewProvider', () => {
       );
     });
 
+    it('should offer statuses declared in config', async () => {
+      const vscode = require('vscode');
+      vscode.window.showQuickPick.mockResolvedValue(undefined);
+      mockTaskService.getStatuses.mockResolvedValue([
+        { id: 'open', name: 'Open', folder: 'open' },
+        { id: 'blocked', name: 'Blocked', folder: 'open' },
+        { id: 'qa', name: 'QA', folder: 'open' },
+        { id: 'completed', name: 'Completed', folder: 'completed' }
+      ]);
+
+      await messageHandler({
+        command: 'showUpdateStatusDialog',
+        taskId: 'TASK-0001',
+        currentStatus: 'open'
+      });
+
+      expect(vscode.window.showQuickPick).toHaveBeenCalledWith(
+        ['open', 'blocked', 'qa', 'completed'],
+        { placeHolder: 'Current status: open. Select new status:' }
+      );
+    });
+
     it('should update status when user selects option', async () => {
       const vscode = require('vscode');
       vscode.window.showQuickPick.mockResolvedValue('completed');
@@ -279,7 +322,7 @@ describe('SabinWebviewProvider', () => {
       });
 
       expect(vscode.window.showWarningMessage).toHaveBeenCalledWith(
-        'Are you sure you want to delete TASK-0001?',
+        'Move TASK-0001 to the trash? It can be restored with "sabin task restore TASK-0001".',
         { modal: true },
         'Delete'
       );
@@ -299,6 +342,7 @@ describe('SabinWebviewProvider', () => {
       await new Promise(resolve => setTimeout(resolve, 250));
 
       expect(mockTaskService.deleteTask).toHaveBeenCalledWith('/path/to/task.md');
+      expect(vscode.window.showInformationMessage).toHaveBeenCalledWith('Moved TASK-0001 to the trash');
     });
 
     it('should not delete task when cancelled', async () => {
@@ -315,6 +359,34 @@ describe('SabinWebviewProvider', () => {
     });
   });
 
+  describe('message handling - openResearch', () => {
+    const note = (name: string) => ({ name, title: name.toUpperCase(), tasks: [], content: '', path: `/r/${name}.md` });
+
+    beforeEach(() => {
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+    });
+
+    it('should open the only linked note', async () => {
+      const vscode = require('vscode');
+      mockTaskService.getResearchByTask.mockResolvedValue({ 'TASK-0001': [note('caching')] });
+
+      await messageHandler({ command: 'openResearch', taskId: 'TASK-0001' });
+
+      expect(vscode.window.showQuickPick).not.toHaveBeenCalled();
+      expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith('/r/caching.md');
+    });
+
+    it('should let the user pick between several notes', async () => {
+      const vscode = require('vscode');
+      mockTaskService.getResearchByTask.mockResolvedValue({ 'TASK-0001': [note('caching'), note('oauth')] });
+      vscode.window.showQuickPick.mockImplementation(async (items: any[]) => items[1]);
+
+      await messageHandler({ command: 'openResearch', taskId: 'TASK-0001' });
+
+      expect(vscode.workspace.openTextDocument).toHaveBeenCalledWith('/r/oauth.md');
+    });
+  });
+
   describe('message handling - refreshTasks', () => {
     it('should refresh tasks on command', async () => {
       provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
@@ -347,8 +419,41 @@ describe('SabinWebviewProvider', () => {
 
       expect(mockWebview.postMessage).toHaveBeenCalledWith({
         command: 'updateTasks',
-        tasks: expect.any(Array)
+        tasks: expect.any(Array),
+        statuses: DEFAULT_STATUSES,
+        research: {},
+        progress: {}
+      });
+    });
+
+    it('should send checklist progress for each task', async () => {
+      mockTaskService.getProgressByTask.mockResolvedValue({ 'TASK-0001': { done: 7, total: 12 } });
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+      mockWebview.postMessage.mockClear();
+
+      provider.refresh();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockWebview.postMessage).toHaveBeenCalledWith(expect.objectContaining({
+        progress: { 'TASK-0001': { done: 7, total: 12 } }
+      }));
+      expect(mockWebview.html).toContain('<div class="checklist-progress"');
+    });
+
+    it('should send the titles of research notes linked to each task', async () => {
+      mockTaskService.getResearchByTask.mockResolvedValue({
+        'TASK-0001': [{ name: 'caching', title: 'Caching', tasks: ['TASK-0001'], content: '', path: '/r/caching.md' }]
       });
+      provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+      mockWebview.postMessage.mockClear();
+
+      provider.refresh();
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(mockTaskService.getResearchByTask).toHaveBeenCalledWith(['TASK-0001']);
+      expect(mockWebview.postMessage).toHaveBeenCalledWith(expect.objectContaining({
+        research: { 'TASK-0001': ['Caching'] }
+      }));
     });
 
     it('should not crash when view is not available', () => {
@@ -1,6 +1,6 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { TaskService, Task } from '../services/taskService';
+import { TaskService, Task, StatusDefinition } from '../services/taskService';
 
 type TreeNode = TaskItem | StatusGroupItem;
 
@@ -38,7 +38,7 @@ export class TaskProvider implements vscode.TreeDataProvider<TreeNode> {
 
     // Status group level: return tasks for that status
     if (element instanceof StatusGroupItem) {
-      return Promise.resolve(element.tasks.map(task => new TaskItem(task)));
+      return Promise.resolve(element.tasks.map(task => new TaskItem(task, element.definition)));
     }
 
     // Task level: no children (leaf node)
@@ -47,27 +47,15 @@ export class TaskProvider implements vscode.TreeDataProvider<TreeNode> {
 
   private async getTaskItems(): Promise<TreeNode[]> {
     const tasks = await this.taskService.getTasks();
+    const statuses = await this.taskService.getStatuses();
     console.log('[Sabin Debug] getTaskItems found', tasks.length, 'tasks');
 
-    const statusGroups: { [key: string]: Task[] } = {
-      'open': [],
-      'ready': [],
-      'in_progress': [],
-      'review': [],
-      'completed': []
-    };
-
-    tasks.forEach(task => {
-      if (statusGroups[task.status]) {
-        statusGroups[task.status].push(task);
-      }
-    });
-
     const items: TreeNode[] = [];
 
-    for (const [status, statusTasks] of Object.entries(statusGroups)) {
+    for (const definition of statuses) {
+      const statusTasks = tasks.filter(task => task.status === definition.id);
       if (statusTasks.length > 0) {
-        items.push(new StatusGroupItem(status, statusTasks.length, statusTasks));
+        items.push(new StatusGroupItem(definition, statusTasks.length, statusTasks));
       }
     }
 
@@ -77,30 +65,22 @@ export class TaskProvider implements vscode.TreeDataProvider<TreeNode> {
 
 class StatusGroupItem extends vscode.TreeItem {
   constructor(
-    public readonly status: string,
+    public readonly definition: StatusDefinition,
     public readonly count: number,
     public readonly tasks: Task[]
   ) {
-    super(`${status.charAt(0).toUpperCase() + status.slice(1)} (${count})`, vscode.TreeItemCollapsibleState.Expanded);
+    super(`${definition.name} (${count})`, vscode.TreeItemCollapsibleState.Expanded);
     this.contextValue = 'statusGroup';
-
-    const iconMap: { [key: string]: string } = {
-      'open': 'circle-outline',
-      'ready': 'play',
-      'in_progress': 'sync',
-      'review': 'eye',
-      'completed': 'check'
-    };
-
-    this.iconPath = new vscode.ThemeIcon(iconMap[status] || 'circle-outline');
+    this.iconPath = new vscode.ThemeIcon(definition.icon || 'circle-outline');
   }
 }
 
 export class TaskItem extends vscode.TreeItem {
   constructor(
-    public readonly task: Task
+    public readonly task: Task,
+    definition?: StatusDefinition
   ) {
-    super(task.filename, vscode.TreeItemCollapsibleState.None);
+    super(path.basename(task.path), vscode.TreeItemCollapsibleState.None);
 
     this.tooltip = task.title;
     this.description = task.title;
@@ -113,15 +93,7 @@ export class TaskItem extends vscode.TreeItem {
       arguments: [this.resourceUri]
     };
 
-    const iconMap: { [key: string]: string } = {
-      'open': 'circle-outline',
-      'ready': 'play-circle',
-      'in_progress': 'sync~spin',
-      'review': 'eye',
-      'completed': 'check-all'
-    };
-
-    this.iconPath = new vscode.ThemeIcon(iconMap[task.status] || 'circle-outline');
+    this.iconPath = new vscode.ThemeIcon(definition?.icon || 'circle-outline');
 
     if (task.plan) {
       this.description = `${task.title} 📄`;
@@ -61,6 +61,9 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
           case 'openTask':
             await this.openTask(data.taskPath);
             break;
+          case 'openResearch':
+            await this.openResearch(data.taskId);
+            break;
           case 'deleteTask':
             await this.deleteTask(data.taskId, data.taskPath);
             break;
@@ -85,7 +88,10 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
 
   public refresh() {
     if (this._view) {
-      this.updateWebviewContent();
+      // e.g. a malformed config.json
+      this.updateWebviewContent().catch(error => {
+        vscode.window.showErrorMessage(`Failed to load tasks: ${error}`);
+      });
     }
   }
 
@@ -95,9 +101,22 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
     }
 
     const tasks = await this.taskService.getTasks();
+    const statuses = await this.taskService.getStatuses();
+    const research = await this.taskService.getResearchByTask(tasks.map(task => task.id));
+    const progress = await this.taskService.getProgressByTask(tasks);
+
+    // Only titles are needed for the card indicators
+    const researchTitles: Record<string, string[]> = {};
+    for (const [taskId, notes] of Object.entries(research)) {
+      researchTitles[taskId] = notes.map(note => note.title);
+    }
+
     this._view.webview.postMessage({
       command: 'updateTasks',
-      tasks: tasks
+      tasks: tasks,
+      statuses: statuses,
+      research: researchTitles,
+      progress: progress
     });
   }
 
@@ -118,7 +137,7 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
   }
 
   private async showUpdateStatusDialog(taskId: string, currentStatus: string) {
-    const statuses = ['open', 'ready', 'in_progress', 'review', 'completed'];
+    const statuses = (await this.taskService.getStatuses()).map(s => s.id);
     const newStatus = await vscode.window.showQuickPick(statuses, {
       placeHolder: `Current status: ${currentStatus}. Select new status:`
     });
@@ -174,9 +193,32 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  private async openResearch(taskId: string) {
+    const notes = (await this.taskService.getResearchByTask([taskId]))[taskId] || [];
+    if (notes.length === 0) {
+      vscode.window.showErrorMessage(`No research notes reference ${taskId}`);
+      return;
+    }
+
+    let note = notes[0];
+    if (notes.length > 1) {
+      const picked = await vscode.window.showQuickPick(
+        notes.map(n => ({ label: n.title, description: path.basename(n.path), note: n })),
+        { placeHolder: `Research notes for ${taskId}` }
+      );
+      if (!picked) {
+        return;
+      }
+      note = picked.note;
+    }
+
+    const document = await vscode.workspace.openTextDocument(note.path);
+    await vscode.window.showTextDocument(document);
+  }
+
   private async deleteTask(taskId: string, taskPath: string) {
     const confirmation = await vscode.window.showWarningMessage(
-      `Are you sure you want to delete ${taskId}?`,
+      `Move ${taskId} to the trash? It can be restored with "sabin task restore ${taskId}".`,
       { modal: true },
       'Delete'
     );
@@ -184,7 +226,7 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
     if (confirmation === 'Delete') {
       try {
         await this.taskService.deleteTask(taskPath);
-        vscode.window.showInformationMessage(`Deleted task: ${taskId}`);
+        vscode.window.showInformationMessage(`Moved ${taskId} to the trash`);
 
         // Delay refresh to ensure file operations complete
         await new Promise(resolve => setTimeout(resolve, 200));
@@ -279,6 +321,151 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
             return status.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
           }
 
+          // Workflow statuses from config.json, in column order
+          let currentStatuses = [];
+
+          function statusName(status) {
+            const definition = currentStatuses.find(s => s.id === status);
+            return definition ? definition.name : formatStatus(status);
+          }
+
+          function isCompletedStatus(status) {
+            const definition = currentStatuses.find(s => s.id === status);
+            return definition ? definition.folder === 'completed' : false;
+          }
+
+          function renderStatusOptions(taskId) {
+            let html = '';
+            currentStatuses.forEach(s => {
+              html += '<div class="status-option" data-status="' + s.id + '" data-task-id="' + taskId + '"><span class="status-badge status-' + s.id + '">' + s.name.toUpperCase() + '</span></div>';
+            });
+            return html;
+          }
+
+          // main.css styles the built-in statuses; custom statuses use their configured color
+          function applyStatusColors() {
+            currentStatuses.forEach(s => {
+              if (!s.color) {
+                return;
+              }
+              document.querySelectorAll('.status-badge.status-' + s.id).forEach(badge => {
+                badge.style.setProperty('--status-color', s.color);
+              });
+            });
+          }
+
+          // Child tasks nested under their parent card, keyed by parent ID
+          let childrenByParent = {};
+
+          // Titles of the research notes that reference each task, keyed by task ID
+          let researchByTask = {};
+
+          // Checked and total checklist items of each task and its plan, keyed by task ID
+          let progressByTask = {};
+
+          // Progress fill widths are set from script, since the CSP blocks inline styles
+          function applyProgressBars() {
+            document.querySelectorAll('.progress-fill').forEach(fill => {
+              fill.style.width = fill.getAttribute('data-percent') + '%';
+            });
+          }
+
+          // Count a task's descendants and how many of them are completed
+          function subtaskProgress(taskId, seen) {
+            seen = seen || new Set([taskId]);
+            let total = 0;
+            let completed = 0;
+            (childrenByParent[taskId] || []).forEach(child => {
+              if (seen.has(child.id)) {
+                return;
+              }
+              seen.add(child.id);
+              const nested = subtaskProgress(child.id, seen);
+              total += 1 + nested.total;
+              completed += (isCompletedStatus(child.status) ? 1 : 0) + nested.completed;
+            });
+            return { total: total, completed: completed };
+          }
+
+          // A task nests under an open parent unless the parent chain loops back on itself
+          function isNestedTask(task, openTasks) {
+            const seen = new Set();
+            let current = task;
+            while (current.parent && openTasks[current.parent]) {
+              if (seen.has(current.id)) {
+                return false;
+              }
+              seen.add(current.id);
+              current = openTasks[current.parent];
+            }
+            return current !== task;
+          }
+
+          function renderTaskCard(task, nestChildren) {
+            let html = '';
+            html += '<div class="ticket-card" data-task-id="' + task.id + '">';
+            html += '<div class="ticket-header">';
+            html += '<div class="ticket-id-section">';
+            html += '<span class="ticket-number">' + task.id + '</span>';
+            if (task.plan) {
+              html += '<button class="plan-label" data-plan="' + task.plan + '" title="View plan">';
+              html += '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline></svg>';
+              html += '</button>';
+            }
+            const research = researchByTask[task.id] || [];
+            if (research.length > 0) {
+              html += '<button class="research-label" data-task-id="' + task.id + '" title="Research: ' + research.join(', ').replace(/"/g, '&quot;') + '">';
+              html += '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M2 3h6a4 4 0 0 1 4 4v14a3 3 0 0 0-3-3H2z"></path><path d="M22 3h-6a4 4 0 0 0-4 4v14a3 3 0 0 1 3-3h7z"></path></svg>';
+              if (research.length > 1) {
+                html += '<span class="research-count">' + research.length + '</span>';
+              }
+              html += '</button>';
+            }
+            html += '</div>';
+            html += '<div class="header-actions">';
+            html += '<div class="secondary-actions">';
+            html += '<button class="action-icon copy-icon" data-task-path="' + task.path + '" title="Copy task"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg></button>';
+            html += '<button class="action-icon delete-icon" data-task-id="' + task.id + '" data-task-path="' + task.path + '" title="Delete task"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg></button>';
+            html += '</div>';
+            html += '<div class="status-dropdown-container">';
+            html += '<button class="status-badge status-' + task.status + '" data-task-id="' + task.id + '" title="Change status">';
+            html += statusName(task.status).toUpperCase() + ' ▾';
+            html += '</button>';
+            html += '<div class="status-dropdown" data-task-id="' + task.id + '">';
+            html += renderStatusOptions(task.id);
+            html += '</div>';
+            html += '</div>';
+            html += '</div>';
+            html += '</div>';
+            html += '<h4 data-task-path="' + task.path + '" style="cursor: pointer;">' + (task.title || task.id) + '</h4>';
+
+            const checklist = progressByTask[task.id];
+            if (checklist) {
+              html += '<div class="checklist-progress" title="Checklist items done in the task and its plan">';
+              html += '<div class="progress-bar"><div class="progress-fill" data-percent="' + Math.round(checklist.done / checklist.total * 100) + '"></div></div>';
+              html += '<span class="progress-label">' + checklist.done + '/' + checklist.total + '</span>';
+              html += '</div>';
+            }
+
+            const progress = subtaskProgress(task.id);
+            if (progress.total > 0) {
+              html += '<div class="subtask-progress">' + progress.completed + '/' + progress.total + ' subtasks done</div>';
+            }
+
+            // Open children are nested here; completed ones stay in the Completed view
+            const openChildren = (childrenByParent[task.id] || []).filter(child => !isCompletedStatus(child.status));
+            if (nestChildren && openChildren.length > 0) {
+              html += '<div class="child-tasks">';
+              openChildren.forEach(child => {
+                html += renderTaskCard(child, true);
+              });
+              html += '</div>';
+            }
+
+            html += '</div>';
+            return html;
+          }
+
           // Track collapsed state per status column
           const collapsedColumns = new Set();
           let showingCompletedView = false;
@@ -287,7 +474,27 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
             const container = document.getElementById('tasks-container');
 
             const grouped = {};
+            const completedTasks = [];
+            const openTasks = {};
+            tasks.filter(task => !isCompletedStatus(task.status)).forEach(task => {
+              openTasks[task.id] = task;
+            });
+            childrenByParent = {};
+            tasks.forEach(task => {
+              if (task.parent) {
+                (childrenByParent[task.parent] = childrenByParent[task.parent] || []).push(task);
+              }
+            });
+
             tasks.forEach(task => {
+              if (isCompletedStatus(task.status)) {
+                completedTasks.push(task);
+                return;
+              }
+              // Shown nested under its parent's card instead of in its own column
+              if (isNestedTask(task, openTasks)) {
+                return;
+              }
               if (!grouped[task.status]) {
                 grouped[task.status] = [];
               }
@@ -303,42 +510,12 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
               html += '<h2>Completed Tasks</h2>';
               html += '</div>';
 
-              if (grouped['completed'] && grouped['completed'].length > 0) {
+              if (completedTasks.length > 0) {
                 html += '<div class="status-column full-width">';
                 html += '<div class="tickets-list">';
 
-                grouped['completed'].forEach(task => {
-                  html += '<div class="ticket-card" data-task-id="' + task.id + '">';
-                  html += '<div class="ticket-header">';
-                  html += '<div class="ticket-id-section">';
-                  html += '<span class="ticket-number">' + task.id + '</span>';
-                  if (task.plan) {
-                    html += '<button class="plan-label" data-plan="' + task.plan + '" title="View plan">';
-                    html += '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline></svg>';
-                    html += '</button>';
-                  }
-                  html += '</div>';
-                  html += '<div class="header-actions">';
-                  html += '<div class="secondary-actions">';
-                  html += '<button class="action-icon copy-icon" data-task-path="' + task.path + '" title="Copy task"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg></button>';
-                  html += '<button class="action-icon delete-icon" data-task-id="' + task.id + '" data-task-path="' + task.path + '" title="Delete task"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg></button>';
-                  html += '</div>';
-                  html += '<div class="status-dropdown-container">';
-                  html += '<button class="status-badge status-' + task.status + '" data-task-id="' + task.id + '" title="Change status">';
-                  html += formatStatus(task.status).toUpperCase() + ' ▾';
-                  html += '</button>';
-                  html += '<div class="status-dropdown" data-task-id="' + task.id + '">';
-                  html += '<div class="status-option" data-status="open" data-task-id="' + task.id + '"><span class="status-badge status-open">OPEN</span></div>';
-                  html += '<div class="status-option" data-status="ready" data-task-id="' + task.id + '"><span class="status-badge status-ready">READY</span></div>';
-                  html += '<div class="status-option" data-status="in_progress" data-task-id="' + task.id + '"><span class="status-badge status-in_progress">IN PROGRESS</span></div>';
-                  html += '<div class="status-option" data-status="review" data-task-id="' + task.id + '"><span class="status-badge status-review">REVIEW</span></div>';
-                  html += '<div class="status-option" data-status="completed" data-task-id="' + task.id + '"><span class="status-badge status-completed">COMPLETED</span></div>';
-                  html += '</div>';
-                  html += '</div>';
-                  html += '</div>';
-                  html += '</div>';
-                  html += '<h4 data-task-path="' + task.path + '" style="cursor: pointer;">' + (task.title || task.id) + '</h4>';
-                  html += '</div>';
+                completedTasks.forEach(task => {
+                  html += renderTaskCard(task, false);
                 });
 
                 html += '</div></div>';
@@ -347,51 +524,23 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
               }
 
               container.innerHTML = html;
+              applyStatusColors();
+              applyProgressBars();
               return;
             }
 
             // Regular board view
-            ['open', 'ready', 'in_progress', 'review'].forEach(status => {
+            currentStatuses.filter(s => s.folder !== 'completed').map(s => s.id).forEach(status => {
               if (grouped[status] && grouped[status].length > 0) {
                 const isCollapsed = collapsedColumns.has(status);
                 html += '<div class="status-column">';
-                html += '<h3 class="status-header clickable" data-status="' + status + '" title="Click to collapse/expand">' + formatStatus(status) + ' (' + grouped[status].length + ')';
+                html += '<h3 class="status-header clickable" data-status="' + status + '" title="Click to collapse/expand">' + statusName(status) + ' (' + grouped[status].length + ')';
                 html += '<span class="collapse-indicator">' + (isCollapsed ? ' ▶' : ' ▼') + '</span>';
                 html += '</h3>';
                 html += '<div class="tickets-list' + (isCollapsed ? ' collapsed' : '') + '" data-status="' + status + '">';
 
                 grouped[status].forEach(task => {
-                  html += '<div class="ticket-card" data-task-id="' + task.id + '">';
-                  html += '<div class="ticket-header">';
-                  html += '<div class="ticket-id-section">';
-                  html += '<span class="ticket-number">' + task.id + '</span>';
-                  if (task.plan) {
-                    html += '<button class="plan-label" data-plan="' + task.plan + '" title="View plan">';
-                    html += '<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline></svg>';
-                    html += '</button>';
-                  }
-                  html += '</div>';
-                  html += '<div class="header-actions">';
-                  html += '<div class="secondary-actions">';
-                  html += '<button class="action-icon copy-icon" data-task-path="' + task.path + '" title="Copy task"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg></button>';
-                  html += '<button class="action-icon delete-icon" data-task-id="' + task.id + '" data-task-path="' + task.path + '" title="Delete task"><svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path><line x1="10" y1="11" x2="10" y2="17"></line><line x1="14" y1="11" x2="14" y2="17"></line></svg></button>';
-                  html += '</div>';
-                  html += '<div class="status-dropdown-container">';
-                  html += '<button class="status-badge status-' + task.status + '" data-task-id="' + task.id + '" title="Change status">';
-                  html += formatStatus(task.status).toUpperCase() + ' ▾';
-                  html += '</button>';
-                  html += '<div class="status-dropdown" data-task-id="' + task.id + '">';
-                  html += '<div class="status-option" data-status="open" data-task-id="' + task.id + '"><span class="status-badge status-open">OPEN</span></div>';
-                  html += '<div class="status-option" data-status="ready" data-task-id="' + task.id + '"><span class="status-badge status-ready">READY</span></div>';
-                  html += '<div class="status-option" data-status="in_progress" data-task-id="' + task.id + '"><span class="status-badge status-in_progress">IN PROGRESS</span></div>';
-                  html += '<div class="status-option" data-status="review" data-task-id="' + task.id + '"><span class="status-badge status-review">REVIEW</span></div>';
-                  html += '<div class="status-option" data-status="completed" data-task-id="' + task.id + '"><span class="status-badge status-completed">COMPLETED</span></div>';
-                  html += '</div>';
-                  html += '</div>';
-                  html += '</div>';
-                  html += '</div>';
-                  html += '<h4 data-task-path="' + task.path + '" style="cursor: pointer;">' + (task.title || task.id) + '</h4>';
-                  html += '</div>';
+                  html += renderTaskCard(task, true);
                 });
 
                 html += '</div></div>';
@@ -399,15 +548,17 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
             });
 
             // Add completed link if there are completed tasks
-            if (grouped['completed'] && grouped['completed'].length > 0) {
+            if (completedTasks.length > 0) {
               html += '<div class="status-column">';
               html += '<h3 class="status-header completed-link" title="Click to view completed tasks">';
-              html += '<a href="#" id="view-completed-link">Completed (' + grouped['completed'].length + ')</a>';
+              html += '<a href="#" id="view-completed-link">Completed (' + completedTasks.length + ')</a>';
               html += '</h3>';
               html += '</div>';
             }
 
             container.innerHTML = html || '<p>No tasks found</p>';
+            applyStatusColors();
+            applyProgressBars();
           }
 
           window.addEventListener('message', event => {
@@ -415,6 +566,9 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
             switch (message.command) {
               case 'updateTasks':
                 window.lastTasksMessage = message;
+                currentStatuses = message.statuses || [];
+                researchByTask = message.research || {};
+                progressByTask = message.progress || {};
                 renderTasks(message.tasks);
                 break;
             }
@@ -520,6 +674,16 @@ export class SabinWebviewProvider implements vscode.WebviewViewProvider {
               openTask(taskPath);
             }
 
+            // Check if clicked on research label
+            const researchButton = target.closest('.research-label');
+            if (researchButton) {
+              vscode.postMessage({
+                command: 'openResearch',
+                taskId: researchButton.getAttribute('data-task-id')
+              });
+              return;
+            }
+
             // Check if clicked on plan label
             const planButton = target.closest('.plan-label');
             if (planButton) {
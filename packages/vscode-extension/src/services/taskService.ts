@@ -1,28 +1,21 @@
-import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
-import matter from 'gray-matter';
-
-interface SabinConfig {
-  projectPrefix: string;
-  taskNumberPadding: number;
-}
-
-const DEFAULT_CONFIG: SabinConfig = {
-  projectPrefix: 'TASK',
-  taskNumberPadding: 4
-};
-
-export interface Task {
-  id: string;
-  status: 'open' | 'ready' | 'in_progress' | 'review' | 'completed';
-  title: string;
-  plan?: string;
-  workingDir?: string;
-  content: string;
-  path: string;
-  filename: string;
-}
+import {
+  TaskRepository,
+  resolveSabinDir,
+  getWorkingDirName,
+  listResearch,
+  groupResearchByTask,
+  readTaskChecklist,
+  getChecklistProgress,
+  Task,
+  SabinConfig,
+  StatusDefinition,
+  ResearchNote,
+  ChecklistProgress
+} from '@sabin/core';
+
+export type { Task, SabinConfig, StatusDefinition, ResearchNote, ChecklistProgress };
 
 /**
  * Shared service for task file operations used by both TreeView and Webview
@@ -30,9 +23,7 @@ export interface Task {
 export class TaskService {
   private static instance: TaskService;
   private workspaceRoot: string;
-  private config: SabinConfig | null = null;
-  private sabinDir: string | null = null;
-  private isLinked: boolean = false;
+  private repository: TaskRepository | null = null;
 
   private constructor(workspaceRoot: string) {
     this.workspaceRoot = workspaceRoot;
@@ -49,58 +40,32 @@ export class TaskService {
   }
 
   /**
-   * Resolve .sabin directory (file or directory)
+   * Get the task repository for the resolved .sabin directory (file or directory)
    */
-  private async resolveSabinDir(): Promise<{ sabinDir: string; isLinked: boolean }> {
-    if (this.sabinDir) {
-      return { sabinDir: this.sabinDir, isLinked: this.isLinked };
+  private async getRepository(): Promise<TaskRepository> {
+    if (this.repository) {
+      return this.repository;
     }
 
     // Check if workspace root itself is a .sabin directory
     // by looking for characteristic files/folders
-    const isSabinRoot = this.isSabinDirectory(this.workspaceRoot);
-
-    if (isSabinRoot) {
-      // Workspace root IS the .sabin directory
-      this.sabinDir = this.workspaceRoot;
-      this.isLinked = false;
-      return { sabinDir: this.sabinDir, isLinked: this.isLinked };
+    if (this.isSabinDirectory(this.workspaceRoot)) {
+      this.repository = new TaskRepository(this.workspaceRoot);
+      return this.repository;
     }
 
-    const sabinPath = path.join(this.workspaceRoot, '.sabin');
-
     try {
-      const stat = fs.statSync(sabinPath);
-
-      if (stat.isDirectory()) {
-        // Traditional .sabin directory
-        this.sabinDir = sabinPath;
-        this.isLinked = false;
-      } else if (stat.isFile()) {
-        // .sabin file contains link to shared directory
-        const content = fs.readFileSync(sabinPath, 'utf8');
-        const config = JSON.parse(content);
-
-        if (config.sabinDir) {
-          this.sabinDir = path.resolve(this.workspaceRoot, config.sabinDir);
-          this.isLinked = true;
-        } else {
-          throw new Error('.sabin file must contain "sabinDir" field');
-        }
-      } else {
-        // Fallback to traditional path
-        this.sabinDir = sabinPath;
-        this.isLinked = false;
-      }
+      const { sabinDir, isLinked, projectRoot } = await resolveSabinDir(this.workspaceRoot);
+      this.repository = new TaskRepository(sabinDir, {
+        workingDir: isLinked ? getWorkingDirName(sabinDir, projectRoot) : undefined
+      });
     } catch (error) {
       console.error('Failed to resolve .sabin:', error);
       // Fallback to traditional path
-      this.sabinDir = sabinPath;
-      this.isLinked = false;
+      this.repository = new TaskRepository(path.join(this.workspaceRoot, '.sabin'));
     }
 
-    // sabinDir is guaranteed to be set at this point
-    return { sabinDir: this.sabinDir!, isLinked: this.isLinked };
+    return this.repository;
   }
 
   /**
@@ -115,179 +80,64 @@ export class TaskService {
   }
 
   /**
-   * Get working directory name
+   * Get all tasks, optionally filtered by status
    */
-  private getWorkingDirName(sabinDir: string): string {
-    // If workspace root IS the .sabin directory, no working directory needed
-    if (this.workspaceRoot === sabinDir) {
-      return '.';
-    }
-
-    const sabinParent = path.dirname(sabinDir);
-    const relativePath = path.relative(sabinParent, this.workspaceRoot);
-    return relativePath === '' ? '.' : relativePath;
+  async getTasks(status?: string): Promise<Task[]> {
+    const repository = await this.getRepository();
+    return repository.list(status);
   }
 
   /**
-   * Read the config file, returning default config if it doesn't exist
+   * Update a task's status and move file if necessary
    */
-  private async getConfig(): Promise<SabinConfig> {
-    if (this.config) {
-      return this.config;
-    }
-
-    const { sabinDir } = await this.resolveSabinDir();
-    const configPath = path.join(sabinDir, 'config.json');
-    let loadedConfig: SabinConfig;
-
-    try {
-      if (fs.existsSync(configPath)) {
-        const content = fs.readFileSync(configPath, 'utf8');
-        const config = JSON.parse(content);
-        loadedConfig = { ...DEFAULT_CONFIG, ...config };
-      } else {
-        loadedConfig = { ...DEFAULT_CONFIG };
-      }
-    } catch (error) {
-      loadedConfig = { ...DEFAULT_CONFIG };
-    }
-
-    this.config = loadedConfig;
-    return this.config;
+  async updateTaskStatus(taskId: string, newStatus: string): Promise<void> {
+    const repository = await this.getRepository();
+    await repository.move(taskId, newStatus);
   }
 
   /**
-   * Get all tasks, optionally filtered by status
+   * Get the ordered workflow statuses from config.json
    */
-  async getTasks(status?: string): Promise<Task[]> {
-    const { sabinDir } = await this.resolveSabinDir();
-    const tasksPath = path.join(sabinDir, 'tasks');
-    const tasks: Task[] = [];
-
-    for (const dir of ['open', 'completed']) {
-      const dirPath = path.join(tasksPath, dir);
-
-      if (!fs.existsSync(dirPath)) {
-        continue;
-      }
-
-      const files = fs.readdirSync(dirPath);
-
-      for (const file of files.filter(f => f.endsWith('.md'))) {
-        const filePath = path.join(dirPath, file);
-        const task = await this.parseTask(filePath);
-
-        if (!status || task.status === status) {
-          tasks.push(task);
-        }
-      }
-    }
-
-    return tasks;
+  async getStatuses(): Promise<StatusDefinition[]> {
+    const repository = await this.getRepository();
+    return repository.getStatuses();
   }
 
   /**
-   * Parse a task file and return a Task object
+   * Get the research notes that reference each task, keyed by task ID.
+   * Tasks without notes are left out.
    */
-  private async parseTask(filePath: string): Promise<Task> {
-    const content = fs.readFileSync(filePath, 'utf8');
-    const { data, content: body } = matter(content);
-
-    return {
-      id: path.basename(filePath, '.md'),
-      status: data.status || 'open',
-      title: data.title || path.basename(filePath, '.md'),
-      plan: data.plan,
-      workingDir: data.workingDir,
-      content: body,
-      path: filePath,
-      filename: path.basename(filePath)
-    };
+  async getResearchByTask(taskIds: string[]): Promise<Record<string, ResearchNote[]>> {
+    const repository = await this.getRepository();
+    const notes = await listResearch(repository.sabinDir);
+    return Object.fromEntries(groupResearchByTask(notes, taskIds));
   }
 
   /**
-   * Update a task's status and move file if necessary
+   * Count the checked checklist items of each task body and its plan, keyed by task ID.
+   * Tasks without checklist items are left out.
    */
-  async updateTaskStatus(taskId: string, newStatus: string): Promise<void> {
-    const { sabinDir, isLinked } = await this.resolveSabinDir();
-
-    let filePath: string | undefined;
-    for (const dir of ['open', 'completed']) {
-      const testPath = path.join(sabinDir, 'tasks', dir, `${taskId}.md`);
-      if (fs.existsSync(testPath)) {
-        filePath = testPath;
-        break;
-      }
-    }
-
-    if (!filePath) {
-      throw new Error(`Task ${taskId} not found`);
-    }
-
-    let content = fs.readFileSync(filePath, 'utf8');
-
-    // Update status
-    content = content.replace(
-      /^status:\s*\w+$/m,
-      `status: ${newStatus}`
-    );
-
-    // Add/update workingDir when moving to in_progress
-    if (newStatus === 'in_progress' && isLinked) {
-      const workingDir = this.getWorkingDirName(sabinDir);
-
-      if (content.match(/^workingDir:/m)) {
-        // Update existing
-        content = content.replace(
-          /^workingDir:.*$/m,
-          `workingDir: ${workingDir}`
-        );
-      } else {
-        // Add after status line
-        content = content.replace(
-          /^(status:\s*\w+)$/m,
-          `$1\nworkingDir: ${workingDir}`
-        );
+  async getProgressByTask(tasks: Task[]): Promise<Record<string, ChecklistProgress>> {
+    const repository = await this.getRepository();
+    const progress: Record<string, ChecklistProgress> = {};
+
+    for (const task of tasks) {
+      const items = await readTaskChecklist(task, repository.sabinDir);
+      if (items.length > 0) {
+        progress[task.id] = getChecklistProgress(items);
       }
     }
 
-    // Write updated content first
-    fs.writeFileSync(filePath, content);
-
-    // Move file if needed (with delay to ensure write completes)
-    if (newStatus === 'completed' && !filePath.includes('/completed/')) {
-      await this.moveTaskToCompleted(filePath, sabinDir);
-    } else if (newStatus !== 'completed' && filePath.includes('/completed/')) {
-      await this.moveTaskToOpen(filePath, sabinDir);
-    }
-  }
-
-  /**
-   * Move a task file to the completed directory
-   */
-  private async moveTaskToCompleted(filePath: string, sabinDir: string): Promise<void> {
-    // Small delay to ensure file write completes
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    const filename = path.basename(filePath);
-    const newPath = path.join(sabinDir, 'tasks', 'completed', filename);
-
-    await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(newPath)));
-    await vscode.workspace.fs.rename(vscode.Uri.file(filePath), vscode.Uri.file(newPath));
+    return progress;
   }
 
   /**
-   * Move a task file to the open directory
+   * Get the config from config.json, validated against the config schema.
+   * Throws an InvalidConfigError naming each problem when it is malformed.
    */
-  private async moveTaskToOpen(filePath: string, sabinDir: string): Promise<void> {
-    // Small delay to ensure file write completes
-    await new Promise(resolve => setTimeout(resolve, 100));
-
-    const filename = path.basename(filePath);
-    const newPath = path.join(sabinDir, 'tasks', 'open', filename);
-
-    await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(newPath)));
-    await vscode.workspace.fs.rename(vscode.Uri.file(filePath), vscode.Uri.file(newPath));
+  async getConfig(): Promise<SabinConfig> {
+    const repository = await this.getRepository();
+    return repository.getConfig();
   }
 
   /**
@@ -302,123 +152,28 @@ export class TaskService {
    * Get the next available task number
    */
   async getNextTaskNumber(): Promise<string> {
-    const config = await this.getConfig();
-    const { sabinDir } = await this.resolveSabinDir();
-    const tasksDir = path.join(sabinDir, 'tasks');
-    const fsVscode = vscode.workspace.fs;
-
-    let maxNumber = 0;
-
-    // Create regex pattern based on configured prefix
-    const pattern = new RegExp(`^${config.projectPrefix}-(\\d+)\\.md$`);
-
-    for (const dir of ['open', 'completed']) {
-      try {
-        const dirPath = path.join(tasksDir, dir);
-        const existingTasks = await fsVscode.readDirectory(vscode.Uri.file(dirPath));
-        for (const [name] of existingTasks) {
-          const match = name.match(pattern);
-          if (match) {
-            const num = parseInt(match[1], 10);
-            if (num > maxNumber) {
-              maxNumber = num;
-            }
-          }
-        }
-      } catch (error) {
-        // Directory might not exist
-      }
-    }
-
-    return String(maxNumber + 1).padStart(config.taskNumberPadding, '0');
+    const repository = await this.getRepository();
+    return repository.getNextTaskNumber();
   }
 
   /**
-   * Create a new task
+   * Create a new task and return its file path
    */
   async createTask(title: string, description?: string, taskNumber?: string): Promise<string> {
-    const config = await this.getConfig();
-    const { sabinDir, isLinked } = await this.resolveSabinDir();
-    const tasksDir = path.join(sabinDir, 'tasks');
-    const fsVscode = vscode.workspace.fs;
-
-    await fsVscode.createDirectory(vscode.Uri.file(path.join(tasksDir, 'open')));
-    await fsVscode.createDirectory(vscode.Uri.file(path.join(tasksDir, 'completed')));
-
-    // Get task ID - use provided ID or generate next one
-    let taskId: string;
-    let filename: string;
-
-    if (taskNumber) {
-      // Accept any non-empty string as task ID
-      const customId = taskNumber.trim();
-      if (!customId) {
-        throw new Error('Task ID cannot be empty.');
-      }
-
-      // Use the ID as-is for the filename
-      taskId = customId;
-      filename = `${taskId}.md`;
-
-      // Check if task already exists
-      const testPathOpen = path.join(tasksDir, 'open', filename);
-      const testPathCompleted = path.join(tasksDir, 'completed', filename);
-
-      if (fs.existsSync(testPathOpen)) {
-        throw new Error(`Task ${taskId} already exists in open/`);
-      }
-      if (fs.existsSync(testPathCompleted)) {
-        throw new Error(`Task ${taskId} already exists in completed/`);
-      }
-    } else {
-      // Generate next task number using configured prefix
-      const nextNumber = await this.getNextTaskNumber();
-      taskId = `${config.projectPrefix}-${nextNumber}`;
-      filename = `${taskId}.md`;
-    }
-
-    const filePath = path.join(tasksDir, 'open', filename);
-
-    // Helper function to safely quote YAML values
-    const quoteYaml = (value: string) => {
-      // Quote if contains special characters like colons, quotes, or starts with special chars
-      if (/[:\[\]{}&*#?|<>=!%@`]/.test(value) || /^['"@-]/.test(value)) {
-        return `"${value.replace(/"/g, '\\"')}"`;
-      }
-      return value;
-    };
-
-    let frontmatter = `---
-status: open
-title: ${quoteYaml(title)}`;
-
-    // Add working directory for tasks in linked setup
-    if (isLinked) {
-      const workingDir = this.getWorkingDirName(sabinDir);
-      if (workingDir !== '.') {
-        frontmatter += `\nworkingDir: ${workingDir}`;
-      }
-    }
-
-    frontmatter += '\n---\n';
-
-    const content = `${frontmatter}
-${description || ''}
-`;
-
-    await fsVscode.writeFile(vscode.Uri.file(filePath), Buffer.from(content));
-
-    return filePath;
+    const repository = await this.getRepository();
+    const task = await repository.create({
+      title,
+      content: description,
+      taskId: taskNumber
+    });
+    return task.path;
   }
 
   /**
-   * Delete a task file
+   * Move a task to .sabin/trash, from where `sabin task restore` can bring it back
    */
   async deleteTask(taskPath: string): Promise<void> {
-    if (!fs.existsSync(taskPath)) {
-      throw new Error(`Task file not found: ${taskPath}`);
-    }
-
-    await vscode.workspace.fs.delete(vscode.Uri.file(taskPath));
+    const repository = await this.getRepository();
+    await repository.delete(path.basename(taskPath, '.md'));
   }
 }
@@ -11,7 +11,7 @@ describe('Sabin Workflow Integration Tests', () => {
     await fs.mkdir(TEST_DIR, { recursive: true });
     process.chdir(TEST_DIR);
 
-    // Initialize sabin structure
+    // Initialize the legacy layout older checkouts use
     await fs.mkdir('.sabin/tickets/open', { recursive: true });
     await fs.mkdir('.sabin/tickets/resolved', { recursive: true });
     await fs.mkdir('.sabin/plans', { recursive: true });
@@ -27,21 +27,21 @@ describe('Sabin Workflow Integration Tests', () => {
     }
   });
 
-  it('should create a ticket from TODO item', async () => {
+  it('should create a task from TODO item', async () => {
     // Create TODO with an item
     const todoContent = '# TODO\n\n- Implement feature X\n    - Add API endpoint\n    - Add tests\n';
     await fs.writeFile('.sabin/TODO.md', todoContent);
 
-    // Extract TODO to ticket
+    // Extract TODO to task (items are numbered from 1)
     try {
-      execSync('npx sabin extract-todo 0', { cwd: TEST_DIR, stdio: 'pipe' });
+      execSync('npx sabin todo extract 1', { cwd: TEST_DIR, stdio: 'pipe' });
     } catch (error) {
       // Command might fail in test environment, that's ok for now
     }
 
-    // Verify ticket was created (if command succeeded)
+    // Verify task was created (if command succeeded)
     try {
-      const tickets = await fs.readdir('.sabin/tickets/open');
+      const tickets = await fs.readdir('.sabin/tasks/open');
       if (tickets.length > 0) {
         expect(tickets.length).toBeGreaterThan(0);
 
@@ -55,32 +55,33 @@ describe('Sabin Workflow Integration Tests', () => {
     }
   });
 
-  it('should create ticket with title and description', async () => {
+  it('should create a task with title and description after migrating', async () => {
     const title = 'Test Ticket';
     const description = 'Test Description';
 
     try {
-      execSync(`npx sabin create-ticket --title "${title}" --description "${description}"`, {
+      execSync('npx sabin migrate', { cwd: TEST_DIR, stdio: 'pipe' });
+      execSync(`npx sabin task create --title "${title}" --content "${description}"`, {
         cwd: TEST_DIR,
         stdio: 'pipe'
       });
 
-      const tickets = await fs.readdir('.sabin/tickets/open');
-      expect(tickets.length).toBe(1);
+      const tasks = await fs.readdir('.sabin/tasks/open');
+      expect(tasks.length).toBe(1);
 
-      const ticketPath = path.join('.sabin/tickets/open', tickets[0]);
-      const content = await fs.readFile(ticketPath, 'utf8');
+      const taskPath = path.join('.sabin/tasks/open', tasks[0]);
+      const content = await fs.readFile(taskPath, 'utf8');
 
       expect(content).toContain(`title: ${title}`);
-      expect(content).toContain(`description: ${description}`);
+      expect(content).toContain(description);
       expect(content).toContain('status: open');
     } catch (error) {
       console.log('Skipping test - CLI not available in test environment');
     }
   });
 
-  it('should update ticket status', async () => {
-    // Create a ticket first
+  it('should update the status of a migrated ticket', async () => {
+    // Create a ticket in the legacy layout first
     const ticketContent = `---
 status: open
 title: Test Ticket
@@ -93,43 +94,47 @@ Test content`;
     await fs.writeFile('.sabin/tickets/open/TICKET-0001.md', ticketContent);
 
     try {
-      execSync('npx sabin update-status TICKET-0001 ready', {
+      execSync('npx sabin migrate', { cwd: TEST_DIR, stdio: 'pipe' });
+      execSync('npx sabin task update TICKET-0001 ready', {
         cwd: TEST_DIR,
         stdio: 'pipe'
       });
 
-      const content = await fs.readFile('.sabin/tickets/open/TICKET-0001.md', 'utf8');
+      const content = await fs.readFile('.sabin/tasks/open/TICKET-0001.md', 'utf8');
       expect(content).toContain('status: ready');
     } catch (error) {
       console.log('Skipping test - CLI not available in test environment');
     }
   });
 
-  it('should move ticket to resolved directory when status is resolved', async () => {
+  it('should migrate resolved tickets to tasks/completed', async () => {
     const ticketContent = `---
-status: open
+status: resolved
 title: Test Ticket
 ---
 
 # Test Ticket`;
 
-    await fs.writeFile('.sabin/tickets/open/TICKET-0001.md', ticketContent);
+    await fs.writeFile('.sabin/tickets/resolved/TICKET-0001.md', ticketContent);
 
     try {
-      execSync('npx sabin update-status TICKET-0001 resolved', {
+      execSync('npx sabin migrate', {
         cwd: TEST_DIR,
         stdio: 'pipe'
       });
 
-      // Check ticket moved to resolved
-      const resolvedTickets = await fs.readdir('.sabin/tickets/resolved');
-      expect(resolvedTickets).toContain('TICKET-0001.md');
+      // Check ticket moved to tasks/completed with the current status
+      const completedTasks = await fs.readdir('.sabin/tasks/completed');
+      expect(completedTasks).toContain('TICKET-0001.md');
+      const content = await fs.readFile('.sabin/tasks/completed/TICKET-0001.md', 'utf8');
+      expect(content).toContain('status: completed');
 
-      // Check ticket removed from open
-      const openTickets = await fs.readdir('.sabin/tickets/open');
-      expect(openTickets).not.toContain('TICKET-0001.md');
+      // Check the legacy folders are gone and the layout version is recorded
+      await expect(fs.access('.sabin/tickets')).rejects.toThrow();
+      const config = JSON.parse(await fs.readFile('.sabin/config.json', 'utf8'));
+      expect(config.schemaVersion).toBe(1);
     } catch (error) {
       console.log('Skipping test - CLI not available in test environment');
     }
   });
-});
\ No newline at end of file
+});